@@ -0,0 +1,6 @@
+/**
+ * Well-known alias of the x402 resource discovery endpoint
+ * Same response as GET /api/x402/resources
+ */
+
+export { GET, runtime, dynamic } from '@/app/api/x402/resources/route';
@@ -0,0 +1,25 @@
+/**
+ * Sign-In Nonce Endpoint
+ * Issues a single-use nonce for the Sign-In With Solana message,
+ * remembered in a short-lived HTTP-only cookie
+ */
+
+import { NextResponse } from 'next/server';
+import { x402Config } from '@/lib/x402-config';
+import { NONCE_COOKIE, authCookieOptions, createSignInNonce } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  const { nonce, cookie, expiresAt } = createSignInNonce();
+
+  const response = NextResponse.json({
+    nonce,
+    statement: x402Config.auth.statement,
+    issuedAt: new Date().toISOString(),
+    expirationTime: new Date(expiresAt).toISOString(),
+  });
+  response.cookies.set(NONCE_COOKIE, cookie, authCookieOptions(expiresAt));
+  return response;
+}
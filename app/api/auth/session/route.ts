@@ -0,0 +1,24 @@
+/**
+ * Session Endpoint
+ * GET reports the signed-in public key, DELETE signs out
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { SESSION_COOKIE, getSession } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json({ authenticated: false });
+  }
+  return NextResponse.json({ authenticated: true, ...session });
+}
+
+export async function DELETE() {
+  const response = NextResponse.json({ authenticated: false });
+  response.cookies.delete(SESSION_COOKIE);
+  return response;
+}
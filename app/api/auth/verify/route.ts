@@ -0,0 +1,51 @@
+/**
+ * Sign-In Verification Endpoint
+ * Checks the wallet's ed25519 signature of the sign-in message and
+ * starts an HTTP-only session bound to the verified public key
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { NONCE_COOKIE, SESSION_COOKIE, authCookieOptions, verifySignIn } from '@/lib/auth';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { publicKey, message, signature } = await request.json();
+
+    if (!publicKey || !message || !signature) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const result = await verifySignIn(
+      { publicKey, message, signature },
+      { nonceCookie: request.cookies.get(NONCE_COOKIE)?.value, host: request.headers.get('host') }
+    );
+
+    if (!result.ok) {
+      return NextResponse.json(
+        { authenticated: false, error: result.message, reason: result.reason },
+        { status: 401 }
+      );
+    }
+
+    const response = NextResponse.json({
+      authenticated: true,
+      publicKey: result.publicKey,
+      expiresAt: result.expiresAt,
+    });
+    response.cookies.set(SESSION_COOKIE, result.session, authCookieOptions(result.expiresAt));
+    response.cookies.delete(NONCE_COOKIE);
+    return response;
+  } catch (error) {
+    console.error('Error verifying sign-in:', error);
+    return NextResponse.json(
+      { error: 'Sign-in failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,30 @@
+/**
+ * Credit Balance Endpoint
+ * Returns the prepaid credit balance of the signed-in wallet on the
+ * network query parameter
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { creditLedger } from '@/lib/credits';
+import { getSession } from '@/lib/auth';
+import { resolveNetwork } from '@/lib/solana-networks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  // Balances are private to the wallet, so only the session names it
+  const publicKey = getSession(request)?.publicKey;
+  if (!publicKey) {
+    return NextResponse.json({ error: 'Sign in to see your credit balance' }, { status: 401 });
+  }
+
+  const requestedNetwork = request.nextUrl.searchParams.get('network');
+  const network = resolveNetwork(requestedNetwork);
+  if (!network) {
+    return NextResponse.json({ error: `Unsupported network - ${requestedNetwork}` }, { status: 400 });
+  }
+
+  const credits = await creditLedger.balance(publicKey, network);
+  return NextResponse.json({ publicKey, network, credits });
+}
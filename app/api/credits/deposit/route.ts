@@ -0,0 +1,93 @@
+/**
+ * Credit Deposit Endpoint
+ * Verifies an on-chain deposit to a network's treasury and credits the
+ * payer with the credits it buys on that network
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { x402Config } from '@/lib/x402-config';
+import { verifyTransfer } from '@/lib/solana-payment';
+import { getPaymentNetwork } from '@/lib/payment-network';
+import { getEnabledNetworks, getNetworkConfig, resolveNetwork } from '@/lib/solana-networks';
+import { findPaymentAsset } from '@/lib/payment-assets';
+import { signatureLedger } from '@/lib/signature-ledger';
+import { creditLedger } from '@/lib/credits';
+import { creditsForPayment } from '@/lib/credits-client';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function POST(request: NextRequest) {
+  try {
+    const { signature, publicKey, timestamp, asset: assetOrMint = 'SOL', network: requestedNetwork } = await request.json();
+
+    if (!signature || !publicKey) {
+      return NextResponse.json(
+        { error: 'Missing required fields' },
+        { status: 400 }
+      );
+    }
+
+    const network = resolveNetwork(requestedNetwork);
+    if (!network) {
+      return NextResponse.json(
+        { error: `Unsupported network - ${requestedNetwork}`, networks: getEnabledNetworks() },
+        { status: 400 }
+      );
+    }
+
+    const asset = findPaymentAsset(assetOrMint, network);
+    if (!asset) {
+      return NextResponse.json(
+        { error: `Asset ${assetOrMint} is not accepted for deposits on ${network}` },
+        { status: 400 }
+      );
+    }
+
+    // Any transfer worth at least one credit counts as a deposit
+    const { connection } = getPaymentNetwork(network);
+    const transfer = await verifyTransfer({
+      signature,
+      connection,
+      recipient: getNetworkConfig(network).payTo,
+      amount: x402Config.credits.value[asset.symbol],
+      sender: publicKey,
+      mint: asset.native ? undefined : asset.mint,
+    });
+
+    if (!transfer.ok) {
+      return NextResponse.json(
+        { error: `Deposit verification failed - ${transfer.message}`, reason: transfer.reason },
+        { status: 402 }
+      );
+    }
+
+    // A deposit transaction can only be credited once
+    const ledgerResult = await signatureLedger.consume({
+      signature,
+      resource: '/api/credits/deposit',
+      payer: transfer.payer,
+      timestamp: timestamp ? String(timestamp) : String(Date.now()),
+      blockTime: transfer.blockTime,
+    });
+
+    if (!ledgerResult.ok) {
+      return NextResponse.json(
+        { error: `Deposit verification failed - ${ledgerResult.message}`, reason: ledgerResult.reason },
+        { status: 402 }
+      );
+    }
+
+    const deposited = creditsForPayment({ asset, amount: transfer.amount });
+    const credits = await creditLedger.deposit(transfer.payer, deposited, network);
+    console.log('[x402/credits] Deposited', deposited, network, 'credits for', transfer.payer);
+
+    return NextResponse.json({ publicKey: transfer.payer, network, deposited, credits });
+  } catch (error) {
+    console.error('Error depositing credits:', error);
+    return NextResponse.json(
+      { error: 'Deposit failed' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,25 @@
+/**
+ * Payment History Endpoint
+ * Lists the paid requests of the signed-in wallet, newest first
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { paymentLog } from '@/lib/payment-log';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  // History is tied to a verified public key, not a header anyone can set
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Sign in with your wallet to view payment history' },
+      { status: 401 }
+    );
+  }
+
+  const payments = await paymentLog.listForWallet(session.publicKey);
+  return NextResponse.json({ publicKey: session.publicKey, payments });
+}
@@ -0,0 +1,13 @@
+/**
+ * x402 Protected API Route - New Markets
+ * Serves new Polymarket markets as MarketsUI, from the upstream in lib/markets.ts
+ * GET takes hoursBack, category and limit as query parameters; POST takes them as the config
+ */
+
+import { createMarketsRoute } from '@/lib/paid-render';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export const GET = createMarketsRoute();
+export const POST = GET;
@@ -0,0 +1,14 @@
+/**
+ * OpenAPI Endpoint
+ * Serves the generated OpenAPI 3.1 document, rendered at /docs
+ */
+
+import { NextResponse } from 'next/server';
+import { buildOpenApiDocument } from '@/lib/openapi';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET() {
+  return NextResponse.json(buildOpenApiDocument());
+}
@@ -0,0 +1,39 @@
+/**
+ * Stored Render Endpoint
+ * Returns a previously paid render to the wallet that paid for it,
+ * for as long as renders are retained
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { getSession } from '@/lib/auth';
+import { renderStore } from '@/lib/render-store';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ contentId: string }> }
+) {
+  const { contentId } = await params;
+
+  // The entitlement belongs to the payer's key, so the caller must prove it
+  const session = getSession(request);
+  if (!session) {
+    return NextResponse.json(
+      { error: 'Sign in with the wallet that paid for this render', reason: 'NOT_SIGNED_IN' },
+      { status: 401 }
+    );
+  }
+
+  const result = await renderStore.getForOwner(contentId, session.publicKey);
+  if (!result.ok) {
+    return NextResponse.json(
+      { error: result.message, reason: result.reason },
+      { status: result.reason === 'FORBIDDEN' ? 403 : 404 }
+    );
+  }
+
+  const { response, expiresAt } = result.render;
+  return NextResponse.json({ ...response, contentId, retainedUntil: expiresAt });
+}
@@ -1,59 +1,143 @@
 /**
  * Payment Verification Endpoint
- * Verifies Solana transaction signatures
+ * Verifies a Solana payment against an endpoint's price and issues
+ * a short-lived access receipt that the paid routes accept in place
+ * of a second on-chain lookup
  */
 
 import { NextRequest, NextResponse } from 'next/server';
-import { Connection } from '@solana/web3.js';
-import { x402Config } from '@/lib/x402-config';
-import { verifyPaymentTransaction } from '@/lib/solana-payment';
+import { verifyTransfer } from '@/lib/solana-payment';
+import { getPaymentNetwork } from '@/lib/payment-network';
+import { getEnabledNetworks, getNetworkConfig, resolveNetwork } from '@/lib/solana-networks';
+import { isPricedEndpoint } from '@/lib/payment-assets';
+import { findQuotedPrice, quotePrice, type QuoteRequest } from '@/lib/pricing';
+import { signatureLedger } from '@/lib/signature-ledger';
+import { validateRenderRequest } from '@/lib/component-registry';
+import { formatIssues } from '@/lib/validation';
+import { issueAccessReceipt } from '@/lib/access-receipt';
 
 export async function POST(request: NextRequest) {
+  let body;
   try {
-    const body = await request.json();
-    const { signature, publicKey, endpoint } = body;
-    
+    body = await request.json();
+  } catch {
+    return NextResponse.json(
+      { error: 'Invalid request - body must be JSON' },
+      { status: 400 }
+    );
+  }
+
+  try {
+    const { signature, publicKey, endpoint, timestamp, asset = 'SOL', componentType, config } = body;
+
     if (!signature || !publicKey || !endpoint) {
       return NextResponse.json(
         { error: 'Missing required fields' },
         { status: 400 }
       );
     }
-    
-    // Get expected price for the endpoint
-    const expectedPrice = x402Config.prices[endpoint as keyof typeof x402Config.prices];
-    if (!expectedPrice) {
+
+    // The receipt only unlocks requests on the network the payment was made on
+    const network = resolveNetwork(body.network);
+    if (!network) {
+      return NextResponse.json(
+        { error: `Unsupported network - ${body.network}`, networks: getEnabledNetworks() },
+        { status: 400 }
+      );
+    }
+
+    // Quote the endpoint for the requested component and config in the asset paid with
+    if (!isPricedEndpoint(endpoint)) {
       return NextResponse.json(
         { error: 'Invalid endpoint' },
         { status: 400 }
       );
     }
-    
-    // Connect to Solana network
-    const connection = new Connection(x402Config.rpcEndpoint, 'confirmed');
-    
-    // Verify the transaction
-    const isValid = await verifyPaymentTransaction(
+    // Quotes depend on the component and config, so they must be valid too
+    let quoteRequest: QuoteRequest = { priceKey: endpoint, network };
+    if (componentType !== undefined) {
+      const validation = validateRenderRequest({ componentType, config });
+      if (!validation.ok) {
+        return NextResponse.json(
+          { error: `Invalid request - ${formatIssues(validation.issues)}`, issues: validation.issues },
+          { status: 400 }
+        );
+      }
+      quoteRequest = { priceKey: endpoint, network, ...validation.value };
+    }
+    const expectedPrice = findQuotedPrice(quotePrice(quoteRequest), asset);
+    if (!expectedPrice) {
+      return NextResponse.json(
+        { error: `Asset ${asset} is not accepted for ${endpoint} on ${network}` },
+        { status: 400 }
+      );
+    }
+
+    const { connection } = getPaymentNetwork(network);
+
+    // Verify amount, recipient and payer of the transaction
+    const transfer = await verifyTransfer({
       signature,
-      connection
-    );
-    
-    if (isValid) {
-      return NextResponse.json({
-        verified: true,
-        message: 'Payment verified successfully',
-        signature,
-        timestamp: Date.now(),
-      });
-    } else {
+      connection,
+      recipient: getNetworkConfig(network).payTo,
+      amount: (blockTime) => {
+        // Apply time-based pricing as of when the payment was made
+        const quote = quotePrice({ ...quoteRequest, at: blockTime ? blockTime * 1000 : undefined });
+        return findQuotedPrice(quote, asset)?.amount ?? expectedPrice.amount;
+      },
+      sender: publicKey,
+      mint: expectedPrice.asset.native ? undefined : expectedPrice.asset.mint,
+    });
+
+    if (!transfer.ok) {
       return NextResponse.json(
         {
           verified: false,
-          error: 'Payment verification failed',
+          error: `Payment verification failed - ${transfer.message}`,
+          reason: transfer.reason,
         },
         { status: 402 }
       );
     }
+
+    // Mark the signature as consumed so it cannot be redeemed again
+    const ledgerResult = await signatureLedger.consume({
+      signature,
+      resource: endpoint,
+      payer: transfer.payer,
+      timestamp: timestamp ? String(timestamp) : String(Date.now()),
+      blockTime: transfer.blockTime,
+    });
+
+    if (!ledgerResult.ok) {
+      return NextResponse.json(
+        {
+          verified: false,
+          error: `Payment verification failed - ${ledgerResult.message}`,
+          reason: ledgerResult.reason,
+        },
+        { status: 402 }
+      );
+    }
+
+    const { receipt, expiresAt } = issueAccessReceipt({
+      signature,
+      payer: transfer.payer,
+      endpoint,
+      network,
+      asset: expectedPrice.asset.symbol,
+      amount: transfer.amount,
+    });
+
+    return NextResponse.json({
+      verified: true,
+      message: 'Payment verified successfully',
+      signature,
+      network,
+      timestamp: Date.now(),
+      receipt,
+      receiptExpiresAt: expiresAt,
+    });
   } catch (error) {
     console.error('Error verifying payment:', error);
     return NextResponse.json(
@@ -62,4 +146,3 @@ export async function POST(request: NextRequest) {
     );
   }
 }
-
@@ -0,0 +1,21 @@
+/**
+ * x402 Resource Discovery Endpoint
+ * Public, unpaid list of every paid route with its prices, input schema
+ * and sample output; also served at /.well-known/x402
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { listPaidResources } from '@/lib/x402-resources';
+import { resolveNetwork } from '@/lib/solana-networks';
+
+export const runtime = 'nodejs';
+export const dynamic = 'force-dynamic';
+
+export async function GET(request: NextRequest) {
+  const requestedNetwork = request.nextUrl.searchParams.get('network');
+  const network = resolveNetwork(requestedNetwork);
+  if (!network) {
+    return NextResponse.json({ error: `Unsupported network - ${requestedNetwork}` }, { status: 400 });
+  }
+  return NextResponse.json(listPaidResources(network));
+}
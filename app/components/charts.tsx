@@ -0,0 +1,265 @@
+'use client';
+
+/**
+ * Charts
+ * Dependency-free SVG line, bar, pie and sparkline charts for AnalyticsChart data
+ */
+
+import React, { useState } from 'react';
+import type { AnalyticsChart, PieChart, SeriesChart, SparklineChart } from '@/lib/types';
+import {
+  areaPath,
+  chartColor,
+  formatChartValue,
+  linePath,
+  niceTicks,
+  pieArcs,
+  scaleLinear,
+} from '@/lib/charts';
+
+// SVG user units; the charts scale to their container width
+const WIDTH = 400;
+const HEIGHT = 220;
+const PADDING = { top: 12, right: 12, bottom: 28, left: 52 };
+
+interface LegendItem {
+  label: string;
+  color: string;
+  detail?: string;
+}
+
+function Legend({ items }: { items: LegendItem[] }) {
+  return (
+    <ul className="flex flex-wrap gap-x-4 gap-y-1 mt-3 text-xs text-gray-600">
+      {items.map((item) => (
+        <li key={item.label} className="flex items-center gap-1.5">
+          <span className="w-2.5 h-2.5 rounded-sm" style={{ backgroundColor: item.color }} />
+          {item.label}
+          {item.detail && <span className="text-gray-400">{item.detail}</span>}
+        </li>
+      ))}
+    </ul>
+  );
+}
+
+/**
+ * Tooltip over the chart, centred on `x` in SVG units
+ */
+function Tooltip({ x, width, children }: { x: number; width: number; children: React.ReactNode }) {
+  return (
+    <div
+      className="absolute top-0 -translate-x-1/2 pointer-events-none z-10 px-2 py-1.5 bg-gray-900/90 text-white text-xs rounded-md shadow-lg whitespace-nowrap"
+      style={{ left: `${(x / width) * 100}%` }}
+    >
+      {children}
+    </div>
+  );
+}
+
+export function SeriesChartView({ chart, compact = false }: { chart: SeriesChart; compact?: boolean }) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const padding = compact ? { top: 4, right: 0, bottom: 0, left: 0 } : PADDING;
+  const height = compact ? 80 : HEIGHT;
+  const unit = chart.yAxis?.unit;
+
+  const values = chart.series.flatMap((series) => series.values);
+  // Bars grow from zero, so zero is always on the axis
+  const low = chart.type === 'bar' ? Math.min(0, ...values) : Math.min(...values);
+  const ticks = niceTicks(values.length ? low : 0, values.length ? Math.max(...values) : 1);
+  const y = scaleLinear([ticks.min, ticks.max], [height - padding.bottom, padding.top]);
+
+  const plotWidth = WIDTH - padding.left - padding.right;
+  const band = plotWidth / Math.max(1, chart.labels.length);
+  const center = (i: number) => padding.left + band * (i + 0.5);
+  const barWidth = (band * 0.7) / Math.max(1, chart.series.length);
+
+  return (
+    <div className="relative" onMouseLeave={() => setHovered(null)}>
+      <svg viewBox={`0 0 ${WIDTH} ${height}`} className="w-full h-auto" role="img" aria-label={chart.label}>
+        {!compact && ticks.values.map((tick) => (
+          <g key={tick}>
+            <line x1={padding.left} x2={WIDTH - padding.right} y1={y(tick)} y2={y(tick)} stroke="#e5e7eb" />
+            <text x={padding.left - 6} y={y(tick)} textAnchor="end" dominantBaseline="middle" className="fill-gray-500 text-[10px]">
+              {formatChartValue(tick, unit)}
+            </text>
+          </g>
+        ))}
+        {!compact && chart.labels.map((label, i) => (
+          <text key={i} x={center(i)} y={height - 8} textAnchor="middle" className="fill-gray-500 text-[10px]">
+            {label}
+          </text>
+        ))}
+        {hovered !== null && (
+          <rect x={center(hovered) - band / 2} y={padding.top} width={band} height={height - padding.top - padding.bottom} fill="#f3f4f6" />
+        )}
+
+        {chart.type === 'bar' && chart.series.map((series, s) =>
+          series.values.map((value, i) => {
+            const x = center(i) - (barWidth * chart.series.length) / 2 + s * barWidth;
+            const top = Math.min(y(value), y(0));
+            return (
+              <rect
+                key={`${s}-${i}`}
+                x={x}
+                y={top}
+                width={Math.max(1, barWidth - 2)}
+                height={Math.abs(y(value) - y(0))}
+                rx={2}
+                fill={chartColor(s, series.color)}
+              />
+            );
+          })
+        )}
+
+        {chart.type === 'line' && chart.series.map((series, s) => {
+          const points = series.values.map((value, i) => ({ x: center(i), y: y(value) }));
+          const color = chartColor(s, series.color);
+          return (
+            <g key={s}>
+              {chart.series.length === 1 && <path d={areaPath(points, y(ticks.min))} fill={color} fillOpacity={0.1} />}
+              <path d={linePath(points)} fill="none" stroke={color} strokeWidth={2} strokeLinejoin="round" />
+              {hovered !== null && points[hovered] && (
+                <circle cx={points[hovered].x} cy={points[hovered].y} r={4} fill="white" stroke={color} strokeWidth={2} />
+              )}
+            </g>
+          );
+        })}
+
+        {chart.labels.map((_, i) => (
+          <rect
+            key={i}
+            x={center(i) - band / 2}
+            y={0}
+            width={band}
+            height={height}
+            fill="transparent"
+            onMouseEnter={() => setHovered(i)}
+          />
+        ))}
+      </svg>
+
+      {hovered !== null && (
+        <Tooltip x={center(hovered)} width={WIDTH}>
+          <p className="font-semibold mb-0.5">{chart.labels[hovered]}</p>
+          {chart.series.map((series, s) => (
+            <p key={s} className="flex items-center gap-1.5">
+              <span className="w-2 h-2 rounded-sm" style={{ backgroundColor: chartColor(s, series.color) }} />
+              {series.name}: {series.values[hovered] === undefined ? '–' : formatChartValue(series.values[hovered], unit)}
+            </p>
+          ))}
+        </Tooltip>
+      )}
+
+      {!compact && (chart.series.length > 1 || chart.yAxis?.label) && (
+        <div className="flex items-start justify-between gap-4">
+          <Legend items={chart.series.map((series, s) => ({ label: series.name, color: chartColor(s, series.color) }))} />
+          {chart.yAxis?.label && <p className="mt-3 text-xs text-gray-400 whitespace-nowrap">{chart.yAxis.label}</p>}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function PieChartView({ chart }: { chart: PieChart }) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const size = 200;
+  const radius = size / 2 - 4;
+  const arcs = pieArcs(chart.slices, size / 2, size / 2, radius);
+  const active = hovered === null ? null : arcs[hovered];
+
+  return (
+    <div className="flex flex-col items-center">
+      <div className="relative w-full max-w-[200px]" onMouseLeave={() => setHovered(null)}>
+        <svg viewBox={`0 0 ${size} ${size}`} className="w-full h-auto" role="img" aria-label={chart.label}>
+          {arcs.map((arc, i) => arc.path && (
+            <path
+              key={i}
+              d={arc.path}
+              fill={arc.color}
+              stroke="white"
+              strokeWidth={2}
+              opacity={hovered === null || hovered === i ? 1 : 0.5}
+              onMouseEnter={() => setHovered(i)}
+            />
+          ))}
+        </svg>
+        {active && (
+          <Tooltip x={size / 2} width={size}>
+            <p className="font-semibold">{active.slice.label}</p>
+            <p>
+              {formatChartValue(active.slice.value, chart.unit)}
+              {chart.unit !== '%' && ` (${(active.share * 100).toFixed(1)}%)`}
+            </p>
+          </Tooltip>
+        )}
+      </div>
+      <Legend
+        items={arcs.map((arc) => ({
+          label: arc.slice.label,
+          color: arc.color,
+          detail: `${(arc.share * 100).toFixed(0)}%`,
+        }))}
+      />
+    </div>
+  );
+}
+
+export function Sparkline({ chart }: { chart: SparklineChart }) {
+  const [hovered, setHovered] = useState<number | null>(null);
+  const width = 160;
+  const height = 40;
+  const { values, unit } = chart;
+  const x = scaleLinear([0, Math.max(1, values.length - 1)], [2, width - 2]);
+  const y = scaleLinear([Math.min(...values), Math.max(...values)], [height - 2, 2]);
+  const points = values.map((value, i) => ({ x: x(i), y: y(value) }));
+  const last = values[values.length - 1];
+  const rising = values.length < 2 || last >= values[0];
+  const color = rising ? '#16a34a' : '#dc2626';
+  const shown = hovered ?? values.length - 1;
+
+  return (
+    <div>
+      <div className="flex items-baseline justify-between mb-1">
+        <p className="text-sm text-gray-600">{chart.label}</p>
+        {values.length > 0 && (
+          <p className="text-sm font-semibold text-gray-900">{formatChartValue(values[shown], unit)}</p>
+        )}
+      </div>
+      <svg
+        viewBox={`0 0 ${width} ${height}`}
+        className="w-full h-10"
+        preserveAspectRatio="none"
+        role="img"
+        aria-label={chart.label}
+        onMouseLeave={() => setHovered(null)}
+      >
+        <path d={areaPath(points, height)} fill={color} fillOpacity={0.1} />
+        <path d={linePath(points)} fill="none" stroke={color} strokeWidth={1.5} vectorEffect="non-scaling-stroke" />
+        {hovered !== null && points[hovered] && <circle cx={points[hovered].x} cy={points[hovered].y} r={2} fill={color} />}
+        {points.map((point, i) => (
+          <rect
+            key={i}
+            x={point.x - width / values.length / 2}
+            y={0}
+            width={width / values.length}
+            height={height}
+            fill="transparent"
+            onMouseEnter={() => setHovered(i)}
+          />
+        ))}
+      </svg>
+    </div>
+  );
+}
+
+export function Chart({ chart }: { chart: AnalyticsChart }) {
+  switch (chart.type) {
+    case 'line':
+    case 'bar':
+      return <SeriesChartView chart={chart} />;
+    case 'pie':
+      return <PieChartView chart={chart} />;
+    case 'sparkline':
+      return <Sparkline chart={chart} />;
+  }
+}
@@ -0,0 +1,46 @@
+'use client';
+
+/**
+ * Client Component Registry
+ * Extends each entry of lib/component-registry.ts with the React renderer
+ * of its UIData, so a component is registered in one place per side
+ */
+
+import type React from 'react';
+import { componentRegistry, type ComponentDefinition } from '@/lib/component-registry';
+import type { ComponentType, UIData } from '@/lib/types';
+import {
+  AdvancedGridRenderer,
+  AnalyticsDashboardRenderer,
+  CardRenderer,
+  DashboardRenderer,
+  DataTableRenderer,
+  GridRenderer,
+} from './renderers';
+import { MarketsRenderer } from './markets-explorer';
+
+export type ComponentRenderer<K extends ComponentType> = React.FC<{ data: Extract<UIData, { type: K }> }>;
+
+export interface ClientComponentDefinition<K extends ComponentType = ComponentType> extends ComponentDefinition<K> {
+  render: ComponentRenderer<K>;
+}
+
+type ClientComponentRegistry = { [K in ComponentType]: ClientComponentDefinition<K> };
+
+export const clientComponentRegistry: ClientComponentRegistry = {
+  grid: { ...componentRegistry.grid, render: GridRenderer },
+  card: { ...componentRegistry.card, render: CardRenderer },
+  dashboard: { ...componentRegistry.dashboard, render: DashboardRenderer },
+  'advanced-grid': { ...componentRegistry['advanced-grid'], render: AdvancedGridRenderer },
+  'data-table': { ...componentRegistry['data-table'], render: DataTableRenderer },
+  'analytics-dashboard': { ...componentRegistry['analytics-dashboard'], render: AnalyticsDashboardRenderer },
+  markets: { ...componentRegistry.markets, render: MarketsRenderer },
+};
+
+/**
+ * Renderer of a UIData type
+ */
+export function getRenderer(type: ComponentType): React.FC<{ data: UIData }> {
+  // Indexing by the union loses the type-to-data pairing that the registry enforces
+  return clientComponentRegistry[type].render as React.FC<{ data: UIData }>;
+}
@@ -2,12 +2,20 @@
 
 import Link from 'next/link';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { useSolanaAuth, useSolanaNetwork } from '../providers/solana-provider';
+import { formatPublicKey } from '@/lib/solana-payment';
+import { getNetworkConfig, isEnabledNetwork } from '@/lib/solana-networks';
 
 interface HeaderProps {
   showWallet?: boolean;
 }
 
 export function Header({ showWallet = true }: HeaderProps) {
+  const { connected } = useWallet();
+  const { publicKey, signedIn, signingIn, signIn, signOut } = useSolanaAuth();
+  const { network, networks, setNetwork } = useSolanaNetwork();
+  
   return (
     <header className="border-b border-gray-200">
       <div className="max-w-4xl mx-auto px-6 py-4">
@@ -24,14 +32,53 @@ export function Header({ showWallet = true }: HeaderProps) {
                 Home
               </Link>
               <Link 
-                href="/test" 
+                href="/history" 
                 className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
               >
-                Test API
+                History
+              </Link>
+              <Link 
+                href="/docs" 
+                className="text-sm text-gray-600 hover:text-gray-900 transition-colors"
+              >
+                API Docs
               </Link>
             </nav>
           </div>
-          {showWallet && <WalletMultiButton />}
+          {showWallet && (
+            <div className="flex items-center gap-3">
+              {networks.length > 1 && (
+                <select
+                  value={network}
+                  onChange={(event) => isEnabledNetwork(event.target.value) && setNetwork(event.target.value)}
+                  title="Network to pay on"
+                  className="text-xs border border-gray-200 rounded-md px-2 py-1 text-gray-700 bg-white"
+                >
+                  {networks.map((option) => (
+                    <option key={option} value={option}>{getNetworkConfig(option).label}</option>
+                  ))}
+                </select>
+              )}
+              {connected && (signedIn ? (
+                <button
+                  onClick={signOut}
+                  title="Sign out"
+                  className="text-xs text-gray-600 hover:text-gray-900 transition-colors"
+                >
+                  Signed in as <span className="font-mono">{formatPublicKey(publicKey!)}</span>
+                </button>
+              ) : (
+                <button
+                  onClick={() => signIn().catch((error) => console.error('Sign-in failed:', error))}
+                  disabled={signingIn}
+                  className="text-sm text-purple-600 hover:text-purple-800 disabled:opacity-50 transition-colors"
+                >
+                  {signingIn ? 'Signing in...' : 'Sign in'}
+                </button>
+              ))}
+              <WalletMultiButton />
+            </div>
+          )}
         </div>
       </div>
     </header>
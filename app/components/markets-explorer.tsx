@@ -0,0 +1,543 @@
+'use client';
+
+/**
+ * Markets Explorer
+ * Renders MarketsUI as a searchable, filterable and sortable list; only the
+ * rows in view are mounted, so the whole paid dataset stays usable
+ * Selecting a market opens its detail drawer, built from the same paid response
+ */
+
+import React, { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import Image from 'next/image';
+import type { MarketData, MarketsUI } from '@/lib/types';
+import { SeriesChartView } from './charts';
+import {
+  activeFilterCount,
+  emptyMarketFilters,
+  filterMarkets,
+  marketCategories,
+  marketSortOptions,
+  outcomeOdds,
+  priceHistory,
+  sortMarkets,
+  visibleRange,
+  type MarketFilters,
+  type MarketSort,
+  type NumberRange,
+} from '@/lib/markets-explorer';
+
+// Every row has the same height so the visible rows follow from the scroll position
+const ROW_HEIGHT = 172;
+const ROW_GAP = 12;
+const VIEWPORT_HEIGHT = 600;
+
+const formatPrice = (price: number) => `${(price * 100).toFixed(1)}%`;
+
+const formatVolume = (volume: number) => {
+  if (volume >= 1_000_000) {
+    return `$${(volume / 1_000_000).toFixed(2)}M`;
+  } else if (volume >= 1_000) {
+    return `$${(volume / 1_000).toFixed(1)}K`;
+  }
+  return `$${volume.toFixed(0)}`;
+};
+
+const getPriceColor = (price: number) => {
+  if (price >= 0.7) return 'text-green-600';
+  if (price >= 0.4) return 'text-yellow-600';
+  return 'text-red-600';
+};
+
+function formatCloseTime(closeTime: string | undefined, now: number): string | null {
+  const time = closeTime ? Date.parse(closeTime) : NaN;
+  if (Number.isNaN(time)) return null;
+  const hours = (time - now) / 3_600_000;
+  if (hours < 0) return 'Closed';
+  if (hours < 1) return `Closes in ${Math.max(1, Math.round(hours * 60))}m`;
+  if (hours < 48) return `Closes in ${Math.round(hours)}h`;
+  return `Closes in ${Math.round(hours / 24)}d`;
+}
+
+function PriceChange({ label, change }: { label: string; change?: number }) {
+  if (change === undefined) return null;
+  return (
+    <span className={change > 0 ? 'text-green-600' : change < 0 ? 'text-red-600' : 'text-gray-400'}>
+      {label} {change > 0 ? '↑' : change < 0 ? '↓' : ''}{Math.abs(change * 100).toFixed(1)}%
+    </span>
+  );
+}
+
+function PolymarketLink({ eventSlug }: { eventSlug: string }) {
+  return (
+    <a
+      href={`https://polymarket.com/event/${eventSlug}`}
+      target="_blank"
+      rel="noopener noreferrer"
+      onClick={(e) => e.stopPropagation()}
+      className="inline-flex items-center gap-1 text-purple-600 hover:text-purple-800 font-medium"
+    >
+      View on Polymarket
+      <svg className="w-3 h-3" fill="none" stroke="currentColor" viewBox="0 0 24 24">
+        <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
+      </svg>
+    </a>
+  );
+}
+
+function MarketRow({ market, now, onSelect }: { market: MarketData; now: number; onSelect: () => void }) {
+  const closes = formatCloseTime(market.closeTime, now);
+  return (
+    // Not a <button>: the row holds the Polymarket link
+    <div
+      role="button"
+      tabIndex={0}
+      onClick={onSelect}
+      onKeyDown={(e) => {
+        if (e.target === e.currentTarget && (e.key === 'Enter' || e.key === ' ')) {
+          e.preventDefault();
+          onSelect();
+        }
+      }}
+      className="h-full bg-white p-4 rounded-lg border-2 border-gray-200 hover:border-purple-300 hover:shadow-lg focus:outline-none focus-visible:border-purple-500 transition-all overflow-hidden cursor-pointer"
+    >
+      <div className="flex items-center gap-2 mb-2">
+        {market.icon && (
+          // Icons come from any Polymarket CDN host, so they skip the image optimizer
+          <Image
+            src={market.icon}
+            alt=""
+            width={24}
+            height={24}
+            unoptimized
+            className="w-6 h-6 rounded-full object-cover shrink-0"
+            onError={(e) => { e.currentTarget.style.display = 'none'; }}
+          />
+        )}
+        <h4 className="font-semibold text-sm text-gray-900 line-clamp-2">
+          {market.question}
+        </h4>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-2 mb-2 text-xs">
+        {market.category && (
+          <span className="px-2 py-0.5 bg-blue-50 text-blue-700 rounded-md">{market.category}</span>
+        )}
+        {market.acceptingOrders === false && (
+          <span className="px-2 py-0.5 bg-gray-100 text-gray-600 rounded-md">Not accepting orders</span>
+        )}
+        {closes && <span className="text-gray-500">{closes}</span>}
+      </div>
+
+      <div className="grid grid-cols-4 gap-2 text-xs">
+        <div>
+          <span className="text-gray-500">Yes </span>
+          <span className={`font-bold ${getPriceColor(market.yesPrice)}`}>{formatPrice(market.yesPrice)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500">No </span>
+          <span className={`font-bold ${getPriceColor(market.noPrice)}`}>{formatPrice(market.noPrice)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500">Vol </span>
+          <span className="font-medium text-gray-900">{formatVolume(market.volume)}</span>
+        </div>
+        <div>
+          <span className="text-gray-500">Liq </span>
+          <span className="font-medium text-gray-900">{formatVolume(market.liquidity)}</span>
+        </div>
+      </div>
+
+      <div className="flex items-center justify-between mt-2 text-xs">
+        <div className="flex gap-3 font-medium">
+          <PriceChange label="1h" change={market.oneHourPriceChange} />
+          <PriceChange label="1d" change={market.oneDayPriceChange} />
+          <PriceChange label="1w" change={market.oneWeekPriceChange} />
+        </div>
+        <div className="flex items-center gap-3">
+          {market.polymarket?.eventSlug && <PolymarketLink eventSlug={market.polymarket.eventSlug} />}
+          <button
+            onClick={(e) => {
+              e.stopPropagation();
+              onSelect();
+            }}
+            className="text-gray-600 hover:text-gray-900 font-medium"
+          >
+            Details
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function CopyButton({ value, label }: { value: string; label: string }) {
+  const [copied, setCopied] = useState(false);
+
+  useEffect(() => {
+    if (!copied) return;
+    const timer = setTimeout(() => setCopied(false), 1500);
+    return () => clearTimeout(timer);
+  }, [copied]);
+
+  return (
+    <button
+      onClick={async () => {
+        try {
+          await navigator.clipboard.writeText(value);
+          setCopied(true);
+        } catch (error) {
+          console.error('Copy failed:', error);
+        }
+      }}
+      aria-label={`Copy ${label}`}
+      className="shrink-0 px-2 py-1 text-xs border border-gray-300 rounded-md hover:bg-gray-50"
+    >
+      {copied ? 'Copied' : 'Copy'}
+    </button>
+  );
+}
+
+function Identifier({ label, value }: { label: string; value: string }) {
+  return (
+    <div>
+      <p className="text-xs text-gray-500 mb-1">{label}</p>
+      <div className="flex items-start gap-2">
+        <code className="flex-1 min-w-0 px-2 py-1 text-xs bg-gray-50 rounded-md break-all">{value}</code>
+        <CopyButton value={value} label={label} />
+      </div>
+    </div>
+  );
+}
+
+function Stat({ label, value }: { label: string; value: string }) {
+  return (
+    <div className="p-3 bg-gray-50 rounded-lg">
+      <p className="text-xs text-gray-500">{label}</p>
+      <p className="font-semibold text-gray-900">{value}</p>
+    </div>
+  );
+}
+
+function MarketDetail({ market, now, onClose }: { market: MarketData; now: number; onClose: () => void }) {
+  const closeButton = useRef<HTMLButtonElement>(null);
+  const odds = outcomeOdds(market);
+  const history = priceHistory(market);
+  const closes = formatCloseTime(market.closeTime, now);
+  const { conditionId, tokenIds = [], eventSlug, eventTitle } = market.polymarket ?? {};
+
+  useEffect(() => {
+    closeButton.current?.focus();
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') onClose();
+    };
+    document.addEventListener('keydown', onKeyDown);
+    return () => document.removeEventListener('keydown', onKeyDown);
+  }, [onClose]);
+
+  return (
+    <div className="fixed inset-0 z-50 flex justify-end">
+      <div className="absolute inset-0 bg-black/30" onClick={onClose} />
+      <div
+        role="dialog"
+        aria-modal="true"
+        aria-labelledby="market-detail-title"
+        className="relative w-full max-w-lg h-full overflow-y-auto bg-white shadow-xl p-6 space-y-6"
+      >
+        <div className="flex items-start gap-3">
+          <div className="flex-1">
+            {(eventTitle || market.category) && (
+              <p className="text-xs text-gray-500 mb-1">
+                {[market.category, eventTitle].filter(Boolean).join(' · ')}
+              </p>
+            )}
+            <h3 id="market-detail-title" className="text-lg font-bold text-gray-900">{market.question}</h3>
+            {closes && <p className="text-sm text-gray-500 mt-1">{closes}</p>}
+          </div>
+          <button
+            ref={closeButton}
+            onClick={onClose}
+            aria-label="Close market details"
+            className="px-2 py-1 text-gray-500 hover:text-gray-900 text-xl leading-none"
+          >
+            ×
+          </button>
+        </div>
+
+        <div className="space-y-3">
+          {odds.map((outcome) => (
+            <div key={outcome.label}>
+              <div className="flex items-baseline justify-between text-sm mb-1">
+                <span className="font-medium text-gray-900">{outcome.label}</span>
+                <span>
+                  <span className={`font-bold ${getPriceColor(outcome.price)}`}>{formatPrice(outcome.probability)}</span>
+                  <span className="text-gray-500"> · {(outcome.price * 100).toFixed(1)}¢</span>
+                </span>
+              </div>
+              <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                <div className="h-full bg-purple-500" style={{ width: `${outcome.probability * 100}%` }} />
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="grid grid-cols-2 gap-3 text-sm">
+          <Stat label="Spread" value={market.spread === undefined ? '–' : `${(market.spread * 100).toFixed(1)}¢`} />
+          <Stat label="Liquidity" value={formatVolume(market.liquidity)} />
+          <Stat label="Volume" value={formatVolume(market.volume)} />
+          <Stat label="24h volume" value={market.volume24h === undefined ? '–' : formatVolume(market.volume24h)} />
+        </div>
+
+        <div>
+          <div className="flex items-baseline justify-between mb-2">
+            <h4 className="font-semibold text-gray-900">Price movement</h4>
+            <div className="flex gap-3 text-xs font-medium">
+              <PriceChange label="1h" change={market.oneHourPriceChange} />
+              <PriceChange label="1d" change={market.oneDayPriceChange} />
+              <PriceChange label="1w" change={market.oneWeekPriceChange} />
+            </div>
+          </div>
+          {history ? (
+            <SeriesChartView chart={history} />
+          ) : (
+            <p className="text-sm text-gray-500">No price history yet</p>
+          )}
+        </div>
+
+        {market.description && (
+          <div>
+            <h4 className="font-semibold text-gray-900 mb-2">Description</h4>
+            <p className="text-sm text-gray-700 whitespace-pre-line">{market.description}</p>
+          </div>
+        )}
+
+        {(conditionId || tokenIds.length > 0) && (
+          <div className="space-y-3">
+            <h4 className="font-semibold text-gray-900">Identifiers</h4>
+            {conditionId && <Identifier label="Condition ID" value={conditionId} />}
+            {tokenIds.map((tokenId, i) => (
+              <Identifier key={tokenId} label={`${odds[i]?.label ?? `Outcome ${i + 1}`} token ID`} value={tokenId} />
+            ))}
+          </div>
+        )}
+
+        {eventSlug && (
+          <div className="text-sm">
+            <PolymarketLink eventSlug={eventSlug} />
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
+
+// Empty inputs clear a bound; `scale` converts the shown unit, e.g. percent, to the data's
+function RangeInputs({
+  label,
+  range,
+  scale = 1,
+  step,
+  onChange,
+}: {
+  label: string;
+  range: NumberRange;
+  scale?: number;
+  step?: number;
+  onChange: (range: NumberRange) => void;
+}) {
+  const toInput = (value?: number) => (value === undefined ? '' : String(+(value * scale).toFixed(2)));
+  const fromInput = (value: string) => (value === '' ? undefined : Number(value) / scale);
+  const inputClass = 'w-20 px-2 py-1 border-2 border-gray-200 rounded-lg bg-white';
+  return (
+    <label className="flex items-center gap-1.5">
+      <span className="text-gray-600">{label}</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        placeholder="min"
+        value={toInput(range.min)}
+        onChange={(e) => onChange({ ...range, min: fromInput(e.target.value) })}
+        className={inputClass}
+      />
+      <span className="text-gray-400">–</span>
+      <input
+        type="number"
+        min={0}
+        step={step}
+        placeholder="max"
+        value={toInput(range.max)}
+        onChange={(e) => onChange({ ...range, max: fromInput(e.target.value) })}
+        className={inputClass}
+      />
+    </label>
+  );
+}
+
+export function MarketsRenderer({ data }: { data: MarketsUI }) {
+  const { markets, meta } = data;
+  const [filters, setFilters] = useState<MarketFilters>(emptyMarketFilters);
+  const [sort, setSort] = useState<MarketSort>({ key: 'volume', direction: 'desc' });
+  const [scrollTop, setScrollTop] = useState(0);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const viewport = useRef<HTMLDivElement>(null);
+  // Read once per render so every row agrees on "now"
+  const now = Date.now();
+
+  const categories = useMemo(() => marketCategories(markets), [markets]);
+  const shown = useMemo(
+    () => sortMarkets(filterMarkets(markets, filters), sort),
+    [markets, filters, sort]
+  );
+
+  // A new result set starts at the top
+  useEffect(() => {
+    viewport.current?.scrollTo({ top: 0 });
+    setScrollTop(0);
+  }, [filters, sort]);
+
+  const rowStride = ROW_HEIGHT + ROW_GAP;
+  const { start, end } = visibleRange(scrollTop, VIEWPORT_HEIGHT, rowStride, shown.length);
+  const activeFilters = activeFilterCount(filters);
+  const selected = selectedId === null ? undefined : markets.find((market) => market.id === selectedId);
+  const closeDetail = useCallback(() => setSelectedId(null), []);
+
+  const update = (changes: Partial<MarketFilters>) => setFilters({ ...filters, ...changes });
+  const toggleCategory = (category: string) =>
+    update({
+      categories: filters.categories.includes(category)
+        ? filters.categories.filter((selected) => selected !== category)
+        : [...filters.categories, category],
+    });
+
+  return (
+    <div className="w-full">
+      <div className="mb-4">
+        <h3 className="text-xl font-bold mb-2">New Markets Data (Premium)</h3>
+        <div className="flex items-center gap-4 text-sm text-gray-600">
+          <span>📊 {meta.totalCount} new markets</span>
+          <span>⏰ Last {meta.hoursBack}h</span>
+          <span className="px-2 py-1 bg-purple-100 text-purple-700 rounded-md">x402 Protected</span>
+        </div>
+      </div>
+
+      <div className="space-y-3 mb-4">
+        <div className="flex flex-wrap gap-3">
+          <input
+            type="search"
+            value={filters.search}
+            onChange={(e) => update({ search: e.target.value })}
+            placeholder="Search markets"
+            className="flex-1 min-w-48 px-3 py-2 text-sm border-2 border-gray-200 rounded-lg focus:border-purple-400 focus:outline-none"
+          />
+          <div className="flex items-center gap-1">
+            <select
+              value={sort.key}
+              onChange={(e) => {
+                const option = marketSortOptions.find(({ key }) => key === e.target.value)!;
+                setSort({ key: option.key, direction: option.direction });
+              }}
+              aria-label="Sort markets by"
+              className="px-3 py-2 text-sm border-2 border-gray-200 rounded-lg bg-white"
+            >
+              {marketSortOptions.map(({ key, label }) => (
+                <option key={key} value={key}>{label}</option>
+              ))}
+            </select>
+            <button
+              onClick={() => setSort({ ...sort, direction: sort.direction === 'asc' ? 'desc' : 'asc' })}
+              title={sort.direction === 'asc' ? 'Ascending' : 'Descending'}
+              className="px-3 py-2 text-sm border-2 border-gray-200 rounded-lg hover:bg-gray-50"
+            >
+              {sort.direction === 'asc' ? '↑' : '↓'}
+            </button>
+          </div>
+        </div>
+
+        {categories.length > 0 && (
+          <div className="flex flex-wrap gap-2">
+            {categories.map(({ category, count }) => {
+              const selected = filters.categories.includes(category);
+              return (
+                <button
+                  key={category}
+                  onClick={() => toggleCategory(category)}
+                  aria-pressed={selected}
+                  className={`px-3 py-1 text-xs rounded-full border transition-colors ${
+                    selected
+                      ? 'bg-purple-600 border-purple-600 text-white'
+                      : 'bg-white border-gray-300 text-gray-700 hover:border-purple-400'
+                  }`}
+                >
+                  {category} <span className={selected ? 'text-purple-200' : 'text-gray-400'}>{count}</span>
+                </button>
+              );
+            })}
+          </div>
+        )}
+
+        <div className="flex flex-wrap items-center gap-x-6 gap-y-2 text-xs">
+          <RangeInputs
+            label="Yes %"
+            range={filters.yesPrice}
+            scale={100}
+            step={1}
+            onChange={(yesPrice) => update({ yesPrice })}
+          />
+          <RangeInputs
+            label="Liquidity $"
+            range={filters.liquidity}
+            step={1000}
+            onChange={(liquidity) => update({ liquidity })}
+          />
+          <label className="flex items-center gap-1.5 text-gray-600">
+            <input
+              type="checkbox"
+              checked={filters.acceptingOrdersOnly}
+              onChange={(e) => update({ acceptingOrdersOnly: e.target.checked })}
+            />
+            Accepting orders only
+          </label>
+          {activeFilters > 0 && (
+            <button
+              onClick={() => setFilters(emptyMarketFilters)}
+              className="text-purple-600 hover:text-purple-800 font-medium"
+            >
+              Clear filters ({activeFilters})
+            </button>
+          )}
+        </div>
+      </div>
+
+      <p className="mb-2 text-sm text-gray-500">
+        {shown.length === markets.length
+          ? `${markets.length} markets`
+          : `${shown.length} of ${markets.length} markets`}
+      </p>
+
+      <div
+        ref={viewport}
+        onScroll={(e) => setScrollTop(e.currentTarget.scrollTop)}
+        className="overflow-y-auto pr-2"
+        style={{ maxHeight: VIEWPORT_HEIGHT }}
+      >
+        {shown.length === 0 ? (
+          <p className="py-12 text-center text-sm text-gray-500">No markets match the filters</p>
+        ) : (
+          <div className="relative" style={{ height: shown.length * rowStride - ROW_GAP }}>
+            {shown.slice(start, end).map((market, i) => (
+              <div
+                key={market.id}
+                className="absolute inset-x-0"
+                style={{ top: (start + i) * rowStride, height: ROW_HEIGHT }}
+              >
+                <MarketRow market={market} now={now} onSelect={() => setSelectedId(market.id)} />
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {selected && <MarketDetail market={selected} now={now} onClose={closeDetail} />}
+    </div>
+  );
+}
@@ -0,0 +1,382 @@
+'use client';
+
+/**
+ * Component Renderers
+ * The React view of each generated component's UIData; registered by type
+ * in app/components/component-registry.tsx
+ */
+
+import { useMemo, useState } from 'react';
+import type {
+  GridUI,
+  CardUI,
+  DashboardUI,
+  AdvancedGridUI,
+  DataTableUI,
+  AnalyticsDashboardUI,
+  GridItem,
+  AdvancedGridItem,
+  Widget,
+  DataColumn,
+  AnalyticsChart,
+  AnalyticsSection
+} from '@/lib/types';
+import { Chart, SeriesChartView } from './charts';
+import {
+  PAGE_SIZES,
+  columnValues,
+  filterRows,
+  hasFeature,
+  nextSort,
+  paginate,
+  sortRows,
+  toCSV,
+  toJSON,
+  type FilterState,
+  type SortState,
+} from '@/lib/data-table';
+
+export function GridRenderer({ data }: { data: GridUI }) {
+  const { layout } = data;
+  
+  return (
+    <div className="w-full">
+      <h3 className="text-xl font-bold mb-4">Grid Layout</h3>
+      <div 
+        className="grid gap-4"
+        style={{ 
+          gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`,
+          gap: `${layout.gap * 0.25}rem`
+        }}
+      >
+        {layout.items.map((item: GridItem) => (
+          <div
+            key={item.id}
+            className="p-6 rounded-lg border-2 border-gray-200 hover:border-gray-400 transition-all hover:shadow-lg"
+            style={{ backgroundColor: `${item.color}20` }}
+          >
+            <h4 className="font-bold text-lg mb-2">{item.title}</h4>
+            <p className="text-sm text-gray-600">{item.description}</p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function CardRenderer({ data }: { data: CardUI }) {
+  return (
+    <div className="max-w-md w-full">
+      <h3 className="text-xl font-bold mb-4">Card Component</h3>
+      <div className="border-2 border-gray-200 rounded-xl p-6 shadow-lg bg-white">
+        <h4 className="text-2xl font-bold mb-4">{data.title}</h4>
+        <p className="text-gray-600 mb-6">{data.content}</p>
+        <div className="flex gap-3">
+          {data.actions.map((action, i: number) => (
+            <button
+              key={i}
+              className={`px-4 py-2 rounded-lg font-medium transition-colors ${
+                action.variant === 'primary'
+                  ? 'bg-blue-600 text-white hover:bg-blue-700'
+                  : 'bg-gray-200 text-gray-800 hover:bg-gray-300'
+              }`}
+            >
+              {action.label}
+            </button>
+          ))}
+        </div>
+      </div>
+    </div>
+  );
+}
+
+export function DashboardRenderer({ data }: { data: DashboardUI }) {
+  return (
+    <div className="w-full">
+      <h3 className="text-xl font-bold mb-4">Dashboard</h3>
+      <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+        {data.widgets.map((widget: Widget, i: number) => (
+          <div key={i} className="bg-white p-6 rounded-xl border-2 border-gray-200 shadow-sm">
+            {widget.type === 'stat' && (
+              <>
+                <p className="text-sm text-gray-600 mb-2">{widget.label}</p>
+                <p className="text-3xl font-bold mb-1">{widget.value}</p>
+                <p className="text-sm text-green-600">{widget.trend}</p>
+              </>
+            )}
+            {widget.type === 'chart' && widget.data && (
+              <>
+                <p className="text-sm text-gray-600 mb-4">{widget.label}</p>
+                <SeriesChartView
+                  compact
+                  chart={{
+                    type: 'bar',
+                    label: widget.label,
+                    labels: widget.labels ?? widget.data.map((_, j) => `${j + 1}`),
+                    series: [{ name: widget.label, values: widget.data }],
+                    yAxis: { unit: widget.unit },
+                  }}
+                />
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+export function AdvancedGridRenderer({ data }: { data: AdvancedGridUI }) {
+  const { layout } = data;
+  
+  return (
+    <div className="w-full">
+      <h3 className="text-xl font-bold mb-4">Advanced Grid Layout (Premium)</h3>
+      <div 
+        className="grid gap-6"
+        style={{ 
+          gridTemplateColumns: `repeat(${layout.columns}, minmax(0, 1fr))`,
+        }}
+      >
+        {layout.items.map((item: AdvancedGridItem) => (
+          <div
+            key={item.id}
+            className="rounded-xl border-2 border-gray-200 overflow-hidden hover:border-purple-400 transition-all hover:shadow-2xl hover:scale-105 bg-white"
+          >
+            <div className="h-48 bg-gradient-to-br from-purple-400 to-blue-500" />
+            <div className="p-4">
+              <h4 className="font-bold text-lg mb-2">{item.title}</h4>
+              <p className="text-sm text-gray-600 mb-3">{item.description}</p>
+              <div className="flex items-center justify-between mb-3">
+                <span className="text-yellow-500">★ {item.rating}</span>
+              </div>
+              <div className="flex flex-wrap gap-2">
+                {item.features.map((feature, i: number) => (
+                  <span key={i} className="px-2 py-1 bg-gray-100 rounded text-xs">
+                    {feature}
+                  </span>
+                ))}
+              </div>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function downloadFile(filename: string, content: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+}
+
+export function DataTableRenderer({ data }: { data: DataTableUI }) {
+  const sorting = hasFeature(data, 'sorting');
+  const filtering = hasFeature(data, 'filtering');
+  const pagination = hasFeature(data, 'pagination');
+  const exporting = hasFeature(data, 'export');
+
+  const [sort, setSort] = useState<SortState | null>(null);
+  const [filter, setFilter] = useState<FilterState>({ search: '', columns: {} });
+  const [page, setPage] = useState(0);
+  const [pageSize, setPageSize] = useState(PAGE_SIZES[0]);
+
+  const filterableColumns = data.columns.filter((col) => col.filterable);
+  const filtered = useMemo(
+    () => (filtering ? filterRows(data.data, data.columns, filter) : data.data),
+    [data, filtering, filter]
+  );
+  const sorted = useMemo(() => (sorting ? sortRows(filtered, sort) : filtered), [filtered, sorting, sort]);
+  const view = pagination
+    ? paginate(sorted, page, pageSize)
+    : { rows: sorted, page: 0, pageCount: 1, start: 0 };
+
+  // Any change to the filtered set starts over on the first page
+  const updateFilter = (next: FilterState) => {
+    setFilter(next);
+    setPage(0);
+  };
+
+  return (
+    <div className="w-full">
+      <h3 className="text-xl font-bold mb-4">Data Table (Premium)</h3>
+      {(filtering || exporting) && (
+        <div className="flex flex-wrap items-center gap-3 mb-4">
+          {filtering && (
+            <>
+              <input
+                type="search"
+                value={filter.search}
+                onChange={(e) => updateFilter({ ...filter, search: e.target.value })}
+                placeholder="Search all columns"
+                className="flex-1 min-w-48 px-3 py-2 text-sm border-2 border-gray-200 rounded-lg focus:border-blue-400 focus:outline-none"
+              />
+              {filterableColumns.map((col: DataColumn) => (
+                <select
+                  key={col.key}
+                  value={filter.columns[col.key] ?? ''}
+                  onChange={(e) => updateFilter({ ...filter, columns: { ...filter.columns, [col.key]: e.target.value } })}
+                  aria-label={`Filter by ${col.label}`}
+                  className="px-3 py-2 text-sm border-2 border-gray-200 rounded-lg bg-white"
+                >
+                  <option value="">All {col.label}</option>
+                  {columnValues(data.data, col.key).map((value) => (
+                    <option key={value} value={value}>{value}</option>
+                  ))}
+                </select>
+              ))}
+            </>
+          )}
+          {exporting && (
+            <div className="flex gap-2 ml-auto">
+              <button
+                onClick={() => downloadFile('data-table.csv', toCSV(data.columns, sorted), 'text/csv')}
+                className="px-3 py-2 text-sm font-medium bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Export CSV
+              </button>
+              <button
+                onClick={() => downloadFile('data-table.json', toJSON(data.columns, sorted), 'application/json')}
+                className="px-3 py-2 text-sm font-medium bg-gray-200 text-gray-800 rounded-lg hover:bg-gray-300 transition-colors"
+              >
+                Export JSON
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+      <div className="overflow-x-auto rounded-xl border-2 border-gray-200">
+        <table className="w-full bg-white">
+          <thead className="bg-gray-50 border-b-2 border-gray-200">
+            <tr>
+              {data.columns.map((col: DataColumn) => {
+                const sortable = sorting && col.sortable;
+                const direction = sort?.key === col.key ? sort.direction : null;
+                return (
+                  <th
+                    key={col.key}
+                    aria-sort={direction === 'asc' ? 'ascending' : direction === 'desc' ? 'descending' : undefined}
+                    className="px-6 py-3 text-left text-sm font-semibold text-gray-900"
+                  >
+                    {sortable ? (
+                      <button
+                        onClick={() => setSort(nextSort(sort, col.key))}
+                        className="inline-flex items-center gap-1 hover:text-blue-600"
+                      >
+                        {col.label}
+                        <span className="text-xs text-gray-400">
+                          {direction === 'asc' ? '▲' : direction === 'desc' ? '▼' : '↕'}
+                        </span>
+                      </button>
+                    ) : (
+                      col.label
+                    )}
+                  </th>
+                );
+              })}
+            </tr>
+          </thead>
+          <tbody>
+            {view.rows.map((row, i: number) => (
+              <tr key={view.start + i} className="border-b border-gray-200 hover:bg-gray-50">
+                {data.columns.map((col: DataColumn) => (
+                  <td key={col.key} className="px-6 py-4 text-sm text-gray-700">
+                    {row[col.key]}
+                  </td>
+                ))}
+              </tr>
+            ))}
+            {view.rows.length === 0 && (
+              <tr>
+                <td colSpan={data.columns.length} className="px-6 py-8 text-center text-sm text-gray-500">
+                  No rows match the filters
+                </td>
+              </tr>
+            )}
+          </tbody>
+        </table>
+      </div>
+      {pagination && (
+        <div className="flex flex-wrap items-center justify-between gap-3 mt-4 text-sm text-gray-600">
+          <label className="flex items-center gap-2">
+            Rows per page
+            <select
+              value={pageSize}
+              onChange={(e) => {
+                setPageSize(Number(e.target.value));
+                setPage(0);
+              }}
+              className="px-2 py-1 border-2 border-gray-200 rounded-lg bg-white"
+            >
+              {PAGE_SIZES.map((size) => (
+                <option key={size} value={size}>{size}</option>
+              ))}
+            </select>
+          </label>
+          <span>
+            {sorted.length === 0
+              ? '0 rows'
+              : `${view.start + 1}–${view.start + view.rows.length} of ${sorted.length}`}
+          </span>
+          <div className="flex items-center gap-1">
+            {[
+              { label: '«', title: 'First page', target: 0 },
+              { label: '‹', title: 'Previous page', target: view.page - 1 },
+              { label: '›', title: 'Next page', target: view.page + 1 },
+              { label: '»', title: 'Last page', target: view.pageCount - 1 },
+            ].map(({ label, title, target }) => (
+              <button
+                key={title}
+                title={title}
+                onClick={() => setPage(target)}
+                disabled={target < 0 || target >= view.pageCount || target === view.page}
+                className="px-3 py-1 rounded-lg border-2 border-gray-200 hover:bg-gray-50 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {label}
+              </button>
+            ))}
+            <span className="ml-2">Page {view.page + 1} of {view.pageCount}</span>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
+
+export function AnalyticsDashboardRenderer({ data }: { data: AnalyticsDashboardUI }) {
+  return (
+    <div className="w-full space-y-8">
+      <h3 className="text-xl font-bold">Analytics Dashboard (Premium)</h3>
+      {data.sections.map((section: AnalyticsSection, i: number) => (
+        <div key={i}>
+          <h4 className="text-lg font-semibold mb-4">{section.title}</h4>
+          {section.widgets && (
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-4">
+              {section.widgets.map((widget, j: number) => (
+                <div key={j} className="bg-white p-6 rounded-xl border-2 border-gray-200 shadow-sm">
+                  <p className="text-sm text-gray-600 mb-2">{widget.label}</p>
+                  <p className="text-3xl font-bold mb-1">{widget.value}</p>
+                  <p className="text-sm text-green-600">{widget.change}</p>
+                </div>
+              ))}
+            </div>
+          )}
+          {section.charts && (
+            <div className={`grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4 ${section.widgets ? 'mt-4' : ''}`}>
+              {section.charts.map((chart: AnalyticsChart, j: number) => (
+                <div key={j} className="bg-white p-6 rounded-xl border-2 border-gray-200 shadow-sm">
+                  {chart.type !== 'sparkline' && <p className="text-sm font-semibold text-gray-900 mb-4">{chart.label}</p>}
+                  <Chart chart={chart} />
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      ))}
+    </div>
+  );
+}
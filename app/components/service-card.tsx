@@ -6,12 +6,13 @@
  */
 
 import React from 'react';
-import { formatPrice } from '@/lib/x402-client';
+import { formatAssetPrice } from '@/lib/x402-client';
+import type { PriceQuote } from '@/lib/pricing';
 
 interface ServiceCardProps {
   title: string;
   description: string;
-  price: number;
+  quote: PriceQuote; // from quotePrice, so the card shows what the server charges
   features: string[];
   endpoint: string;
   componentType: string;
@@ -22,7 +23,7 @@ interface ServiceCardProps {
 export function ServiceCard({
   title,
   description,
-  price,
+  quote,
   features,
   endpoint,
   componentType,
@@ -40,6 +41,7 @@ export function ServiceCard({
     premium: 'border-purple-200 hover:border-purple-400',
     custom: 'border-orange-200 hover:border-orange-400',
   };
+  const { prices, factors } = quote;
   
   return (
     <div className={`relative bg-white rounded-xl border-2 ${tierBorders[tier]} p-6 shadow-lg hover:shadow-2xl transition-all hover:scale-105`}>
@@ -54,8 +56,18 @@ export function ServiceCard({
       
       {/* Price */}
       <div className="mb-4">
-        <span className="text-3xl font-bold">${formatPrice(price)}</span>
-        <span className="text-gray-500 text-sm ml-2">USDC per render</span>
+        <span className="text-3xl font-bold">{formatAssetPrice(prices[0])}</span>
+        <span className="text-gray-500 text-sm ml-2">per render</span>
+        {prices.length > 1 && (
+          <p className="text-gray-500 text-sm mt-1">
+            or {prices.slice(1).map(formatAssetPrice).join(' · ')}
+          </p>
+        )}
+        {factors.length > 0 && (
+          <p className="text-gray-400 text-xs mt-1">
+            {factors.map((factor) => factor.label).join(' · ')}
+          </p>
+        )}
       </div>
       
       {/* Features */}
@@ -2,22 +2,75 @@
 
 /**
  * x402 Payment Button Component
- * Handles payment flow for x402 protected services
+ * Handles payment flow for x402 protected services: standard x402 where the
+ * selected asset and network support it, direct transfers otherwise
  */
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { useWallet, useConnection } from '@solana/wallet-adapter-react';
 import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
-import { Transaction, SystemProgram, LAMPORTS_PER_SOL, PublicKey } from '@solana/web3.js';
-import { formatPrice } from '@/lib/x402-client';
+import { PublicKey } from '@solana/web3.js';
+import {
+  X402Client,
+  X402ClientError,
+  formatPrice,
+  formatAssetPrice,
+  type X402ClientStatus,
+} from '@/lib/x402-client';
+import { createTransferSettler, createX402Settler } from '@/lib/x402-settlers';
+import { findPaymentAsset, isPricedEndpoint } from '@/lib/payment-assets';
+import { canPayWithX402, selectPaymentMode, type PaymentMode } from '@/lib/payment-mode';
+import { quotePrice } from '@/lib/pricing';
+import { x402Config, type SolanaNetwork } from '@/lib/x402-config';
+import { explorerTxUrl, getNetworkConfig } from '@/lib/solana-networks';
+import {
+  PAY_WITH_CREDITS_HEADER,
+  creditCost,
+  creditDepositPrice,
+  fetchCreditBalance,
+  submitCreditDeposit,
+} from '@/lib/credits-client';
+import { createPaymentTransaction, createTokenPaymentTransaction } from '@/lib/solana-payment';
+import { walletAdapterSigner } from '@/lib/x402-signer';
+import { useSolanaAuth, useSolanaNetwork } from '../providers/solana-provider';
 import type { PaymentRequiredResponse, UIConfig, UIResponse } from '@/lib/types';
 
+export type { PaymentMode };
+
+const statusMessages: Record<X402ClientStatus, string> = {
+  requesting: 'Requesting service...',
+  signing: 'Waiting for wallet approval...',
+  confirming: 'Confirming transaction...',
+  retrying: 'Loading paid content...',
+};
+
+const x402StatusMessages: Record<X402ClientStatus, string> = {
+  ...statusMessages,
+  retrying: 'Settling payment and loading paid content...',
+};
+
+/**
+ * Turns wallet rejections into a message that tells the user what to do
+ */
+function walletError(error: Error): Error {
+  const { name, message } = error;
+  if (name === 'WalletSendTransactionError' ||
+      name === 'WalletSignTransactionError' ||
+      message?.includes('User rejected') ||
+      message?.includes('Plugin Closed') ||
+      message?.includes('User cancelled')) {
+    return new Error('Transaction cancelled. Please try again and approve the transaction in your wallet.');
+  }
+  return error;
+}
+
 interface X402PaymentButtonProps {
   endpoint: string;
   componentType: string;
   config?: UIConfig;
-  onSuccess: (data: UIResponse, signature?: string) => void;
+  onSuccess: (data: UIResponse, signature?: string, network?: SolanaNetwork) => void;
   onError?: (error: Error) => void;
+  paymentMode?: PaymentMode; // preferred mode, defaults to 'x402' where the asset and network support it
 }
 
 export function X402PaymentButton({
@@ -26,181 +79,173 @@ export function X402PaymentButton({
   config,
   onSuccess,
   onError,
+  paymentMode = 'x402',
 }: X402PaymentButtonProps) {
-  const { publicKey, sendTransaction, connected } = useWallet();
+  const wallet = useWallet();
+  const { publicKey, sendTransaction, connected } = wallet;
   const { connection } = useConnection();
   const [loading, setLoading] = useState(false);
   const [paymentRequired, setPaymentRequired] = useState<PaymentRequiredResponse | null>(null);
   const [status, setStatus] = useState<string>('');
-  const [lastSignature, setLastSignature] = useState<string>('');
+  const [lastTransaction, setLastTransaction] = useState<{ signature: string; network: SolanaNetwork } | null>(null);
+  const [preferredMode, setPreferredMode] = useState<PaymentMode>(paymentMode);
+  const { network } = useSolanaNetwork();
+  const acceptedPrices = isPricedEndpoint(endpoint)
+    ? quotePrice({ priceKey: endpoint, componentType, config, network }).prices
+    : [];
+  const [preferredAsset, setPreferredAsset] = useState<string>(acceptedPrices[0]?.asset.symbol ?? 'SOL');
+  // Falls back to the default asset on networks that do not accept the preferred one
+  const selectedAsset = acceptedPrices.some(({ asset }) => asset.symbol === preferredAsset)
+    ? preferredAsset
+    : acceptedPrices[0]?.asset.symbol ?? 'SOL';
+  const paymentAsset = findPaymentAsset(selectedAsset, network) ?? x402Config.assets.SOL;
+  // Native SOL and networks without a facilitator are paid by direct transfer
+  const x402Available = canPayWithX402(paymentAsset, network);
+  const mode = selectPaymentMode(paymentAsset, network, preferredMode);
+  const [credits, setCredits] = useState<number | null>(null);
+  const { signedIn, signIn } = useSolanaAuth();
   
-  const handleRequest = async () => {
+  // Credits are spent by the signed-in wallet
+  const renderCost = acceptedPrices.length > 0 ? creditCost(acceptedPrices) : null;
+  const canUseCredits = renderCost !== null && signedIn && credits !== null && credits >= renderCost;
+  
+  const refreshCredits = useCallback(async () => {
+    // The balance is only readable by the wallet's session
+    if (!signedIn) {
+      return;
+    }
+    try {
+      const balance = await fetchCreditBalance(network);
+      setCredits(balance.credits);
+    } catch (error) {
+      console.error('Failed to load credits:', error);
+    }
+  }, [signedIn, network]);
+  
+  // Load the balance of the signed-in wallet on the selected network
+  useEffect(() => {
+    setCredits(null);
+    refreshCredits();
+  }, [refreshCredits]);
+  
+  const handleBuyCredits = async () => {
     if (!connected || !publicKey) {
       alert('Please connect your wallet first');
       return;
     }
     
     setLoading(true);
-    setStatus('Requesting service...');
-    
     try {
-      // Determine if endpoint is external (starts with http/https)
-      const isExternalEndpoint = endpoint.startsWith('http://') || endpoint.startsWith('https://');
-      
-      // Use GET for external endpoints (like markets API), POST for internal
-      const method = isExternalEndpoint ? 'GET' : 'POST';
+      const deposit = creditDepositPrice(paymentAsset);
+      const toPubkey = new PublicKey(getNetworkConfig(network).payTo);
+      const transaction = paymentAsset.native
+        ? await createPaymentTransaction({ fromPubkey: publicKey, toPubkey, amount: deposit.amount, connection })
+        : await createTokenPaymentTransaction({
+            fromPubkey: publicKey,
+            toPubkey,
+            amount: deposit.amount,
+            mint: new PublicKey(paymentAsset.mint),
+            decimals: paymentAsset.decimals,
+            connection,
+          });
       
-      // First, try to fetch without payment
-      const response = await fetch(endpoint, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-        },
-        ...(method === 'POST' ? { body: JSON.stringify({ componentType, config }) } : {}),
-      });
-      
-      if (response.status === 402) {
-        // Payment required
-        const paymentDetails: PaymentRequiredResponse = await response.json();
-        setPaymentRequired(paymentDetails);
-        
-        // Process payment
-        const signature = await processPayment(paymentDetails);
-        setLastSignature(signature);
-      } else if (response.ok) {
-        // Success (payment already made or free)
-        const data = await response.json();
-        
-        // Transform external API responses to match UIResponse format
-        if (isExternalEndpoint && data.markets) {
-          // Markets API response - wrap it in UIResponse format
-          const uiResponse: UIResponse = {
-            success: true,
-            ui: {
-              type: 'markets',
-              markets: data.markets,
-              meta: data.meta,
-            },
-            tier: 'premium',
-            message: 'Markets data loaded successfully',
-          };
-          onSuccess(uiResponse);
-        } else {
-          onSuccess(data);
-        }
-      } else {
-        throw new Error('Request failed');
-      }
-    } catch (error: any) {
-      console.error('Error:', error);
-      
-      // Clear payment required state on error so user can retry
-      setPaymentRequired(null);
-      setStatus('');
+      setStatus('Waiting for wallet approval...');
+      const signature = await sendTransaction(transaction, connection);
+      setStatus('Confirming deposit...');
+      await connection.confirmTransaction(signature, 'confirmed');
       
+      const result = await submitCreditDeposit({ signature, publicKey: publicKey.toBase58(), asset: paymentAsset.symbol, network });
+      setCredits(result.credits);
+      setLastTransaction({ signature, network });
+    } catch (error) {
+      console.error('Credit deposit error:', error);
       if (onError) {
         onError(error as Error);
       }
     } finally {
+      setStatus('');
       setLoading(false);
     }
   };
   
-  const processPayment = async (paymentDetails: PaymentRequiredResponse): Promise<string> => {
-    if (!publicKey || !connected) {
-      throw new Error('Wallet not connected');
+  const handleRequest = async () => {
+    if (!connected || !publicKey) {
+      alert('Please connect your wallet first');
+      return;
     }
     
-    // Validate payTo address
-    if (!paymentDetails.payTo || paymentDetails.payTo.trim() === '') {
-      throw new Error('Payment recipient address is not configured. Please set NEXT_PUBLIC_X402_WALLET_ADDRESS environment variable.');
-    }
+    setLoading(true);
+    setStatus('Requesting service...');
     
     try {
-      // Create payment transaction using SOL
-      let recipientPubkey: PublicKey;
-      try {
-        recipientPubkey = new PublicKey(paymentDetails.payTo);
-      } catch (error) {
-        throw new Error(`Invalid payment recipient address: ${paymentDetails.payTo}. Please check NEXT_PUBLIC_X402_WALLET_ADDRESS environment variable.`);
-      }
-      
-      // Price is already in lamports (smallest unit for SOL)
-      const amountInLamports = paymentDetails.price;
-      
-      const transaction = new Transaction().add(
-        SystemProgram.transfer({
-          fromPubkey: publicKey,
-          toPubkey: recipientPubkey,
-          lamports: amountInLamports,
-        })
-      );
-
-      // Send transaction
-      setStatus('Waiting for wallet approval...');
-      const signature = await sendTransaction(transaction, connection);
-      
-      setStatus('Confirming transaction...');
-      
-      // Wait for confirmation
-      await connection.confirmTransaction(signature, 'confirmed');
-      
-      // Determine if endpoint is external (starts with http/https)
-      const isExternalEndpoint = endpoint.startsWith('http://') || endpoint.startsWith('https://');
-      const method = isExternalEndpoint ? 'GET' : 'POST';
-      
-      // Retry the request with payment proof
-      const retryResponse = await fetch(endpoint, {
-        method,
-        headers: {
-          'Content-Type': 'application/json',
-          'X-Payment-Signature': signature,
-          'X-Payment-PublicKey': publicKey.toString(),
-          'X-Payment-Timestamp': Date.now().toString(),
-        },
-        ...(method === 'POST' ? { body: JSON.stringify({ componentType, config }) } : {}),
+      // Every paid route takes the componentType and config as a JSON body
+      const init: RequestInit = {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ componentType, config }),
+      };
+      const messages = mode === 'x402' ? x402StatusMessages : statusMessages;
+      const client = new X402Client({
+        signer: walletAdapterSigner(wallet),
+        settler: mode === 'x402' ? createX402Settler(connection) : createTransferSettler(connection),
+        network,
+        assets: [selectedAsset],
+        onStatus: (clientStatus) => setStatus(messages[clientStatus]),
+        onPaymentRequired: setPaymentRequired,
       });
       
-      if (retryResponse.ok) {
-        const data = await retryResponse.json();
+      // Spend prepaid credits when they cover this render, without a wallet prompt
+      if (canUseCredits) {
+        setStatus('Spending credits...');
+        const { response: creditResponse } = await client.request(endpoint, {
+          ...init,
+          headers: { 'Content-Type': 'application/json', [PAY_WITH_CREDITS_HEADER]: 'true' },
+        }, { pay: false });
         
-        // Transform external API responses to match UIResponse format
-        if (isExternalEndpoint && data.markets) {
-          // Markets API response - wrap it in UIResponse format
-          const uiResponse: UIResponse = {
-            success: true,
-            ui: {
-              type: 'markets',
-              markets: data.markets,
-              meta: data.meta,
-            },
-            tier: 'premium',
-            message: 'Markets data loaded successfully',
-          };
-          onSuccess(uiResponse, signature);
-        } else {
-          onSuccess(data, signature);
+        if (creditResponse.ok) {
+          onSuccess(await creditResponse.json());
+          await refreshCredits();
+          return;
         }
-        setPaymentRequired(null);
-        return signature;
-      } else {
-        throw new Error('Failed to fetch after payment');
+        
+        // Session expired or the balance ran out elsewhere; fall back to paying per render
+        await refreshCredits();
       }
-    } catch (error: any) {
-      console.error('Payment error:', error);
       
-      // Handle specific wallet errors
-      if (error.name === 'WalletSendTransactionError' || 
-          error.message?.includes('User rejected') || 
-          error.message?.includes('Plugin Closed') ||
-          error.message?.includes('User cancelled')) {
-        throw new Error('Transaction cancelled. Please try again and approve the transaction in your wallet.');
+      const { response, payment } = await client.request(endpoint, init);
+      if (!response.ok) {
+        const body = await response.json().catch(() => ({}));
+        throw new Error(body.error || (payment ? 'Failed to fetch after payment' : 'Request failed'));
       }
       
-      throw error;
+      // Legacy: the wallet's transfer; x402: the facilitator's transaction from X-PAYMENT-RESPONSE
+      const signature = payment?.signature ?? undefined;
+      onSuccess(await response.json(), signature, network);
+      if (signature) {
+        setLastTransaction({ signature, network });
+      }
+      setPaymentRequired(null);
+    } catch (error) {
+      console.error('Error:', error);
+      
+      // Clear payment required state on error so user can retry
+      setPaymentRequired(null);
+      setStatus('');
+      
+      if (onError) {
+        onError(paymentError(error as Error));
+      }
+    } finally {
+      setLoading(false);
     }
   };
   
+  // The standard flow needs an `accepts` requirement for the asset; legacy transfers do not
+  const paymentError = (error: Error): Error =>
+    error instanceof X402ClientError && error.reason === 'NO_ACCEPTED_ASSET' && mode === 'x402'
+      ? new Error(`${selectedAsset} cannot be paid with standard x402 here. Switch to direct transfer and try again.`)
+      : walletError(error);
+  
   if (!connected) {
     return (
       <div className="flex flex-col items-center gap-4">
@@ -210,6 +255,8 @@ export function X402PaymentButton({
     );
   }
   
+  const requiredOption = paymentRequired?.options?.find((o) => o.asset === selectedAsset);
+  
   // Determine button text based on component type
   const getButtonText = () => {
     if (componentType === 'markets') {
@@ -220,6 +267,39 @@ export function X402PaymentButton({
 
   return (
     <div className="flex flex-col gap-4">
+      {acceptedPrices.length > 1 && (
+        <div className="flex items-center gap-2 text-sm">
+          <span className="text-gray-600">Pay with</span>
+          {acceptedPrices.map((price) => (
+            <button
+              key={price.asset.symbol}
+              type="button"
+              onClick={() => setPreferredAsset(price.asset.symbol)}
+              disabled={loading}
+              className={`px-3 py-1 rounded-md border text-xs font-medium transition-colors ${
+                selectedAsset === price.asset.symbol
+                  ? 'border-purple-500 bg-purple-50 text-purple-700'
+                  : 'border-gray-200 text-gray-700 hover:border-gray-300'
+              }`}
+            >
+              {formatAssetPrice(price)}
+            </button>
+          ))}
+        </div>
+      )}
+      
+      <label className="flex items-center gap-2 text-xs text-gray-600">
+        <input
+          type="checkbox"
+          checked={mode === 'legacy'}
+          onChange={(event) => setPreferredMode(event.target.checked ? 'legacy' : 'x402')}
+          disabled={loading || !x402Available}
+        />
+        {x402Available
+          ? 'Pay by direct transfer (legacy) instead of standard x402'
+          : `${selectedAsset} is paid by direct transfer on this network`}
+      </label>
+      
       <button
         onClick={handleRequest}
         disabled={loading}
@@ -234,10 +314,42 @@ export function X402PaymentButton({
             Processing...
           </span>
         ) : (
-          `${getButtonText()} (Pay with Solana)`
+          canUseCredits ? `${getButtonText()} (${renderCost} credits)` : `${getButtonText()} (Pay with Solana)`
         )}
       </button>
       
+      {renderCost !== null && (
+        <div className="flex items-center justify-between gap-2 p-3 bg-gray-50 border border-gray-200 rounded-lg text-sm">
+          <p className="text-gray-700">
+            {signedIn
+              ? <><span className="font-semibold">{credits ?? '…'}</span> credits remaining</>
+              : 'Sign in to see your credits'}
+            <span className="text-gray-500"> · this render costs {renderCost}</span>
+          </p>
+          <div className="flex gap-2">
+            {!signedIn && (
+              <button
+                type="button"
+                onClick={() => signIn().catch((error) => onError?.(error as Error))}
+                disabled={loading}
+                className="px-3 py-1 rounded-md border border-gray-300 text-xs font-medium text-gray-700 hover:border-gray-400 disabled:opacity-50"
+              >
+                Sign in to use credits
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={handleBuyCredits}
+              disabled={loading}
+              className="px-3 py-1 rounded-md border border-purple-300 text-xs font-medium text-purple-700 hover:bg-purple-50 disabled:opacity-50"
+            >
+              Buy {x402Config.credits.depositCredits} credits
+              {' '}({formatAssetPrice(creditDepositPrice(paymentAsset))})
+            </button>
+          </div>
+        </div>
+      )}
+      
       {status && loading && (
         <div className="p-3 bg-blue-50 border border-blue-200 rounded-lg text-sm">
           <p className="text-blue-800 font-medium flex items-center gap-2">
@@ -254,7 +366,9 @@ export function X402PaymentButton({
         <div className="p-4 bg-yellow-50 border border-yellow-200 rounded-lg text-sm">
           <p className="font-semibold text-yellow-900">Payment Required</p>
           <p className="text-yellow-700 mt-1">
-            Amount: {formatPrice(paymentRequired.price)} {paymentRequired.asset}
+            Amount: {requiredOption
+              ? `${formatPrice(requiredOption.amount, requiredOption.decimals)} ${requiredOption.asset}`
+              : `${formatPrice(paymentRequired.price)} ${paymentRequired.asset}`}
           </p>
           <p className="text-yellow-700">
             Network: {paymentRequired.network}
@@ -262,11 +376,11 @@ export function X402PaymentButton({
         </div>
       )}
       
-      {lastSignature && (
+      {lastTransaction && (
         <div className="p-3 bg-green-50 border border-green-200 rounded-lg text-sm">
           <p className="font-semibold text-green-900 mb-1">Transaction Confirmed</p>
           <a
-            href={`https://orb.helius.dev/tx/${lastSignature}?cluster=mainnet-beta&advanced=true&tab=summary`}
+            href={explorerTxUrl(lastTransaction.signature, lastTransaction.network)}
             target="_blank"
             rel="noopener noreferrer"
             className="text-blue-600 hover:text-blue-800 underline break-all text-xs flex items-center gap-1"
@@ -274,7 +388,7 @@ export function X402PaymentButton({
             <svg className="w-4 h-4 flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
               <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
             </svg>
-            {lastSignature}
+            {lastTransaction.signature}
           </a>
         </div>
       )}
@@ -0,0 +1,282 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { Header } from '../components/header';
+import type { OpenApiDocument, OpenApiMethod, OpenApiOperation } from '@/lib/openapi';
+
+interface TryResponse {
+  status: number;
+  statusText: string;
+  headers: Array<[string, string]>;
+  body: unknown;
+}
+
+interface OperationEntry {
+  path: string;
+  method: OpenApiMethod;
+  operation: OpenApiOperation;
+}
+
+function listOperations(doc: OpenApiDocument): OperationEntry[] {
+  return Object.entries(doc.paths).flatMap(([path, methods]) =>
+    (Object.entries(methods) as Array<[OpenApiMethod, OpenApiOperation]>).map(([method, operation]) => ({
+      path,
+      method,
+      operation,
+    }))
+  );
+}
+
+function requestExamples(operation: OpenApiOperation) {
+  return Object.entries(operation.requestBody?.content['application/json']?.examples ?? {});
+}
+
+// Request body prefilled from the first documented example
+function exampleBody(operation: OpenApiOperation): string {
+  const [first] = requestExamples(operation);
+  return first ? JSON.stringify(first[1].value, null, 2) : '';
+}
+
+const statusStyles = (status: number) =>
+  status === 402
+    ? 'bg-yellow-100 text-yellow-800'
+    : status >= 200 && status < 300
+      ? 'bg-green-100 text-green-800'
+      : 'bg-red-100 text-red-800';
+
+export default function ApiDocsPage() {
+  const [doc, setDoc] = useState<OpenApiDocument | null>(null);
+  const [selected, setSelected] = useState<OperationEntry | null>(null);
+  const [body, setBody] = useState('');
+  const [headers, setHeaders] = useState<Record<string, string>>({});
+  const [response, setResponse] = useState<TryResponse | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    fetch('/api/openapi')
+      .then((res) => res.json() as Promise<OpenApiDocument>)
+      .then((spec) => {
+        setDoc(spec);
+        const [first] = listOperations(spec);
+        if (first) {
+          setSelected(first);
+          setBody(exampleBody(first.operation));
+        }
+      })
+      .catch((err: Error) => setError(`Failed to load the API description: ${err.message}`));
+  }, []);
+
+  const selectOperation = (entry: OperationEntry) => {
+    setSelected(entry);
+    setBody(exampleBody(entry.operation));
+    setHeaders({});
+    setResponse(null);
+    setError(null);
+  };
+
+  const send = async () => {
+    if (!selected) return;
+    setLoading(true);
+    setError(null);
+    setResponse(null);
+
+    try {
+      const requestHeaders: Record<string, string> = Object.fromEntries(
+        Object.entries(headers).filter(([, value]) => value.trim() !== '')
+      );
+      if (selected.method === 'post') {
+        requestHeaders['Content-Type'] = 'application/json';
+      }
+      const res = await fetch(selected.path, {
+        method: selected.method.toUpperCase(),
+        headers: requestHeaders,
+        ...(selected.method === 'post' ? { body } : {}),
+      });
+      const text = await res.text();
+      let parsed: unknown = text;
+      try {
+        parsed = JSON.parse(text);
+      } catch {
+        // Not JSON; show the raw text
+      }
+      const documented = Object.values(selected.operation.responses).flatMap((r) => Object.keys(r.headers ?? {}));
+      setResponse({
+        status: res.status,
+        statusText: res.statusText,
+        headers: documented
+          .filter((name, index) => documented.indexOf(name) === index && res.headers.has(name))
+          .map((name) => [name, res.headers.get(name) ?? '']),
+        body: parsed,
+      });
+    } catch (err: unknown) {
+      setError(err instanceof Error ? err.message : 'An error occurred');
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const operations = doc ? listOperations(doc) : [];
+
+  return (
+    <div className="min-h-screen bg-gray-50">
+      <Header showWallet={true} />
+      <div className="max-w-6xl mx-auto p-8">
+        <div className="bg-white rounded-lg shadow-lg p-6 mb-6">
+          <div className="flex items-start justify-between gap-4 mb-6">
+            <div>
+              <h1 className="text-2xl font-bold mb-2">{doc?.info.title ?? 'API Reference'}</h1>
+              <p className="text-gray-600">{doc?.info.description}</p>
+            </div>
+            <a
+              href="/api/openapi"
+              target="_blank"
+              rel="noopener noreferrer"
+              className="px-3 py-1.5 border border-gray-200 rounded-md text-xs font-medium text-gray-700 hover:border-gray-300 whitespace-nowrap"
+            >
+              OpenAPI {doc?.openapi} JSON
+            </a>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+            {/* Operations */}
+            <nav className="space-y-2">
+              {operations.map((entry) => (
+                <button
+                  key={`${entry.method} ${entry.path}`}
+                  onClick={() => selectOperation(entry)}
+                  className={`w-full text-left p-3 rounded-lg border transition-colors ${
+                    selected?.operation.operationId === entry.operation.operationId
+                      ? 'border-purple-500 bg-purple-50'
+                      : 'border-gray-200 hover:border-gray-300'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="px-1.5 py-0.5 bg-gray-800 text-white text-xs font-mono rounded uppercase">{entry.method}</span>
+                    <span className="font-mono text-xs">{entry.path}</span>
+                  </div>
+                  <p className="text-xs text-gray-600 mt-1">{entry.operation.summary}</p>
+                </button>
+              ))}
+            </nav>
+
+            {/* Selected operation */}
+            {selected && (
+              <div className="md:col-span-2 space-y-5">
+                <div>
+                  <h2 className="text-lg font-semibold">{selected.operation.summary}</h2>
+                  <p className="text-sm text-gray-600 mt-1">{selected.operation.description}</p>
+                </div>
+
+                {selected.operation.requestBody && (
+                  <div>
+                    <h3 className="font-medium text-sm mb-2">Request body</h3>
+                    <div className="flex flex-wrap gap-2 mb-2">
+                      {requestExamples(selected.operation).map(([name, example]) => (
+                        <button
+                          key={name}
+                          onClick={() => setBody(JSON.stringify(example.value, null, 2))}
+                          className="px-2 py-1 border border-gray-200 rounded text-xs hover:border-purple-400"
+                        >
+                          {example.summary}
+                        </button>
+                      ))}
+                    </div>
+                    <textarea
+                      value={body}
+                      onChange={(event) => setBody(event.target.value)}
+                      rows={8}
+                      spellCheck={false}
+                      className="w-full font-mono text-xs p-3 border border-gray-200 rounded-lg"
+                    />
+                  </div>
+                )}
+
+                {selected.operation.parameters && (
+                  <div>
+                    <h3 className="font-medium text-sm mb-2">Payment headers</h3>
+                    <div className="space-y-2">
+                      {selected.operation.parameters.map((parameter) => (
+                        <label key={parameter.name} className="block">
+                          <span className="font-mono text-xs text-blue-600">{parameter.name}</span>
+                          <span className="text-xs text-gray-500"> — {parameter.description}</span>
+                          <input
+                            value={headers[parameter.name] ?? ''}
+                            onChange={(event) => setHeaders({ ...headers, [parameter.name]: event.target.value })}
+                            className="mt-1 w-full font-mono text-xs px-2 py-1.5 border border-gray-200 rounded"
+                          />
+                        </label>
+                      ))}
+                    </div>
+                  </div>
+                )}
+
+                <button
+                  onClick={send}
+                  disabled={loading}
+                  className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:opacity-50 transition-colors"
+                >
+                  {loading ? 'Sending...' : 'Send request'}
+                </button>
+
+                <div>
+                  <h3 className="font-medium text-sm mb-2">Responses</h3>
+                  <ul className="text-sm space-y-1">
+                    {Object.entries(selected.operation.responses).map(([status, documented]) => (
+                      <li key={status}>
+                        <span className={`inline-block px-2 py-0.5 rounded text-xs font-mono mr-2 ${statusStyles(Number(status))}`}>{status}</span>
+                        {documented.description}
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+
+                {error && (
+                  <div className="bg-red-50 border border-red-200 rounded-lg p-4">
+                    <p className="text-red-600 text-sm">{error}</p>
+                  </div>
+                )}
+
+                {response && (
+                  <div className="bg-gray-50 border border-gray-200 rounded-lg p-4">
+                    <h3 className="font-semibold mb-3 flex items-center gap-2">
+                      <span className={`px-2 py-0.5 rounded text-sm font-mono ${statusStyles(response.status)}`}>{response.status}</span>
+                      {response.statusText}
+                    </h3>
+                    {response.headers.length > 0 && (
+                      <div className="bg-white rounded p-3 text-xs font-mono mb-3">
+                        {response.headers.map(([name, value]) => (
+                          <div key={name}>
+                            <span className="text-blue-600">{name}:</span> {value}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+                    <pre className="bg-white rounded p-4 text-xs overflow-x-auto max-h-96">
+                      {JSON.stringify(response.body, null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+        </div>
+
+        {/* Schemas */}
+        {doc && (
+          <div className="bg-white rounded-lg shadow-lg p-6">
+            <h2 className="text-xl font-bold mb-4">Schemas</h2>
+            <div className="space-y-2">
+              {Object.entries(doc.components.schemas).map(([name, schema]) => (
+                <details key={name} className="border border-gray-200 rounded-lg">
+                  <summary className="px-3 py-2 cursor-pointer font-mono text-sm">{name}</summary>
+                  <pre className="px-3 pb-3 text-xs overflow-x-auto">{JSON.stringify(schema, null, 2)}</pre>
+                </details>
+              ))}
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
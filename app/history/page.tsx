@@ -0,0 +1,176 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { useWallet } from '@solana/wallet-adapter-react';
+import { WalletMultiButton } from '@solana/wallet-adapter-react-ui';
+import { Header } from '../components/header';
+import { UIRenderer } from '../components/ui-renderer';
+import { useSolanaAuth } from '../providers/solana-provider';
+import { findPaymentAsset } from '@/lib/payment-assets';
+import { explorerTxUrl, getNetworkConfig } from '@/lib/solana-networks';
+import { formatPublicKey } from '@/lib/solana-payment';
+import { formatAssetPrice } from '@/lib/x402-client';
+import type { PaymentRecord } from '@/lib/payment-log';
+import type { UIResponse } from '@/lib/types';
+
+const schemeLabels: Record<PaymentRecord['scheme'], string> = {
+  x402: 'x402',
+  custom: 'Direct transfer',
+  receipt: 'Receipt',
+  credits: 'Credits',
+};
+
+function formatAmount(record: PaymentRecord): string {
+  const asset = findPaymentAsset(record.asset, record.network);
+  return asset ? formatAssetPrice({ asset, amount: record.amount }) : `${record.amount} ${record.asset}`;
+}
+
+export default function HistoryPage() {
+  const { connected } = useWallet();
+  const { signedIn, signingIn, signIn } = useSolanaAuth();
+  const [payments, setPayments] = useState<PaymentRecord[] | null>(null);
+  const [selected, setSelected] = useState<PaymentRecord | null>(null);
+  const [render, setRender] = useState<UIResponse | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!signedIn) {
+      setPayments(null);
+      setSelected(null);
+      setRender(null);
+      return;
+    }
+    fetch('/api/history')
+      .then(async (response) => {
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load history');
+        }
+        setPayments(data.payments);
+        setError(null);
+      })
+      .catch((err: Error) => setError(err.message));
+  }, [signedIn]);
+
+  // Renders are re-opened from the render store, so only while they are retained
+  const open = async (record: PaymentRecord) => {
+    setRender(null);
+    if (selected?.id === record.id) {
+      setSelected(null);
+      return;
+    }
+    setSelected(record);
+    try {
+      const response = await fetch(`/api/renders/${encodeURIComponent(record.contentId)}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to open render');
+      }
+      setRender(data);
+      setError(null);
+    } catch (err) {
+      setSelected(null);
+      setError((err as Error).message);
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-white">
+      <Header showWallet={true} />
+
+      <main className="max-w-4xl mx-auto px-6 py-8">
+        <h2 className="text-sm font-medium text-gray-500 mb-4">Payment history</h2>
+
+        {!connected ? (
+          <div className="flex flex-col items-center gap-4 p-8 bg-gray-50 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-600">Connect your wallet to see its paid renders</p>
+            <WalletMultiButton />
+          </div>
+        ) : !signedIn ? (
+          <div className="flex flex-col items-center gap-4 p-8 bg-gray-50 rounded-lg border border-gray-200">
+            <p className="text-sm text-gray-600">Sign in with your wallet to prove it is yours</p>
+            <button
+              onClick={() => signIn().catch((err: Error) => setError(err.message))}
+              disabled={signingIn}
+              className="px-4 py-2 bg-purple-600 text-white rounded-lg text-sm font-medium hover:bg-purple-700 disabled:opacity-50 transition-colors"
+            >
+              {signingIn ? 'Signing in...' : 'Sign in'}
+            </button>
+          </div>
+        ) : payments === null ? (
+          <p className="text-sm text-gray-500">Loading...</p>
+        ) : payments.length === 0 ? (
+          <p className="text-sm text-gray-500">No paid requests yet.</p>
+        ) : (
+          <div className="overflow-x-auto rounded-lg border border-gray-200">
+            <table className="min-w-full text-sm">
+              <thead className="bg-gray-50 text-left text-xs font-medium text-gray-500">
+                <tr>
+                  <th className="px-4 py-2">Date</th>
+                  <th className="px-4 py-2">Endpoint</th>
+                  <th className="px-4 py-2">Component</th>
+                  <th className="px-4 py-2">Amount</th>
+                  <th className="px-4 py-2">Paid via</th>
+                  <th className="px-4 py-2">Signature</th>
+                  <th className="px-4 py-2" />
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-gray-100">
+                {payments.map((record) => (
+                  <tr key={record.id} className={selected?.id === record.id ? 'bg-purple-50' : undefined}>
+                    <td className="px-4 py-2 whitespace-nowrap text-gray-600">{new Date(record.paidAt).toLocaleString()}</td>
+                    <td className="px-4 py-2 font-mono text-xs">{record.endpoint}</td>
+                    <td className="px-4 py-2">{record.componentType}</td>
+                    <td className="px-4 py-2 whitespace-nowrap">{formatAmount(record)}</td>
+                    <td className="px-4 py-2">
+                      {schemeLabels[record.scheme]}
+                      <span className="ml-1 text-xs text-gray-500">({getNetworkConfig(record.network).label})</span>
+                    </td>
+                    <td className="px-4 py-2 font-mono text-xs">
+                      {record.signature ? (
+                        <a
+                          href={explorerTxUrl(record.signature, record.network)}
+                          target="_blank"
+                          rel="noopener noreferrer"
+                          className="text-blue-600 hover:text-blue-800 underline"
+                        >
+                          {formatPublicKey(record.signature, 6)}
+                        </a>
+                      ) : (
+                        <span className="text-gray-400">—</span>
+                      )}
+                    </td>
+                    <td className="px-4 py-2 text-right">
+                      <button
+                        onClick={() => open(record)}
+                        className="text-xs font-medium text-purple-600 hover:text-purple-800"
+                      >
+                        {selected?.id === record.id ? 'Close' : 'Open'}
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {error && (
+          <div className="mt-4 p-4 bg-red-50 rounded-lg border border-red-200">
+            <p className="text-red-800 text-sm font-medium">{error}</p>
+          </div>
+        )}
+
+        {selected && render && (
+          <div className="mt-8 bg-white rounded-lg p-6 border border-gray-200">
+            <UIRenderer
+              uiData={{ ...render, message: 'Restored from history' }}
+              signature={selected.signature ?? undefined}
+              network={selected.network}
+            />
+          </div>
+        )}
+      </main>
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
 'use client';
 
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Header } from './components/header';
 import { X402PaymentButton } from './components/x402-payment-button';
 import { UIRenderer } from './components/ui-renderer';
-import { x402Config } from '@/lib/x402-config';
-import { formatPrice } from '@/lib/x402-client';
+import { useSolanaAuth, useSolanaNetwork } from './providers/solana-provider';
+import { quotePrice } from '@/lib/pricing';
+import { components } from '@/lib/component-registry';
+import { formatAssetPrice } from '@/lib/x402-client';
 import type { UIResponse } from '@/lib/types';
+import type { SolanaNetwork } from '@/lib/x402-config';
+
+// Last paid render, restored from the server after a reload
+const LAST_RENDER_KEY = 'x402-last-render';
+
+interface LastRender {
+  contentId: string;
+  signature?: string;
+  network?: SolanaNetwork; // network the signature is on
+}
 
 export default function Home() {
   const [selectedService, setSelectedService] = useState<{
@@ -17,65 +29,46 @@ export default function Home() {
   const [renderedUI, setRenderedUI] = useState<UIResponse | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [transactionSignature, setTransactionSignature] = useState<string | undefined>(undefined);
+  const [transactionNetwork, setTransactionNetwork] = useState<SolanaNetwork | undefined>(undefined);
+  const [pendingRestore, setPendingRestore] = useState<LastRender | null>(null);
+  const { signedIn, signingIn, signIn } = useSolanaAuth();
+  const { network } = useSolanaNetwork();
 
-  const services = [
-    {
-      title: 'Basic Grid',
-      description: 'Responsive grid layout',
-      price: x402Config.prices['/api/render-ui'],
-      endpoint: '/api/render-ui',
-      componentType: 'grid',
-      tier: 'basic' as const,
-    },
-    {
-      title: 'Card Component',
-      description: 'Professional card UI',
-      price: x402Config.prices['/api/render-ui'],
-      endpoint: '/api/render-ui',
-      componentType: 'card',
-      tier: 'basic' as const,
-    },
-    {
-      title: 'Dashboard',
-      description: 'Stats dashboard',
-      price: x402Config.prices['/api/render-ui'],
-      endpoint: '/api/render-ui',
-      componentType: 'dashboard',
-      tier: 'basic' as const,
-    },
-    {
-      title: 'Advanced Grid',
-      description: 'Premium with animations',
-      price: x402Config.prices['/api/premium-ui'],
-      endpoint: '/api/premium-ui',
-      componentType: 'advanced-grid',
-      tier: 'premium' as const,
-    },
-    {
-      title: 'Data Table',
-      description: 'Sortable & filterable',
-      price: x402Config.prices['/api/premium-ui'],
-      endpoint: '/api/premium-ui',
-      componentType: 'data-table',
-      tier: 'premium' as const,
-    },
-    {
-      title: 'Analytics',
-      description: 'Complete dashboard',
-      price: x402Config.prices['/api/premium-ui'],
-      endpoint: '/api/premium-ui',
-      componentType: 'analytics',
-      tier: 'premium' as const,
-    },
-    {
-      title: 'New Markets',
-      description: 'Live Polymarket data',
-      price: x402Config.prices['https://grid.wtf/api/x402/v1/new-markets'],
-      endpoint: 'https://grid.wtf/api/x402/v1/new-markets',
-      componentType: 'markets',
-      tier: 'premium' as const,
-    },
-  ];
+  // Find a render paid for before the last reload
+  useEffect(() => {
+    const saved = localStorage.getItem(LAST_RENDER_KEY);
+    if (saved) {
+      setPendingRestore(JSON.parse(saved) as LastRender);
+    }
+  }, []);
+
+  // Restore it once the payer is signed in; the server checks the entitlement
+  useEffect(() => {
+    if (!pendingRestore || !signedIn) {
+      return;
+    }
+    fetch(`/api/renders/${encodeURIComponent(pendingRestore.contentId)}`)
+      .then(async (response) => {
+        if (response.ok) {
+          setRenderedUI(await response.json());
+          setTransactionSignature(pendingRestore.signature);
+          setTransactionNetwork(pendingRestore.network);
+        } else if (response.status === 403 || response.status === 404) {
+          localStorage.removeItem(LAST_RENDER_KEY);
+        }
+      })
+      .catch((err) => console.error('Failed to restore last render:', err))
+      .finally(() => setPendingRestore(null));
+  }, [pendingRestore, signedIn]);
+
+  const services = components.map((component) => ({
+    title: component.title,
+    description: component.description,
+    quote: quotePrice({ priceKey: component.priceKey, componentType: component.id, network }),
+    endpoint: component.priceKey,
+    componentType: component.id,
+    tier: component.tier,
+  }));
 
   const handleServiceSelect = (endpoint: string, componentType: string, title: string) => {
     setSelectedService({ endpoint, componentType, title });
@@ -84,9 +77,15 @@ export default function Home() {
     setTransactionSignature(undefined); // Clear previous signature
   };
 
-  const handleSuccess = (data: UIResponse, signature?: string) => {
+  const handleSuccess = (data: UIResponse, signature?: string, paidOn?: SolanaNetwork) => {
+    if (data.contentId) {
+      const lastRender: LastRender = { contentId: data.contentId, signature, network: paidOn };
+      localStorage.setItem(LAST_RENDER_KEY, JSON.stringify(lastRender));
+    }
+    setPendingRestore(null);
     setRenderedUI(data);
     setTransactionSignature(signature);
+    setTransactionNetwork(paidOn);
     setError(null);
   };
 
@@ -114,6 +113,20 @@ export default function Home() {
 
       {/* Main Content */}
       <main className="max-w-4xl mx-auto px-6 py-8">
+        {/* Restore prompt */}
+        {pendingRestore && !signedIn && !renderedUI && (
+          <div className="mb-8 p-4 bg-blue-50 rounded-lg border border-blue-200 flex items-center justify-between gap-4">
+            <p className="text-sm text-blue-900">Your last render is still available. Sign in with the wallet that paid for it to restore it.</p>
+            <button
+              onClick={() => signIn().catch((err: Error) => setError(err.message))}
+              disabled={signingIn}
+              className="px-3 py-1.5 bg-blue-600 text-white rounded-md text-xs font-medium hover:bg-blue-700 disabled:opacity-50 transition-colors whitespace-nowrap"
+            >
+              {signingIn ? 'Signing in...' : 'Sign in to restore'}
+            </button>
+          </div>
+        )}
+
         {/* Services Grid */}
         <div className="mb-8">
           <h2 className="text-sm font-medium text-gray-500 mb-4">Select a component</h2>
@@ -139,7 +152,7 @@ export default function Home() {
                   )}
                 </div>
                 <p className="text-xs text-gray-600 mb-2">{service.description}</p>
-                <p className="text-xs font-medium text-gray-900">{formatPrice(service.price)} {x402Config.asset}</p>
+                <p className="text-xs font-medium text-gray-900">{service.quote.prices.map(formatAssetPrice).join(' · ')}</p>
                 {selectedService?.componentType === service.componentType && (
                   <div className="absolute bottom-2 right-2 w-5 h-5 bg-purple-500 rounded-full flex items-center justify-center">
                     <svg className="w-3 h-3 text-white" fill="currentColor" viewBox="0 0 20 20">
@@ -195,7 +208,7 @@ export default function Home() {
               )}
             </div>
             <div className="bg-white rounded-lg p-6 border border-gray-200">
-              <UIRenderer uiData={renderedUI} signature={transactionSignature} />
+              <UIRenderer uiData={renderedUI} signature={transactionSignature} network={transactionNetwork} />
             </div>
           </div>
         )}
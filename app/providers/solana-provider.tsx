@@ -2,15 +2,16 @@
 
 /**
  * Solana Wallet Provider
- * Provides Solana wallet connection functionality throughout the app
+ * Provides the selected Solana network, wallet connection and Sign-In With
+ * Solana state throughout the app
  */
 
-import React, { useMemo } from 'react';
+import React, { createContext, useCallback, useContext, useEffect, useMemo, useState } from 'react';
 import {
   ConnectionProvider,
   WalletProvider,
+  useWallet,
 } from '@solana/wallet-adapter-react';
-import { WalletAdapterNetwork } from '@solana/wallet-adapter-base';
 import { WalletModalProvider } from '@solana/wallet-adapter-react-ui';
 import {
   PhantomWalletAdapter,
@@ -18,22 +19,146 @@ import {
   TorusWalletAdapter,
   LedgerWalletAdapter,
 } from '@solana/wallet-adapter-wallets';
-import { clusterApiUrl } from '@solana/web3.js';
+import { buildSignInMessage } from '@/lib/siws';
+import { x402Config, type SolanaNetwork } from '@/lib/x402-config';
+import { getEnabledNetworks, getNetworkConfig, isEnabledNetwork } from '@/lib/solana-networks';
 
 // Import wallet adapter CSS
 import '@solana/wallet-adapter-react-ui/styles.css';
 
+interface SolanaAuthState {
+  publicKey: string | null; // signed-in public key, null when signed out
+  signedIn: boolean; // signed in as the connected wallet
+  signingIn: boolean;
+  signIn: () => Promise<void>;
+  signOut: () => Promise<void>;
+}
+
+const SolanaAuthContext = createContext<SolanaAuthState | null>(null);
+
+interface SolanaNetworkState {
+  network: SolanaNetwork; // network payments are quoted, made and verified on
+  networks: readonly SolanaNetwork[]; // networks the server accepts
+  setNetwork: (network: SolanaNetwork) => void;
+}
+
+const SolanaNetworkContext = createContext<SolanaNetworkState | null>(null);
+
+const NETWORK_KEY = 'x402-network';
+
+/**
+ * Selected network, persisted across reloads
+ */
+export function useSolanaNetwork(): SolanaNetworkState {
+  const context = useContext(SolanaNetworkContext);
+  if (!context) {
+    throw new Error('useSolanaNetwork must be used within SolanaProvider');
+  }
+  return context;
+}
+
+/**
+ * Signed-in state of the connected wallet
+ */
+export function useSolanaAuth(): SolanaAuthState {
+  const context = useContext(SolanaAuthContext);
+  if (!context) {
+    throw new Error('useSolanaAuth must be used within SolanaProvider');
+  }
+  return context;
+}
+
+function SolanaAuthProvider({ children }: { children: React.ReactNode }) {
+  const { publicKey, signMessage } = useWallet();
+  const [sessionKey, setSessionKey] = useState<string | null>(null);
+  const [signingIn, setSigningIn] = useState(false);
+  
+  // Restore the session cookie's public key on load
+  useEffect(() => {
+    fetch('/api/auth/session')
+      .then((response) => response.json())
+      .then((data) => setSessionKey(data.authenticated ? data.publicKey : null))
+      .catch(() => setSessionKey(null));
+  }, []);
+  
+  const signIn = useCallback(async () => {
+    if (!publicKey || !signMessage) {
+      throw new Error('Connect a wallet that supports message signing');
+    }
+    
+    setSigningIn(true);
+    try {
+      const challenge = await fetch('/api/auth/nonce').then((response) => response.json());
+      const message = buildSignInMessage({
+        domain: window.location.host,
+        address: publicKey.toBase58(),
+        statement: challenge.statement,
+        uri: window.location.origin,
+        nonce: challenge.nonce,
+        issuedAt: challenge.issuedAt,
+        expirationTime: challenge.expirationTime,
+      });
+      const signature = await signMessage(new TextEncoder().encode(message));
+      
+      const response = await fetch('/api/auth/verify', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          publicKey: publicKey.toBase58(),
+          message,
+          signature: btoa(String.fromCharCode(...signature)),
+        }),
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Sign-in failed');
+      }
+      setSessionKey(data.publicKey);
+    } finally {
+      setSigningIn(false);
+    }
+  }, [publicKey, signMessage]);
+  
+  const signOut = useCallback(async () => {
+    await fetch('/api/auth/session', { method: 'DELETE' });
+    setSessionKey(null);
+  }, []);
+  
+  const value = useMemo<SolanaAuthState>(() => ({
+    publicKey: sessionKey,
+    signedIn: !!sessionKey && sessionKey === publicKey?.toBase58(),
+    signingIn,
+    signIn,
+    signOut,
+  }), [sessionKey, publicKey, signingIn, signIn, signOut]);
+  
+  return <SolanaAuthContext.Provider value={value}>{children}</SolanaAuthContext.Provider>;
+}
+
 export function SolanaProvider({ children }: { children: React.ReactNode }) {
-  // Get network from environment or default to devnet
-  const network = (process.env.NEXT_PUBLIC_SOLANA_NETWORK as WalletAdapterNetwork) || WalletAdapterNetwork.Devnet;
+  // Same default network as the server, switchable to any network it accepts
+  const [network, setNetworkState] = useState<SolanaNetwork>(x402Config.network);
   
-  // Get RPC endpoint
-  const endpoint = useMemo(() => {
-    if (process.env.NEXT_PUBLIC_SOLANA_RPC) {
-      return process.env.NEXT_PUBLIC_SOLANA_RPC;
+  useEffect(() => {
+    const saved = localStorage.getItem(NETWORK_KEY);
+    if (saved && isEnabledNetwork(saved)) {
+      setNetworkState(saved);
     }
-    return clusterApiUrl(network);
-  }, [network]);
+  }, []);
+  
+  const setNetwork = useCallback((next: SolanaNetwork) => {
+    localStorage.setItem(NETWORK_KEY, next);
+    setNetworkState(next);
+  }, []);
+  
+  const networkState = useMemo<SolanaNetworkState>(() => ({
+    network,
+    networks: getEnabledNetworks(),
+    setNetwork,
+  }), [network, setNetwork]);
+  
+  // The wallet sends and confirms transactions on the selected network
+  const endpoint = getNetworkConfig(network).rpcEndpoint;
   
   // Initialize wallet adapters
   const wallets = useMemo(
@@ -47,13 +172,17 @@ export function SolanaProvider({ children }: { children: React.ReactNode }) {
   );
   
   return (
-    <ConnectionProvider endpoint={endpoint}>
-      <WalletProvider wallets={wallets} autoConnect>
-        <WalletModalProvider>
-          {children}
-        </WalletModalProvider>
-      </WalletProvider>
-    </ConnectionProvider>
+    <SolanaNetworkContext.Provider value={networkState}>
+      <ConnectionProvider endpoint={endpoint}>
+        <WalletProvider wallets={wallets} autoConnect>
+          <WalletModalProvider>
+            <SolanaAuthProvider>
+              {children}
+            </SolanaAuthProvider>
+          </WalletModalProvider>
+        </WalletProvider>
+      </ConnectionProvider>
+    </SolanaNetworkContext.Provider>
   );
 }
 
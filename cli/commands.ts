@@ -0,0 +1,368 @@
+/**
+ * x402 CLI Commands
+ * The list, quote and fetch commands behind cli/x402.ts, runnable in-process
+ * with their output captured
+ */
+
+import { readFile, writeFile } from 'node:fs/promises';
+import { homedir } from 'node:os';
+import { join } from 'node:path';
+import { parseArgs } from 'node:util';
+import { Connection, Keypair } from '@solana/web3.js';
+import { x402Config } from '../lib/x402-config';
+import { getEnabledNetworks, getNetworkConfig, isEnabledNetwork } from '../lib/solana-networks';
+import { keypairSigner } from '../lib/x402-signer';
+import { MockSettler, createTransferSettler, createX402Settler } from '../lib/x402-settlers';
+import {
+  X402Client,
+  X402ClientError,
+  formatPrice,
+  paymentOptions,
+  type Settler,
+  type SpendLimit,
+  type X402ClientStatus,
+} from '../lib/x402-client';
+import type { FakeLedger } from '../lib/fake-ledger';
+import type { PaidResource, ResourceList } from '../lib/x402-resources';
+import type { PaymentRequiredResponse } from '../lib/types';
+
+export const USAGE = `Usage: x402 <command> [component] [options]
+
+Commands:
+  list                    List the paid resources and their components
+  quote <component>       Show the price of a render without paying
+  fetch <component>       Pay for a render and print its UIResponse
+
+Options:
+  --url <url>             Server base URL (default: X402_BASE_URL or ${x402Config.baseUrl})
+  --keypair <file>        Solana keypair JSON file (default: X402_KEYPAIR or ~/.config/solana/id.json)
+  --network <cluster>     Solana cluster to pay on: ${getEnabledNetworks().join(', ')} (default: ${x402Config.network})
+  --rpc <url>             Solana RPC endpoint (default: the --network cluster's endpoint)
+  --config <json>         Component config sent with the request
+  --asset <symbol>        Asset to pay with, e.g. SOL or USDC (default: SOL)
+  --max-price <amount>    Refuse to pay more than this, in units of --asset, e.g. 0.01
+  --settler <name>        x402 (X-PAYMENT header, SPL assets), transfer (X-Payment-* headers) or mock
+                          (default: transfer for SOL, x402 otherwise, mock with --offline)
+  --offline               Serve the routes in-process against a fake ledger, paid by the mock settler
+  --dry-run               Print the 402 payment requirements instead of paying
+  --out <file>            Write the UIResponse to a file instead of stdout
+  -h, --help              Show this help`;
+
+const SETTLERS = ['x402', 'transfer', 'mock'];
+
+class UsageError extends Error {}
+
+/**
+ * Where the commands write: results to `out`, progress and errors to `err`
+ */
+export interface CliIO {
+  out(text: string): void;
+  err(text: string): void;
+}
+
+// Progress goes to stderr so stdout stays pipeable JSON
+const processIO: CliIO = {
+  out: (text) => console.log(text),
+  err: (text) => process.stderr.write(`${text}\n`),
+};
+
+function parseCommandLine(argv: string[]) {
+  const { values, positionals } = parseArgs({
+    args: argv,
+    allowPositionals: true,
+    options: {
+      url: { type: 'string', default: process.env.X402_BASE_URL || x402Config.baseUrl },
+      keypair: { type: 'string', default: process.env.X402_KEYPAIR || join(homedir(), '.config/solana/id.json') },
+      network: { type: 'string', default: x402Config.network },
+      rpc: { type: 'string' },
+      config: { type: 'string' },
+      asset: { type: 'string', default: 'SOL' },
+      'max-price': { type: 'string' },
+      settler: { type: 'string' },
+      offline: { type: 'boolean', default: false },
+      'dry-run': { type: 'boolean', default: false },
+      out: { type: 'string' },
+      help: { type: 'boolean', short: 'h', default: false },
+    },
+  });
+  // Standard x402 cannot pay native SOL, so SOL defaults to a direct transfer
+  const settler = values.settler ?? (values.offline ? 'mock' : values.asset === 'SOL' ? 'transfer' : 'x402');
+  if (!SETTLERS.includes(settler)) {
+    throw new UsageError(`--settler must be one of ${SETTLERS.join(', ')}`);
+  }
+  if ((settler === 'mock') !== values.offline) {
+    throw new UsageError('The mock settler only pays the --offline server, and --offline only accepts the mock settler');
+  }
+  if (!isEnabledNetwork(values.network)) {
+    throw new UsageError(`--network must be one of ${getEnabledNetworks().join(', ')}`);
+  }
+  if (values['max-price'] !== undefined && !(Number(values['max-price']) >= 0)) {
+    throw new UsageError('--max-price must be a non-negative number');
+  }
+  const [command, componentType] = positionals;
+  const rpc = values.rpc ?? getNetworkConfig(values.network).rpcEndpoint;
+  return { command, componentType, options: { ...values, settler, network: values.network, rpc } };
+}
+
+type CliOptions = ReturnType<typeof parseCommandLine>['options'];
+
+/**
+ * What a command runs with: its options, the fetch that reaches the server and the output
+ */
+interface CliContext {
+  options: CliOptions;
+  fetch: typeof fetch;
+  ledger: FakeLedger | null; // the --offline server's ledger
+  io: CliIO;
+}
+
+async function loadKeypair(file: string): Promise<Keypair> {
+  let secretKey: unknown;
+  try {
+    secretKey = JSON.parse(await readFile(file, 'utf8'));
+  } catch (error) {
+    throw new UsageError(`Cannot read keypair file ${file}: ${(error as Error).message}`);
+  }
+  if (!Array.isArray(secretKey) || secretKey.length !== 64) {
+    throw new UsageError(`${file} is not a keypair file (a JSON array of 64 secret key bytes)`);
+  }
+  return Keypair.fromSecretKey(Uint8Array.from(secretKey));
+}
+
+async function listResources({ options, fetch }: CliContext): Promise<ResourceList> {
+  const url = new URL('/api/x402/resources', options.url);
+  url.searchParams.set('network', options.network);
+  const response = await fetch(url);
+  if (!response.ok) {
+    throw new Error(`Resource discovery failed: ${response.status} ${response.statusText}`);
+  }
+  return response.json();
+}
+
+/**
+ * Finds the paid resource that renders a component, by id or alias
+ */
+async function findResource(context: CliContext, componentType: string | undefined): Promise<PaidResource> {
+  if (!componentType) {
+    throw new UsageError('Missing component, see `x402 list`');
+  }
+  const { resources } = await listResources(context);
+  const resource = resources.find((candidate) =>
+    candidate.components.some((component) =>
+      component.componentType === componentType || component.aliases.includes(componentType)
+    )
+  );
+  if (!resource) {
+    throw new UsageError(`Unknown component '${componentType}', see \`x402 list\``);
+  }
+  return resource;
+}
+
+function requestFor(resource: PaidResource, componentType: string, options: CliOptions) {
+  let config: unknown = {};
+  if (options.config !== undefined) {
+    try {
+      config = JSON.parse(options.config);
+    } catch {
+      throw new UsageError('--config must be valid JSON');
+    }
+  }
+  // Local routes are resolved against --url; external resources are called as listed
+  const url = resource.path.startsWith('/') ? new URL(resource.path, options.url) : new URL(resource.resource);
+  if (resource.method === 'GET') {
+    // GET routes take the config as query parameters
+    url.searchParams.set('componentType', componentType);
+    for (const [key, value] of Object.entries(config as Record<string, unknown>)) {
+      url.searchParams.set(key, String(value));
+    }
+  }
+  const init: RequestInit = {
+    method: resource.method,
+    headers: { 'Content-Type': 'application/json' },
+    ...(resource.method === 'POST' ? { body: JSON.stringify({ componentType, config }) } : {}),
+  };
+  return { url: url.toString(), init };
+}
+
+/**
+ * Per-call limit for --max-price, converted to the smallest unit of --asset
+ * Keyed by symbol and mint, so a renamed option is limited too
+ */
+function maxPriceLimit(resource: PaidResource, options: CliOptions): SpendLimit | undefined {
+  if (options['max-price'] === undefined) {
+    return undefined;
+  }
+  const price = resource.accepts.find((accepted) => accepted.asset === options.asset);
+  if (!price) {
+    throw new UsageError(`${resource.path} does not accept ${options.asset}`);
+  }
+  const limit = Math.floor(Number(options['max-price']) * 10 ** price.decimals);
+  return { [price.asset]: limit, [price.mint]: limit };
+}
+
+async function createSettler({ options, ledger }: CliContext): Promise<{ settler: Settler; keypair: Keypair }> {
+  if (ledger) {
+    // The fake ledger takes any payer, so a missing keypair file is not an error
+    const keypair = await loadKeypair(options.keypair).catch(() => Keypair.generate());
+    return { settler: new MockSettler(ledger), keypair };
+  }
+  const keypair = await loadKeypair(options.keypair);
+  const connection = new Connection(options.rpc, 'confirmed');
+  const settler = options.settler === 'transfer' ? createTransferSettler(connection) : createX402Settler(connection);
+  return { settler, keypair };
+}
+
+// Quotes never pay, so the settler is never asked
+const quoteOnly: Settler = {
+  name: 'quote',
+  canPay: () => false,
+  settle: () => Promise.reject(new Error('Quotes do not pay')),
+};
+
+function quoteClient({ options, fetch }: CliContext): X402Client {
+  return new X402Client({ signer: keypairSigner(Keypair.generate()), settler: quoteOnly, network: options.network, fetch });
+}
+
+function describeOptions(details: PaymentRequiredResponse): string[] {
+  if (details.options?.length) {
+    return details.options.map((option) => `${formatPrice(option.amount, option.decimals)} ${option.asset}`);
+  }
+  return (details.accepts ?? []).map((requirement) => `${requirement.maxAmountRequired} ${requirement.asset}`);
+}
+
+const statusMessages: Record<X402ClientStatus, string> = {
+  requesting: 'Requesting...',
+  signing: 'Signing payment...',
+  confirming: 'Confirming transaction...',
+  retrying: 'Retrying with payment...',
+};
+
+async function list(context: CliContext): Promise<void> {
+  const { io } = context;
+  const { network, payTo, resources } = await listResources(context);
+  io.err(`Network ${network}, paying ${payTo}`);
+  for (const resource of resources) {
+    io.out(`${resource.method} ${resource.path}  ${resource.description}`);
+    for (const component of resource.components) {
+      const prices = component.prices.map((price) => price.display).join(' or ');
+      io.out(`  ${component.componentType.padEnd(20)} ${component.tier.padEnd(8)} ${prices}`);
+    }
+  }
+}
+
+async function quote(context: CliContext, componentType: string | undefined): Promise<void> {
+  const { io } = context;
+  const resource = await findResource(context, componentType);
+  const { url, init } = requestFor(resource, componentType!, context.options);
+  const details = await quoteClient(context).quote(url, init);
+  if (!details) {
+    io.out(`${componentType} is free`);
+    return;
+  }
+  io.out(`${componentType}: ${describeOptions(details).join(' or ')}`);
+  for (const factor of details.pricing ?? []) {
+    io.out(`  x${factor.multiplier} ${factor.label}`);
+  }
+  if (details.credits !== undefined) {
+    io.out(`  or ${details.credits} credits`);
+  }
+}
+
+async function fetchComponent(context: CliContext, componentType: string | undefined): Promise<void> {
+  const { options, io } = context;
+  const resource = await findResource(context, componentType);
+  const { url, init } = requestFor(resource, componentType!, options);
+  const maxPerCall = maxPriceLimit(resource, options);
+
+  if (options['dry-run']) {
+    const details = await quoteClient(context).quote(url, init);
+    io.out(JSON.stringify(details, null, 2));
+    if (details && maxPerCall) {
+      // The amount the client would pay, checked like X402Client does
+      const price = paymentOptions(details).find((option) => option.asset === options.asset);
+      const withinLimit = price !== undefined && price.amount <= maxPerCall[options.asset]!;
+      io.err(withinLimit ? 'Within --max-price' : `Would refuse to pay: over --max-price ${options['max-price']} ${options.asset}`);
+    }
+    return;
+  }
+
+  const { settler, keypair } = await createSettler(context);
+  io.err(`Paying as ${keypair.publicKey.toBase58()} with the ${settler.name} settler`);
+  const client = new X402Client({
+    signer: keypairSigner(keypair),
+    settler,
+    network: options.network,
+    assets: [options.asset],
+    maxPerCall,
+    fetch: context.fetch,
+    onStatus: (status) => io.err(statusMessages[status]),
+  });
+  const { response, payment } = await client.request(url, init);
+  if (payment) {
+    const decimals = resource.accepts.find((price) => price.asset === payment.asset)?.decimals;
+    const amount = decimals === undefined ? `${payment.amount}` : formatPrice(payment.amount, decimals);
+    io.err(`Paid ${amount} ${payment.asset}${payment.signature ? `, signature ${payment.signature}` : ''}`);
+  }
+  if (!response.ok) {
+    const body = await response.json().catch(() => ({}));
+    throw new Error(body.error ?? `Request failed: ${response.status} ${response.statusText}`);
+  }
+
+  const output = JSON.stringify(await response.json(), null, 2);
+  if (options.out) {
+    await writeFile(options.out, `${output}\n`);
+    io.err(`Wrote ${options.out}`);
+  } else {
+    io.out(output);
+  }
+}
+
+async function run(argv: string[], io: CliIO): Promise<void> {
+  const { command, componentType, options } = parseCommandLine(argv);
+  if (options.help || !command) {
+    io.out(USAGE);
+    return;
+  }
+  let context: CliContext = { options, fetch, ledger: null, io };
+  if (options.offline) {
+    // Loaded on demand: it pulls in the route handlers
+    const { createOfflineServer } = await import('./offline');
+    const server = createOfflineServer(options.network);
+    context = { ...context, fetch: server.fetch, ledger: server.ledger };
+    io.err('Offline: serving the routes in-process against a fake ledger');
+  }
+  switch (command) {
+    case 'list':
+      return list(context);
+    case 'quote':
+      return quote(context, componentType);
+    case 'fetch':
+    case 'pay':
+      return fetchComponent(context, componentType);
+    default:
+      throw new UsageError(`Unknown command '${command}'`);
+  }
+}
+
+/**
+ * Runs a command line (without the node and script arguments); resolves to the exit code
+ */
+export async function runCli(argv: string[], io: CliIO = processIO): Promise<number> {
+  try {
+    await run(argv, io);
+    return 0;
+  } catch (error) {
+    if (error instanceof X402ClientError) {
+      io.err(`Payment failed (${error.reason}): ${error.message}`);
+      if (error.payment?.signature) {
+        io.err(`Funds may have moved, signature ${error.payment.signature}`);
+      }
+    } else {
+      io.err((error as Error).message);
+      if (error instanceof UsageError) {
+        io.err('Run with --help for usage');
+      }
+    }
+    return 1;
+  }
+}
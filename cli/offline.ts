@@ -0,0 +1,49 @@
+/**
+ * Offline Server
+ * The paid routes served in-process against a FakeLedger and the recorded
+ * markets, so `x402 --offline` lists, quotes and pays with no server or Solana
+ */
+
+import { NextRequest } from 'next/server';
+import { GET as listResources } from '../app/api/x402/resources/route';
+import { POST as renderUi } from '../app/api/render-ui/route';
+import { POST as premiumUi } from '../app/api/premium-ui/route';
+import { GET as marketsGet, POST as marketsPost } from '../app/api/markets/route';
+import { createFakePaymentNetwork, type FakeLedger } from '../lib/fake-ledger';
+import { setPaymentNetwork } from '../lib/payment-network';
+import { setMarketsFetcher } from '../lib/markets';
+import { FixtureMarketsFetcher } from '../lib/markets-fixture';
+import type { SolanaNetwork } from '../lib/x402-config';
+
+type RouteHandler = (req: NextRequest) => Promise<Response>;
+
+const routes: Record<string, Partial<Record<string, RouteHandler>>> = {
+  '/api/x402/resources': { GET: listResources },
+  '/api/render-ui': { POST: renderUi },
+  '/api/premium-ui': { POST: premiumUi },
+  '/api/markets': { GET: marketsGet, POST: marketsPost },
+};
+
+export interface OfflineServer {
+  fetch: typeof fetch; // answers any host from the routes above
+  ledger: FakeLedger; // the ledger the routes verify payments on
+}
+
+/**
+ * Points the routes at a fresh FakeLedger for `network` and returns a fetch that calls them
+ */
+export function createOfflineServer(network: SolanaNetwork): OfflineServer {
+  const paymentNetwork = createFakePaymentNetwork(network);
+  setPaymentNetwork(paymentNetwork, network);
+  setMarketsFetcher(new FixtureMarketsFetcher());
+
+  const fetchRoute = async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const request = new NextRequest(input, init as ConstructorParameters<typeof NextRequest>[1]);
+    const handler = routes[request.nextUrl.pathname]?.[request.method];
+    if (!handler) {
+      return Response.json({ error: `Not found - ${request.method} ${request.nextUrl.pathname}` }, { status: 404 });
+    }
+    return handler(request);
+  };
+  return { fetch: fetchRoute as typeof fetch, ledger: paymentNetwork.connection };
+}
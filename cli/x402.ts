@@ -0,0 +1,18 @@
+/**
+ * x402 CLI
+ * Calls the paid endpoints from scripts: lists resources, quotes prices and
+ * pays for renders with a Solana keypair file
+ *
+ *   pnpm x402 list
+ *   pnpm x402 quote grid --config '{"columns":4}'
+ *   pnpm x402 fetch grid --asset USDC --max-price 0.05 --out grid.json
+ *   pnpm x402 fetch dashboard --dry-run
+ *   pnpm x402 fetch card --offline
+ *   pnpm x402 fetch card --network devnet
+ */
+
+import { runCli } from './commands';
+
+runCli(process.argv.slice(2)).then((code) => {
+  process.exitCode = code;
+});
@@ -0,0 +1,78 @@
+/**
+ * Access Receipts
+ * Short-lived HMAC tokens issued after a payment has been verified,
+ * bound to the paid endpoint, the network paid on and the payer
+ */
+
+import { readToken, signToken } from './signed-token';
+import { x402Config, type SolanaNetwork } from './x402-config';
+
+export interface AccessReceiptClaims {
+  v: 2;
+  sig: string; // payment transaction signature
+  payer: string;
+  endpoint: string;
+  network: SolanaNetwork;
+  asset: string; // symbol of the asset paid with
+  amount: number; // amount paid, in the asset's smallest unit
+  exp: number; // ms since epoch
+}
+
+export type ReceiptRejectReason = 'MALFORMED' | 'BAD_SIGNATURE' | 'EXPIRED' | 'WRONG_ENDPOINT' | 'WRONG_NETWORK';
+
+export type ReceiptVerificationResult =
+  | { ok: true; claims: AccessReceiptClaims }
+  | { ok: false; reason: ReceiptRejectReason; message: string };
+
+/**
+ * Issues a receipt for a verified payment
+ */
+export function issueAccessReceipt(
+  { signature, payer, endpoint, network, asset, amount }: Omit<AccessReceiptClaims, 'v' | 'sig' | 'exp'> & { signature: string },
+  ttlSeconds: number = x402Config.receiptTtlSeconds,
+  now: number = Date.now()
+): { receipt: string; expiresAt: number } {
+  const claims: AccessReceiptClaims = {
+    v: 2,
+    sig: signature,
+    payer,
+    endpoint,
+    network,
+    asset,
+    amount,
+    exp: now + ttlSeconds * 1000,
+  };
+  return { receipt: signToken(claims), expiresAt: claims.exp };
+}
+
+/**
+ * Verifies a receipt's HMAC, expiry, endpoint and network binding
+ */
+export function verifyAccessReceipt(
+  receipt: string,
+  endpoint: string,
+  network: SolanaNetwork,
+  now: number = Date.now()
+): ReceiptVerificationResult {
+  const token = readToken<AccessReceiptClaims>(receipt);
+  if (!token.ok) {
+    return { ok: false, reason: token.reason, message: token.message };
+  }
+
+  const { claims } = token;
+  if (claims.v !== 2 || typeof claims.exp !== 'number' || typeof claims.amount !== 'number') {
+    return { ok: false, reason: 'MALFORMED', message: 'Receipt is malformed' };
+  }
+  if (claims.exp < now) {
+    return { ok: false, reason: 'EXPIRED', message: 'Receipt has expired' };
+  }
+  if (claims.endpoint !== endpoint) {
+    return { ok: false, reason: 'WRONG_ENDPOINT', message: `Receipt was issued for ${claims.endpoint}` };
+  }
+  // A payment on one network never unlocks a request priced on another
+  if (claims.network !== network) {
+    return { ok: false, reason: 'WRONG_NETWORK', message: `Receipt was issued for a payment on ${claims.network}` };
+  }
+
+  return { ok: true, claims };
+}
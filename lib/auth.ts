@@ -0,0 +1,146 @@
+/**
+ * Wallet Authentication
+ * Sign-In With Solana: nonce challenges, signature verification and
+ * HTTP-only session cookies bound to a verified public key
+ */
+
+import { randomBytes } from 'crypto';
+import type { NextRequest } from 'next/server';
+import { x402Config } from './x402-config';
+import { readToken, signToken } from './signed-token';
+import { verifyWalletSignature } from './wallet-signature';
+import { parseSignInMessage } from './siws';
+import { signatureLedger } from './signature-ledger';
+
+export const SESSION_COOKIE = 'x402_session';
+export const NONCE_COOKIE = 'x402_siws_nonce';
+
+interface NonceClaims {
+  v: 1;
+  kind: 'siws-nonce';
+  nonce: string;
+  exp: number; // ms since epoch
+}
+
+interface SessionClaims {
+  v: 1;
+  kind: 'siws-session';
+  sub: string; // base58 public key
+  exp: number; // ms since epoch
+}
+
+export type SignInRejectReason =
+  | 'INVALID_MESSAGE'
+  | 'WRONG_DOMAIN'
+  | 'WRONG_ADDRESS'
+  | 'MISSING_NONCE'
+  | 'NONCE_MISMATCH'
+  | 'NONCE_REUSED'
+  | 'EXPIRED'
+  | 'BAD_SIGNATURE';
+
+export type SignInResult =
+  | { ok: true; publicKey: string; session: string; expiresAt: number }
+  | { ok: false; reason: SignInRejectReason; message: string };
+
+export interface AuthSession {
+  publicKey: string;
+  expiresAt: number;
+}
+
+/**
+ * Issues a sign-in nonce and the signed cookie value that remembers it
+ */
+export function createSignInNonce(now: number = Date.now()): { nonce: string; cookie: string; expiresAt: number } {
+  const claims: NonceClaims = {
+    v: 1,
+    kind: 'siws-nonce',
+    nonce: randomBytes(16).toString('hex'),
+    exp: now + x402Config.auth.nonceTtlSeconds * 1000,
+  };
+  return { nonce: claims.nonce, cookie: signToken(claims), expiresAt: claims.exp };
+}
+
+/**
+ * Verifies a signed sign-in message against the nonce cookie and the request host
+ * The nonce is redeemed on success so a signed message cannot be replayed
+ */
+export async function verifySignIn(
+  { publicKey, message, signature }: { publicKey: string; message: string; signature: string },
+  { nonceCookie, host }: { nonceCookie: string | undefined; host: string | null },
+  now: number = Date.now()
+): Promise<SignInResult> {
+  const fields = parseSignInMessage(message);
+  if (!fields) {
+    return { ok: false, reason: 'INVALID_MESSAGE', message: 'Sign-in message is malformed' };
+  }
+  if (host && fields.domain !== host) {
+    return { ok: false, reason: 'WRONG_DOMAIN', message: `Sign-in message is for ${fields.domain}` };
+  }
+  if (fields.address !== publicKey) {
+    return { ok: false, reason: 'WRONG_ADDRESS', message: 'Sign-in message is for another account' };
+  }
+
+  const nonce = nonceCookie ? readToken<NonceClaims>(nonceCookie) : null;
+  if (!nonce?.ok || nonce.claims.kind !== 'siws-nonce') {
+    return { ok: false, reason: 'MISSING_NONCE', message: 'Request a nonce before signing in' };
+  }
+  if (nonce.claims.nonce !== fields.nonce) {
+    return { ok: false, reason: 'NONCE_MISMATCH', message: 'Sign-in message nonce does not match' };
+  }
+  const expiration = fields.expirationTime ? Date.parse(fields.expirationTime) : Infinity;
+  if (nonce.claims.exp < now || expiration < now) {
+    return { ok: false, reason: 'EXPIRED', message: 'Sign-in message has expired' };
+  }
+
+  if (!verifyWalletSignature(publicKey, message, signature)) {
+    return { ok: false, reason: 'BAD_SIGNATURE', message: 'Sign-in signature is invalid' };
+  }
+
+  const firstUse = await signatureLedger.redeem({ key: `siws:${fields.nonce}`, resource: '/api/auth/verify', payer: publicKey });
+  if (!firstUse) {
+    return { ok: false, reason: 'NONCE_REUSED', message: 'Sign-in message was already used' };
+  }
+
+  const claims: SessionClaims = {
+    v: 1,
+    kind: 'siws-session',
+    sub: publicKey,
+    exp: now + x402Config.auth.sessionTtlSeconds * 1000,
+  };
+  return { ok: true, publicKey, session: signToken(claims), expiresAt: claims.exp };
+}
+
+/**
+ * Decodes a session cookie; returns null when it is missing, forged or expired
+ */
+export function readSession(cookie: string | undefined, now: number = Date.now()): AuthSession | null {
+  if (!cookie) {
+    return null;
+  }
+  const token = readToken<SessionClaims>(cookie);
+  if (!token.ok || token.claims.v !== 1 || token.claims.kind !== 'siws-session' || token.claims.exp < now) {
+    return null;
+  }
+  return { publicKey: token.claims.sub, expiresAt: token.claims.exp };
+}
+
+/**
+ * Returns the signed-in session of a request, if any
+ */
+export function getSession(req: NextRequest): AuthSession | null {
+  return readSession(req.cookies.get(SESSION_COOKIE)?.value);
+}
+
+/**
+ * Cookie attributes shared by the session and nonce cookies
+ */
+export function authCookieOptions(expiresAt: number) {
+  return {
+    httpOnly: true,
+    secure: process.env.NODE_ENV === 'production',
+    sameSite: 'lax' as const,
+    path: '/',
+    expires: new Date(expiresAt),
+  };
+}
@@ -0,0 +1,120 @@
+/**
+ * Chart Geometry
+ * Scales, ticks, paths and value formatting for the SVG charts in
+ * app/components/charts.tsx, kept free of React
+ */
+
+import type { PieSlice } from './types';
+
+export const CHART_PALETTE = ['#2563eb', '#9333ea', '#16a34a', '#ea580c', '#db2777', '#0891b2', '#ca8a04'];
+
+export function chartColor(index: number, color?: string): string {
+  return color ?? CHART_PALETTE[index % CHART_PALETTE.length];
+}
+
+const PREFIX_UNITS = ['$', '€', '£'];
+
+/**
+ * Formats a value with its unit, abbreviating thousands and millions: $12.3K, 45%, 1,200 users
+ */
+export function formatChartValue(value: number, unit?: string): string {
+  const magnitude = Math.abs(value);
+  const number =
+    magnitude >= 1_000_000 ? `${+(value / 1_000_000).toFixed(1)}M`
+    : magnitude >= 10_000 ? `${+(value / 1_000).toFixed(1)}K`
+    : value.toLocaleString('en-US', { maximumFractionDigits: 2 });
+  if (!unit) return number;
+  if (PREFIX_UNITS.includes(unit)) return value < 0 ? `-${unit}${number.slice(1)}` : `${unit}${number}`;
+  return unit === '%' ? `${number}%` : `${number} ${unit}`;
+}
+
+export interface Ticks {
+  min: number;
+  max: number;
+  values: number[];
+}
+
+/**
+ * Round axis ticks (steps of 1, 2 or 5 × 10^n) covering [min, max], about `count` of them
+ */
+export function niceTicks(min: number, max: number, count: number = 5): Ticks {
+  if (min === max) {
+    // A flat series still needs a range to be drawn in
+    max = min === 0 ? 1 : min + Math.abs(min);
+    min = Math.min(min, 0);
+  }
+  const rough = (max - min) / Math.max(1, count - 1);
+  const power = 10 ** Math.floor(Math.log10(rough));
+  const step = [1, 2, 5, 10].map((factor) => factor * power).find((candidate) => candidate >= rough)!;
+  // Rounded to the step's decimals so 0.1 + 0.2 style drift does not reach the labels
+  const decimals = Math.max(0, -Math.floor(Math.log10(step)));
+  const round = (value: number) => Number(value.toFixed(decimals));
+  const first = Math.floor(min / step);
+  const last = Math.ceil(max / step);
+  const values = Array.from({ length: last - first + 1 }, (_, i) => round((first + i) * step));
+  return { min: values[0], max: values[values.length - 1], values };
+}
+
+/**
+ * Linear map from a domain to a range, e.g. data values to SVG y coordinates
+ */
+export function scaleLinear([d0, d1]: [number, number], [r0, r1]: [number, number]): (value: number) => number {
+  const span = d1 - d0 || 1;
+  return (value) => r0 + ((value - d0) / span) * (r1 - r0);
+}
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export function linePath(points: Point[]): string {
+  return points.map(({ x, y }, i) => `${i === 0 ? 'M' : 'L'}${x.toFixed(2)},${y.toFixed(2)}`).join(' ');
+}
+
+/**
+ * The line path closed down to `baseline`, for the filled area under it
+ */
+export function areaPath(points: Point[], baseline: number): string {
+  if (points.length === 0) return '';
+  const first = points[0];
+  const last = points[points.length - 1];
+  return `${linePath(points)} L${last.x.toFixed(2)},${baseline} L${first.x.toFixed(2)},${baseline} Z`;
+}
+
+export interface PieArc {
+  slice: PieSlice;
+  color: string;
+  share: number; // of the total, 0..1
+  path: string;
+}
+
+function polar(cx: number, cy: number, radius: number, angle: number): Point {
+  // Angles start at 12 o'clock and run clockwise
+  return { x: cx + radius * Math.sin(angle), y: cy - radius * Math.cos(angle) };
+}
+
+/**
+ * SVG paths for the slices of a pie centred on (cx, cy); zero slices get no arc
+ */
+export function pieArcs(slices: PieSlice[], cx: number, cy: number, radius: number): PieArc[] {
+  const total = slices.reduce((sum, slice) => sum + Math.max(0, slice.value), 0);
+  let angle = 0;
+  return slices.map((slice, i) => {
+    const share = total > 0 ? Math.max(0, slice.value) / total : 0;
+    const sweep = share * 2 * Math.PI;
+    const start = polar(cx, cy, radius, angle);
+    angle += sweep;
+    let path = '';
+    if (share >= 1) {
+      // A single full slice: two half arcs, an arc cannot end where it starts
+      const bottom = polar(cx, cy, radius, Math.PI);
+      path = `M${start.x},${start.y} A${radius},${radius} 0 1 1 ${bottom.x},${bottom.y} A${radius},${radius} 0 1 1 ${start.x},${start.y} Z`;
+    } else if (share > 0) {
+      const end = polar(cx, cy, radius, angle);
+      const largeArc = sweep > Math.PI ? 1 : 0;
+      path = `M${cx},${cy} L${start.x},${start.y} A${radius},${radius} 0 ${largeArc} 1 ${end.x},${end.y} Z`;
+    }
+    return { slice, color: chartColor(i, slice.color), share, path };
+  });
+}
@@ -0,0 +1,179 @@
+/**
+ * Component Generators
+ * Build the UIData for each locally rendered component from its validated config
+ * Called by the render routes after payment verification
+ */
+
+import type {
+  AdvancedGridUI,
+  AnalyticsDashboardUI,
+  CardConfig,
+  CardUI,
+  DashboardUI,
+  DataTableUI,
+  GridConfig,
+  GridUI,
+} from './types';
+
+export function generateGrid(config: GridConfig): GridUI {
+  return {
+    type: 'grid',
+    layout: {
+      columns: config.columns || 3,
+      gap: config.gap || 4,
+      items: Array.from({ length: config.itemCount || 6 }, (_, i) => ({
+        id: i + 1,
+        title: `Grid Item ${i + 1}`,
+        description: 'This is a dynamically rendered grid item',
+        color: `hsl(${(i * 60) % 360}, 70%, 50%)`,
+      })),
+    },
+  };
+}
+
+export function generateCard(config: CardConfig): CardUI {
+  return {
+    type: 'card',
+    title: config.title || 'Dynamic Card',
+    content: config.content || 'This is a dynamically rendered card component',
+    actions: config.actions || [
+      { label: 'Action 1', variant: 'primary' },
+      { label: 'Action 2', variant: 'secondary' },
+    ],
+  };
+}
+
+export function generateDashboard(): DashboardUI {
+  return {
+    type: 'dashboard',
+    widgets: [
+      { type: 'stat', label: 'Total Users', value: '1,234', trend: '+12%' },
+      { type: 'stat', label: 'Revenue', value: '$45.6K', trend: '+8%' },
+      { type: 'stat', label: 'Conversions', value: '89%', trend: '+3%' },
+      {
+        type: 'chart',
+        label: 'Activity',
+        data: [30, 40, 35, 50, 49, 60, 70],
+        labels: ['Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat', 'Sun'],
+        unit: '%',
+      },
+    ],
+  };
+}
+
+export function generateAdvancedGrid(config: GridConfig): AdvancedGridUI {
+  return {
+    type: 'advanced-grid',
+    layout: {
+      columns: config.columns || 4,
+      rows: 'auto',
+      gap: 6,
+      items: Array.from({ length: config.itemCount || 12 }, (_, i) => ({
+        id: i + 1,
+        title: `Premium Item ${i + 1}`,
+        description: 'Premium UI with advanced features',
+        image: `https://picsum.photos/seed/${i + 1}/400/300`,
+        color: `hsl(${(i * 30) % 360}, 80%, 60%)`,
+        features: ['Feature A', 'Feature B', 'Feature C'],
+        rating: (4 + Math.random()).toFixed(1),
+      })),
+    },
+    animations: true,
+    interactions: ['hover', 'click', 'drag'],
+  };
+}
+
+export function generateDataTable(): DataTableUI {
+  return {
+    type: 'data-table',
+    columns: [
+      { key: 'id', label: 'ID', sortable: true },
+      { key: 'name', label: 'Name', sortable: true },
+      { key: 'value', label: 'Value', sortable: true },
+      { key: 'status', label: 'Status', filterable: true },
+    ],
+    data: Array.from({ length: 20 }, (_, i) => ({
+      id: i + 1,
+      name: `Record ${i + 1}`,
+      value: Math.floor(Math.random() * 10000),
+      status: ['Active', 'Pending', 'Inactive'][Math.floor(Math.random() * 3)],
+    })),
+    features: ['sorting', 'filtering', 'pagination', 'export'],
+  };
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+const WEEKS = Array.from({ length: 8 }, (_, i) => `W${i + 1}`);
+
+/**
+ * A growing series with ±10% noise, e.g. trend(12, 6000, 0.04) for a year of 4% monthly growth
+ */
+function trend(length: number, start: number, growth: number, decimals: number = 0): number[] {
+  const factor = 10 ** decimals;
+  return Array.from({ length }, (_, i) => {
+    const noise = 0.9 + Math.random() * 0.2;
+    return Math.round(start * (1 + growth) ** i * noise * factor) / factor;
+  });
+}
+
+export function generateAnalyticsDashboard(): AnalyticsDashboardUI {
+  return {
+    type: 'analytics-dashboard',
+    sections: [
+      {
+        title: 'Key Metrics',
+        widgets: [
+          { type: 'metric', label: 'Total Revenue', value: '$123,456', change: '+23.5%' },
+          { type: 'metric', label: 'Active Users', value: '8,765', change: '+12.3%' },
+          { type: 'metric', label: 'Conversion Rate', value: '3.45%', change: '+0.8%' },
+          { type: 'metric', label: 'Avg. Order Value', value: '$89.23', change: '+5.2%' },
+        ],
+      },
+      {
+        title: 'Performance Charts',
+        charts: [
+          {
+            type: 'line',
+            label: 'Revenue Trend',
+            labels: MONTHS,
+            series: [
+              { name: 'Revenue', values: trend(MONTHS.length, 6_000, 0.04) },
+              { name: 'Target', values: MONTHS.map((_, i) => 6_000 + i * 300) },
+            ],
+            yAxis: { label: 'Monthly revenue', unit: '$' },
+          },
+          {
+            type: 'bar',
+            label: 'User Growth',
+            labels: WEEKS,
+            series: [
+              { name: 'New', values: trend(WEEKS.length, 420, 0.06) },
+              { name: 'Returning', values: trend(WEEKS.length, 900, 0.03) },
+            ],
+            yAxis: { label: 'Weekly users', unit: 'users' },
+          },
+          {
+            type: 'pie',
+            label: 'Traffic Sources',
+            slices: [
+              { label: 'Organic search', value: 42 },
+              { label: 'Direct', value: 24 },
+              { label: 'Referral', value: 16 },
+              { label: 'Social', value: 11 },
+              { label: 'Email', value: 7 },
+            ],
+            unit: '%',
+          },
+        ],
+      },
+      {
+        title: 'Last 30 Days',
+        charts: [
+          { type: 'sparkline', label: 'Daily Revenue', values: trend(30, 3_800, 0.01), unit: '$' },
+          { type: 'sparkline', label: 'Sign-ups', values: trend(30, 120, 0.015) },
+          { type: 'sparkline', label: 'Conversion Rate', values: trend(30, 3.1, 0.005, 2), unit: '%' },
+        ],
+      },
+    ],
+  };
+}
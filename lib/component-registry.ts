@@ -0,0 +1,199 @@
+/**
+ * Component Registry
+ * One entry per renderable component: its type id, catalog listing, tier,
+ * price, config schema and generator. The paid routes, the pricing engine
+ * and the home page catalog are all driven from it; the client registry in
+ * app/components/component-registry.tsx extends each entry with its React renderer
+ */
+
+import type { PaymentAssetSymbol, PricedEndpoint } from './x402-config';
+import {
+  generateAdvancedGrid,
+  generateAnalyticsDashboard,
+  generateCard,
+  generateDashboard,
+  generateDataTable,
+  generateGrid,
+} from './component-generators';
+import { cardConfigSchema, emptyConfigSchema, gridConfigSchema, marketsConfigSchema } from './schemas';
+import { validate, type Schema, type ValidationResult } from './validation';
+import type { ComponentType, UIConfig, UIData } from './types';
+
+export type ComponentTier = 'basic' | 'premium';
+
+export interface ComponentDefinition<K extends ComponentType = ComponentType> {
+  id: K; // the `type` of the UIData it renders
+  aliases?: string[]; // former ids still accepted in requests
+  title: string;
+  description: string;
+  tier: ComponentTier;
+  priceKey: PricedEndpoint; // route that sells the component
+  price?: Partial<Record<PaymentAssetSymbol, number>>; // overrides the mainnet route price
+  configSchema: Schema<UIConfig>;
+  exampleConfig?: UIConfig; // shown in the API docs
+  // Builds the UI from a validated config; absent for components built from fetched data, e.g. markets
+  generate?(config: UIConfig): Extract<UIData, { type: K }>;
+  example?: Extract<UIData, { type: K }>; // sample output for components without a generator
+}
+
+type ComponentRegistry = { [K in ComponentType]: ComponentDefinition<K> };
+
+// Any registry entry, with its id and generated UI still paired
+export type RegisteredComponent = ComponentRegistry[ComponentType];
+
+export const componentRegistry: ComponentRegistry = {
+  grid: {
+    id: 'grid',
+    title: 'Basic Grid',
+    description: 'Responsive grid layout',
+    tier: 'basic',
+    priceKey: '/api/render-ui',
+    configSchema: gridConfigSchema,
+    exampleConfig: { columns: 3, gap: 4, itemCount: 6 },
+    generate: generateGrid,
+  },
+  card: {
+    id: 'card',
+    title: 'Card Component',
+    description: 'Professional card UI',
+    tier: 'basic',
+    priceKey: '/api/render-ui',
+    configSchema: cardConfigSchema,
+    exampleConfig: { title: 'Test Card' },
+    generate: generateCard,
+  },
+  dashboard: {
+    id: 'dashboard',
+    title: 'Dashboard',
+    description: 'Stats dashboard',
+    tier: 'basic',
+    priceKey: '/api/render-ui',
+    configSchema: emptyConfigSchema,
+    generate: generateDashboard,
+  },
+  'advanced-grid': {
+    id: 'advanced-grid',
+    title: 'Advanced Grid',
+    description: 'Premium with animations',
+    tier: 'premium',
+    priceKey: '/api/premium-ui',
+    configSchema: gridConfigSchema,
+    exampleConfig: { columns: 4, itemCount: 12 },
+    generate: generateAdvancedGrid,
+  },
+  'data-table': {
+    id: 'data-table',
+    title: 'Data Table',
+    description: 'Sortable & filterable',
+    tier: 'premium',
+    priceKey: '/api/premium-ui',
+    configSchema: emptyConfigSchema,
+    generate: generateDataTable,
+  },
+  'analytics-dashboard': {
+    id: 'analytics-dashboard',
+    aliases: ['analytics'],
+    title: 'Analytics',
+    description: 'Complete dashboard',
+    tier: 'premium',
+    priceKey: '/api/premium-ui',
+    configSchema: emptyConfigSchema,
+    generate: generateAnalyticsDashboard,
+  },
+  markets: {
+    id: 'markets',
+    title: 'New Markets',
+    description: 'Live Polymarket data',
+    tier: 'premium',
+    priceKey: '/api/markets',
+    configSchema: marketsConfigSchema,
+    exampleConfig: { hoursBack: 24, category: 'Crypto', limit: 50 },
+    example: {
+      type: 'markets',
+      markets: [{
+        id: '0x1f3c',
+        source: 'polymarket',
+        question: 'Will SOL close above $200 on Friday?',
+        description: 'Resolves Yes if SOL/USDT closes above $200 at 12:00 ET on Friday, otherwise No.',
+        yesPrice: 0.42,
+        noPrice: 0.58,
+        yesOutcome: 'Yes',
+        noOutcome: 'No',
+        volume: 125_000,
+        liquidity: 18_500,
+        oneHourPriceChange: 0.016,
+        oneDayPriceChange: -0.022,
+        oneWeekPriceChange: 0.152,
+        spread: 0.01,
+        acceptingOrders: true,
+        polymarket: {
+          conditionId: '0xf3dc9edc50ff558f34f049e8b30a9b7965d6d74e76b174ca4e53526cbb4144d0',
+          tokenIds: ['1719628602662523835', '1690885754133873587'],
+        },
+      }],
+      meta: {
+        hoursBack: 24,
+        cutoffTime: '2025-01-01T00:00:00.000Z',
+        polymarketCount: 1,
+        totalCount: 1,
+        x402Protected: true,
+      },
+    },
+  },
+};
+
+/**
+ * Registry entries in catalog order
+ */
+export const components: RegisteredComponent[] = Object.values(componentRegistry);
+
+/**
+ * Resolves a component id or alias to its registry id
+ */
+export function resolveComponentType(value: unknown): ComponentType | null {
+  if (typeof value !== 'string') {
+    return null;
+  }
+  const definition = components.find(({ id, aliases }) => id === value || aliases?.includes(value));
+  return definition?.id ?? null;
+}
+
+export function getComponent(type: ComponentType): RegisteredComponent {
+  return componentRegistry[type];
+}
+
+/**
+ * Sample output of a component, generated from its default config
+ */
+export function sampleOutput(component: RegisteredComponent): UIData | null {
+  return component.generate?.({}) ?? component.example ?? null;
+}
+
+/**
+ * Component ids sold by a route
+ */
+export function componentsForRoute(priceKey: PricedEndpoint): ComponentType[] {
+  return components.filter((definition) => definition.priceKey === priceKey).map(({ id }) => id);
+}
+
+/**
+ * Validates a paid request body: a known componentType and a config within bounds
+ * Aliases are accepted and replaced by the registry id
+ */
+export function validateRenderRequest(
+  body: unknown,
+  allowed?: readonly ComponentType[]
+): ValidationResult<{ componentType: ComponentType; config: UIConfig }> {
+  if (typeof body !== 'object' || body === null) {
+    return { ok: false, issues: [{ path: '', message: 'Request body must be a JSON object' }] };
+  }
+  const { componentType: requested, config = {} } = body as { componentType?: unknown; config?: unknown };
+  const accepted = allowed ?? components.map(({ id }) => id);
+  const componentType = resolveComponentType(requested);
+  if (!componentType || !accepted.includes(componentType)) {
+    return { ok: false, issues: [{ path: 'componentType', message: `must be one of ${accepted.join(', ')}` }] };
+  }
+
+  const result = validate(getComponent(componentType).configSchema, config, 'config');
+  return result.ok ? { ok: true, value: { componentType, config: result.value } } : result;
+}
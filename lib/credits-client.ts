@@ -0,0 +1,71 @@
+/**
+ * Prepaid Credits - shared helpers
+ * Credit pricing and client calls to /api/credits
+ */
+
+import { x402Config, type SolanaNetwork } from './x402-config';
+import type { AssetPrice, PaymentAsset } from './payment-assets';
+
+// Opts a request into spending the signed-in wallet's credits
+export const PAY_WITH_CREDITS_HEADER = 'X-Payment-Credits';
+
+export interface CreditBalance {
+  publicKey: string;
+  network: SolanaNetwork; // credits are only spent on the network they were bought on
+  credits: number;
+}
+
+/**
+ * Credits charged for a quote, based on its default asset
+ */
+export function creditCost(prices: readonly AssetPrice[]): number {
+  const [price] = prices;
+  return Math.ceil(price.amount / x402Config.credits.value[price.asset.symbol]);
+}
+
+/**
+ * Credits bought by a payment of `amount` in the given asset
+ */
+export function creditsForPayment({ asset, amount }: AssetPrice): number {
+  return Math.floor(amount / x402Config.credits.value[asset.symbol]);
+}
+
+/**
+ * Price of the standard credit deposit offered by the payment button
+ */
+export function creditDepositPrice(asset: PaymentAsset): AssetPrice {
+  return { asset, amount: x402Config.credits.depositCredits * x402Config.credits.value[asset.symbol] };
+}
+
+/**
+ * Loads the credit balance on a network of the signed-in wallet
+ */
+export async function fetchCreditBalance(network: SolanaNetwork): Promise<CreditBalance> {
+  const query = new URLSearchParams({ network });
+  const response = await fetch(`/api/credits/balance?${query}`);
+  if (!response.ok) {
+    throw new Error('Failed to load credit balance');
+  }
+  return response.json();
+}
+
+/**
+ * Credits the payer of a confirmed deposit transaction
+ */
+export async function submitCreditDeposit(params: {
+  signature: string;
+  publicKey: string;
+  asset: string;
+  network: SolanaNetwork;
+}): Promise<CreditBalance & { deposited: number }> {
+  const response = await fetch('/api/credits/deposit', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({ ...params, timestamp: Date.now() }),
+  });
+  const data = await response.json();
+  if (!response.ok) {
+    throw new Error(data.error || 'Deposit failed');
+  }
+  return data;
+}
@@ -0,0 +1,106 @@
+/**
+ * Prepaid Credits
+ * Balances bought with one on-chain deposit and spent by paid renders
+ * of the signed-in wallet, kept separately per network
+ */
+
+import { JsonFileStore, recordCodec, storeFilePath } from './json-file-store';
+import { x402Config, type SolanaNetwork } from './x402-config';
+
+/**
+ * Storage backend for credit balances
+ * `adjust` must be atomic: it returns null and leaves the balance unchanged
+ * when the adjustment would make it negative
+ */
+export interface CreditStore {
+  balance(payer: string): Promise<number>;
+  adjust(payer: string, delta: number): Promise<number | null>;
+}
+
+/**
+ * Store key of a payer's balance on a network
+ */
+function accountKey(payer: string, network: SolanaNetwork): string {
+  return `${network}:${payer}`;
+}
+
+/**
+ * Keeps balances keyed by network and payer in `filePath`, or only in memory when it is null
+ */
+export class FileCreditStore implements CreditStore {
+  private readonly file: JsonFileStore<Map<string, number>>;
+
+  constructor(filePath: string | null) {
+    this.file = new JsonFileStore(filePath, recordCodec<number>());
+  }
+
+  async balance(payer: string): Promise<number> {
+    return (await this.file.read()).get(payer) ?? 0;
+  }
+
+  adjust(payer: string, delta: number): Promise<number | null> {
+    return this.file.update((balances) => {
+      const next = (balances.get(payer) ?? 0) + delta;
+      if (next < 0) {
+        return null;
+      }
+      balances.set(payer, next);
+      return next;
+    });
+  }
+}
+
+export type CreditSpendResult =
+  | { ok: true; spent: number; balance: number }
+  | { ok: false; reason: 'INSUFFICIENT_CREDITS'; message: string; balance: number };
+
+/**
+ * Deposits, spends and refunds credits for a payer on a network
+ * Credits bought on one network are only spent on that network
+ */
+export class CreditLedger {
+  constructor(private readonly store: CreditStore) {}
+
+  balance(payer: string, network: SolanaNetwork = x402Config.network): Promise<number> {
+    return this.store.balance(accountKey(payer, network));
+  }
+
+  /**
+   * Adds credits bought by a verified deposit; returns the new balance
+   */
+  async deposit(payer: string, credits: number, network: SolanaNetwork = x402Config.network): Promise<number> {
+    return (await this.store.adjust(accountKey(payer, network), credits)) ?? 0;
+  }
+
+  async spend(payer: string, credits: number, network: SolanaNetwork = x402Config.network): Promise<CreditSpendResult> {
+    const key = accountKey(payer, network);
+    const balance = await this.store.adjust(key, -credits);
+    if (balance === null) {
+      const current = await this.store.balance(key);
+      return {
+        ok: false,
+        reason: 'INSUFFICIENT_CREDITS',
+        message: `Request costs ${credits} credits, balance is ${current}`,
+        balance: current,
+      };
+    }
+    return { ok: true, spent: credits, balance };
+  }
+
+  /**
+   * Returns credits spent on a request that could not be served
+   */
+  async refund(payer: string, credits: number, network: SolanaNetwork = x402Config.network): Promise<number> {
+    return this.deposit(payer, credits, network);
+  }
+}
+
+/**
+ * Creates the credit ledger used by the API routes
+ * Uses a file store when X402_CREDITS_FILE is set, otherwise keeps balances in memory
+ */
+export function createCreditLedger(): CreditLedger {
+  return new CreditLedger(new FileCreditStore(storeFilePath('X402_CREDITS_FILE')));
+}
+
+export const creditLedger = createCreditLedger();
@@ -0,0 +1,147 @@
+/**
+ * Data Table
+ * Sorting, filtering, pagination and export of DataTableUI rows, kept
+ * free of React so the renderer only holds the table state
+ */
+
+import type { DataColumn, DataTableUI } from './types';
+
+export type DataTableFeature = 'sorting' | 'filtering' | 'pagination' | 'export';
+
+export type DataRow = DataTableUI['data'][number];
+export type CellValue = DataRow[string];
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface SortState {
+  key: string;
+  direction: SortDirection;
+}
+
+export interface FilterState {
+  search: string; // matched against every column, case-insensitive
+  columns: Record<string, string>; // exact value per filterable column, '' for any
+}
+
+export const PAGE_SIZES = [10, 20, 50, 100];
+
+/**
+ * Whether a table enables a capability; unknown features are ignored
+ */
+export function hasFeature(table: DataTableUI, feature: DataTableFeature): boolean {
+  return table.features.includes(feature);
+}
+
+type Comparator = (a: CellValue | undefined, b: CellValue | undefined) => number;
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: 'base' });
+
+const compareNumbers: Comparator = (a, b) => Number(a) - Number(b);
+const compareStrings: Comparator = (a, b) => collator.compare(String(a), String(b));
+
+/**
+ * Comparator for a column: numeric when every present value is a number, natural string order otherwise
+ * Missing values sort last in either direction
+ */
+function comparatorFor(rows: DataRow[], key: string): Comparator {
+  const values = rows.map((row) => row[key]).filter((value) => value !== undefined);
+  return values.every((value) => typeof value === 'number') ? compareNumbers : compareStrings;
+}
+
+/**
+ * Returns the rows sorted by a column; the sort is stable, so equal rows keep their order
+ */
+export function sortRows(rows: DataRow[], sort: SortState | null): DataRow[] {
+  if (!sort) {
+    return rows;
+  }
+  const compare = comparatorFor(rows, sort.key);
+  const sign = sort.direction === 'asc' ? 1 : -1;
+  return [...rows].sort((a, b) => {
+    const left = a[sort.key];
+    const right = b[sort.key];
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    return sign * compare(left, right);
+  });
+}
+
+/**
+ * Next sort after clicking a column header: ascending, descending, then unsorted
+ */
+export function nextSort(sort: SortState | null, key: string): SortState | null {
+  if (sort?.key !== key) {
+    return { key, direction: 'asc' };
+  }
+  return sort.direction === 'asc' ? { key, direction: 'desc' } : null;
+}
+
+/**
+ * Distinct values of a column, in natural order, for its filter options
+ */
+export function columnValues(rows: DataRow[], key: string): string[] {
+  const values = new Set<string>();
+  for (const row of rows) {
+    if (row[key] !== undefined) {
+      values.add(String(row[key]));
+    }
+  }
+  return [...values].sort(collator.compare);
+}
+
+/**
+ * Returns the rows matching the global search and every column filter
+ */
+export function filterRows(rows: DataRow[], columns: DataColumn[], filter: FilterState): DataRow[] {
+  const search = filter.search.trim().toLowerCase();
+  const columnFilters = Object.entries(filter.columns).filter(([, value]) => value !== '');
+  if (!search && columnFilters.length === 0) {
+    return rows;
+  }
+  return rows.filter((row) =>
+    columnFilters.every(([key, value]) => String(row[key] ?? '') === value) &&
+    (!search || columns.some((column) => String(row[column.key] ?? '').toLowerCase().includes(search)))
+  );
+}
+
+export interface Page {
+  rows: DataRow[];
+  page: number; // zero-based, clamped to the last page
+  pageCount: number;
+  start: number; // index of the first row shown, for "1–10 of 20"
+}
+
+export function paginate(rows: DataRow[], page: number, pageSize: number): Page {
+  const pageCount = Math.max(1, Math.ceil(rows.length / pageSize));
+  const current = Math.min(Math.max(page, 0), pageCount - 1);
+  const start = current * pageSize;
+  return { rows: rows.slice(start, start + pageSize), page: current, pageCount, start };
+}
+
+// Quotes fields with separators, quotes or line breaks (RFC 4180)
+function csvField(value: CellValue | undefined): string {
+  const text = value === undefined ? '' : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Serializes rows as CSV, with the column labels as header
+ */
+export function toCSV(columns: DataColumn[], rows: DataRow[]): string {
+  const lines = [
+    columns.map((column) => csvField(column.label)),
+    ...rows.map((row) => columns.map((column) => csvField(row[column.key]))),
+  ];
+  return lines.map((fields) => fields.join(',')).join('\r\n');
+}
+
+/**
+ * Serializes rows as a JSON array, keeping only the table's columns
+ */
+export function toJSON(columns: DataColumn[], rows: DataRow[]): string {
+  const projected = rows.map((row) =>
+    Object.fromEntries(columns.filter((column) => row[column.key] !== undefined).map((column) => [column.key, row[column.key]]))
+  );
+  return JSON.stringify(projected, null, 2);
+}
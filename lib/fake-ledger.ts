@@ -0,0 +1,318 @@
+/**
+ * Fake Ledger
+ * In-memory stand-in for Solana and the x402 facilitator, for tests and
+ * offline development: mints confirmed, failed and underpaid transfers that
+ * the payment verification reads back like on-chain transactions. One
+ * ledger stands for one network; give each network its own to test them apart
+ */
+
+import {
+  Keypair,
+  PublicKey,
+  SystemProgram,
+  VersionedTransaction,
+  type AccountInfo,
+  type ParsedInstruction,
+  type ParsedTransactionWithMeta,
+  type TokenBalance,
+} from '@solana/web3.js';
+import {
+  MINT_SIZE,
+  MintLayout,
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  TokenInstruction,
+  getAssociatedTokenAddressSync,
+} from '@solana/spl-token';
+import type { PaymentRequirements, SettleResponse, VerifyResponse } from 'x402-solana/types';
+import { x402Config, type SolanaNetwork } from './x402-config';
+import { findPaymentAsset } from './payment-assets';
+import { getNetworkConfig } from './solana-networks';
+import type { Facilitator, PaymentConnection, PaymentNetwork } from './payment-network';
+import type { X402TransactionConnection } from './solana-payment';
+
+export interface FakeTransferParams {
+  from: PublicKey | string;
+  to?: PublicKey | string; // defaults to the payTo of the ledger's network
+  amount: number; // in the asset's smallest unit
+  mint?: string; // SPL token mint; omit for native SOL
+  blockTime?: number; // seconds, defaults to now
+}
+
+// Random base58 strings shaped like transaction signatures and blockhashes
+function randomBase58(): string {
+  return Keypair.generate().publicKey.toBase58();
+}
+
+function toBase58(key: PublicKey | string): string {
+  return typeof key === 'string' ? key : key.toBase58();
+}
+
+function tokenBalance(accountIndex: number, owner: string, mint: string, amount: bigint, decimals: number): TokenBalance {
+  return {
+    accountIndex,
+    mint,
+    owner,
+    programId: TOKEN_PROGRAM_ID.toBase58(),
+    uiTokenAmount: {
+      amount: amount.toString(),
+      decimals,
+      uiAmount: Number(amount) / 10 ** decimals,
+      uiAmountString: String(Number(amount) / 10 ** decimals),
+    },
+  };
+}
+
+/**
+ * In-memory ledger of parsed transactions on one network
+ * Also answers the Connection calls that build payment transactions
+ * (getLatestBlockhash, getAccountInfo for the network's mints)
+ */
+export class FakeLedger implements PaymentConnection, X402TransactionConnection {
+  private readonly transactions = new Map<string, ParsedTransactionWithMeta>();
+  private slot = 1;
+
+  constructor(
+    readonly network: SolanaNetwork = x402Config.network,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Records a successful transfer and returns its signature
+   */
+  confirmTransfer(params: FakeTransferParams): string {
+    return this.record(params, false);
+  }
+
+  /**
+   * Records a transfer that failed on-chain
+   */
+  failTransfer(params: FakeTransferParams): string {
+    return this.record(params, true);
+  }
+
+  /**
+   * Records a successful transfer of `shortfall` less than `amount`
+   */
+  underpayTransfer(params: FakeTransferParams, shortfall: number = 1): string {
+    return this.record({ ...params, amount: params.amount - shortfall }, false);
+  }
+
+  async getParsedTransaction(signature: string): Promise<ParsedTransactionWithMeta | null> {
+    return this.transactions.get(signature) ?? null;
+  }
+
+  async getLatestBlockhash(): Promise<{ blockhash: string; lastValidBlockHeight: number }> {
+    return { blockhash: randomBase58(), lastValidBlockHeight: this.slot + 150 };
+  }
+
+  /**
+   * Mint accounts of the network's SPL assets; every other account is missing
+   */
+  async getAccountInfo(address: PublicKey): Promise<AccountInfo<Buffer> | null> {
+    const asset = findPaymentAsset(address.toBase58(), this.network);
+    if (!asset || asset.native) {
+      return null;
+    }
+    const data = Buffer.alloc(MINT_SIZE);
+    MintLayout.encode(
+      {
+        mintAuthorityOption: 0,
+        mintAuthority: PublicKey.default,
+        supply: BigInt(0),
+        decimals: asset.decimals,
+        isInitialized: true,
+        freezeAuthorityOption: 0,
+        freezeAuthority: PublicKey.default,
+      },
+      data
+    );
+    return { data, owner: TOKEN_PROGRAM_ID, lamports: 1_461_600, executable: false, rentEpoch: 0 };
+  }
+
+  private record({ from, to = getNetworkConfig(this.network).payTo, amount, mint, blockTime }: FakeTransferParams, failed: boolean): string {
+    const signature = `${randomBase58()}${randomBase58()}`;
+    const sender = toBase58(from);
+    const recipient = toBase58(to);
+    const time = blockTime ?? Math.floor(this.now() / 1000);
+
+    let instruction: ParsedInstruction;
+    let accountKeys: string[];
+    let preTokenBalances: TokenBalance[] = [];
+    let postTokenBalances: TokenBalance[] = [];
+    if (mint) {
+      const decimals = findPaymentAsset(mint, this.network)?.decimals ?? 6;
+      const mintKey = new PublicKey(mint);
+      const source = getAssociatedTokenAddressSync(mintKey, new PublicKey(sender), true).toBase58();
+      const destination = getAssociatedTokenAddressSync(mintKey, new PublicKey(recipient), true).toBase58();
+      accountKeys = [sender, source, destination, mint, TOKEN_PROGRAM_ID.toBase58()];
+      instruction = {
+        programId: TOKEN_PROGRAM_ID,
+        program: 'spl-token',
+        parsed: {
+          type: 'transferChecked',
+          info: { source, destination, mint, authority: sender, tokenAmount: { amount: String(amount), decimals } },
+        },
+      };
+      const sent = failed ? BigInt(0) : BigInt(amount);
+      preTokenBalances = [tokenBalance(1, sender, mint, BigInt(amount), decimals), tokenBalance(2, recipient, mint, BigInt(0), decimals)];
+      postTokenBalances = [tokenBalance(1, sender, mint, BigInt(amount) - sent, decimals), tokenBalance(2, recipient, mint, sent, decimals)];
+    } else {
+      accountKeys = [sender, recipient, SystemProgram.programId.toBase58()];
+      instruction = {
+        programId: SystemProgram.programId,
+        program: 'system',
+        parsed: { type: 'transfer', info: { source: sender, destination: recipient, lamports: amount } },
+      };
+    }
+
+    this.transactions.set(signature, {
+      slot: this.slot++,
+      blockTime: time,
+      version: 0,
+      transaction: {
+        signatures: [signature],
+        message: {
+          accountKeys: accountKeys.map((key, index) => ({
+            pubkey: new PublicKey(key),
+            signer: index === 0,
+            writable: index < 3,
+            source: 'transaction',
+          })),
+          instructions: [instruction],
+          recentBlockhash: randomBase58(),
+        },
+      },
+      meta: {
+        err: failed ? { InstructionError: [0, 'Custom'] } : null,
+        fee: 5_000,
+        preBalances: accountKeys.map(() => 0),
+        postBalances: accountKeys.map(() => 0),
+        innerInstructions: [],
+        preTokenBalances,
+        postTokenBalances,
+        logMessages: [],
+      },
+    });
+    return signature;
+  }
+}
+
+interface DecodedPayment {
+  network: string; // x402 network the payload was signed for
+  payer: string;
+  mint: string;
+  destination: string;
+  amount: bigint;
+  programId: PublicKey;
+}
+
+/**
+ * Reads the transferChecked instruction out of an X-PAYMENT header
+ */
+function decodePayment(paymentHeader: string): DecodedPayment | null {
+  try {
+    const payload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf8'));
+    const transaction = VersionedTransaction.deserialize(Buffer.from(payload.payload.transaction, 'base64'));
+    const keys = transaction.message.staticAccountKeys;
+    for (const instruction of transaction.message.compiledInstructions) {
+      const programId = keys[instruction.programIdIndex];
+      const isToken = programId.equals(TOKEN_PROGRAM_ID) || programId.equals(TOKEN_2022_PROGRAM_ID);
+      if (!isToken || instruction.data[0] !== TokenInstruction.TransferChecked) {
+        continue;
+      }
+      const [, mint, destination, owner] = instruction.accountKeyIndexes.map((index) => keys[index]);
+      // The owner must have signed; an all-zero signature is a missing one
+      const signerIndex = keys.findIndex((key) => key.equals(owner));
+      const signature = transaction.signatures[signerIndex];
+      if (signerIndex >= transaction.message.header.numRequiredSignatures || !signature?.some((byte) => byte !== 0)) {
+        return null;
+      }
+      return {
+        network: payload.network,
+        payer: owner.toBase58(),
+        mint: mint.toBase58(),
+        destination: destination.toBase58(),
+        amount: Buffer.from(instruction.data).readBigUInt64LE(1),
+        programId,
+      };
+    }
+    return null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Facilitator that checks X-PAYMENT transactions locally and settles them
+ * by recording a confirmed transfer in a FakeLedger
+ */
+export class FakeFacilitator implements Facilitator {
+  readonly feePayer = Keypair.generate().publicKey.toBase58();
+  readonly settled: SettleResponse[] = [];
+  private failures = 0;
+
+  constructor(private readonly ledger: FakeLedger) {}
+
+  /**
+   * Makes the next `count` settlements fail, as when the facilitator is down
+   */
+  failNextSettlements(count: number = 1): void {
+    this.failures = count;
+  }
+
+  async getFeePayer(): Promise<string> {
+    return this.feePayer;
+  }
+
+  async verifyPayment(paymentHeader: string, requirements: PaymentRequirements): Promise<VerifyResponse> {
+    const payment = decodePayment(paymentHeader);
+    if (!payment) {
+      return { isValid: false, invalidReason: 'invalid_exact_svm_payload_transaction' };
+    }
+    if (payment.network !== requirements.network) {
+      return { isValid: false, invalidReason: 'invalid_network', payer: payment.payer };
+    }
+    const mint = new PublicKey(requirements.asset);
+    const expected = getAssociatedTokenAddressSync(mint, new PublicKey(requirements.payTo), true, payment.programId);
+    if (payment.mint !== requirements.asset || payment.destination !== expected.toBase58()) {
+      return { isValid: false, invalidReason: 'invalid_exact_svm_payload_transaction_transfer_to_incorrect_ata', payer: payment.payer };
+    }
+    if (payment.amount < BigInt(requirements.maxAmountRequired)) {
+      return { isValid: false, invalidReason: 'invalid_exact_svm_payload_transaction_amount_mismatch', payer: payment.payer };
+    }
+    return { isValid: true, payer: payment.payer };
+  }
+
+  async settlePayment(paymentHeader: string, requirements: PaymentRequirements): Promise<SettleResponse> {
+    const network = requirements.network as SettleResponse['network'];
+    if (this.failures > 0) {
+      this.failures--;
+      return { success: false, errorReason: 'unexpected_settle_error', transaction: '', network };
+    }
+    const verification = await this.verifyPayment(paymentHeader, requirements);
+    const payment = decodePayment(paymentHeader);
+    if (!verification.isValid || !payment) {
+      return { success: false, errorReason: verification.invalidReason, transaction: '', network };
+    }
+    const transaction = this.ledger.confirmTransfer({
+      from: payment.payer,
+      to: requirements.payTo,
+      amount: Number(payment.amount),
+      mint: payment.mint,
+    });
+    const response: SettleResponse = { success: true, payer: payment.payer, transaction, network };
+    this.settled.push(response);
+    return response;
+  }
+}
+
+/**
+ * A payment network backed by a fresh FakeLedger, for setPaymentNetwork()
+ */
+export function createFakePaymentNetwork(
+  network: SolanaNetwork = x402Config.network
+): PaymentNetwork & { connection: FakeLedger; facilitator: FakeFacilitator } {
+  const ledger = new FakeLedger(network);
+  return { connection: ledger, facilitator: new FakeFacilitator(ledger) };
+}
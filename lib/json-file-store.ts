@@ -0,0 +1,124 @@
+/**
+ * JSON File Store
+ * State held in memory and, given a file, persisted to it as JSON; the base
+ * of the signature, settlement, credit, payment log and render stores
+ */
+
+import { promises as fs } from 'fs';
+import path from 'path';
+
+/**
+ * Converts a store's state to and from its JSON file contents
+ */
+export interface JsonCodec<S> {
+  empty(): S;
+  parse(json: unknown): S;
+  serialize(state: S): unknown;
+}
+
+/**
+ * Records keyed by `keyOf`, written as a JSON list
+ */
+export function keyedListCodec<T>(keyOf: (record: T) => string): JsonCodec<Map<string, T>> {
+  return {
+    empty: () => new Map(),
+    parse: (json) => new Map((json as T[]).map((record) => [keyOf(record), record])),
+    serialize: (records) => [...records.values()],
+  };
+}
+
+/**
+ * Values keyed by string, written as a JSON object
+ */
+export function recordCodec<T>(): JsonCodec<Map<string, T>> {
+  return {
+    empty: () => new Map(),
+    parse: (json) => new Map(Object.entries(json as Record<string, T>)),
+    serialize: (values) => Object.fromEntries(values),
+  };
+}
+
+/**
+ * Records in insertion order, written as a JSON list
+ */
+export function listCodec<T>(): JsonCodec<T[]> {
+  return {
+    empty: () => [],
+    parse: (json) => json as T[],
+    serialize: (records) => records,
+  };
+}
+
+/**
+ * Serialized read-modify-write access to a JSON file, or to memory when `filePath` is null
+ * Updates run one at a time, so a check and the write it decides on cannot
+ * interleave with another update; each write replaces the file through a rename
+ */
+export class JsonFileStore<S> {
+  private state: S | null = null;
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(
+    private readonly filePath: string | null,
+    private readonly codec: JsonCodec<S>
+  ) {}
+
+  /**
+   * The current state; do not mutate it outside update()
+   */
+  read(): Promise<S> {
+    return this.load();
+  }
+
+  /**
+   * Applies `mutate` to the state and persists it; resolves to what `mutate` returns
+   */
+  update<R>(mutate: (state: S) => R): Promise<R> {
+    const result = this.queue.then(async () => {
+      const state = await this.load();
+      const value = mutate(state);
+      await this.persist(state);
+      return value;
+    });
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<S> {
+    if (this.state) {
+      return this.state;
+    }
+    if (!this.filePath) {
+      this.state = this.codec.empty();
+      return this.state;
+    }
+    try {
+      const raw = await fs.readFile(this.filePath, 'utf8');
+      this.state = this.codec.parse(JSON.parse(raw));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+      this.state = this.codec.empty();
+    }
+    return this.state;
+  }
+
+  private async persist(state: S): Promise<void> {
+    if (!this.filePath) {
+      return;
+    }
+    await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const tmpPath = `${this.filePath}.tmp`;
+    await fs.writeFile(tmpPath, JSON.stringify(this.codec.serialize(state), null, 2));
+    await fs.rename(tmpPath, this.filePath);
+  }
+}
+
+/**
+ * The absolute path named by an environment variable, or null to keep a store in memory
+ */
+export function storeFilePath(envVar: string): string | null {
+  const filePath = process.env[envVar];
+  return filePath ? path.resolve(filePath) : null;
+}
@@ -0,0 +1,191 @@
+/**
+ * Markets Explorer
+ * Search, filters, sorting, list windowing and market detail for MarketsUI,
+ * kept free of React so the renderer only holds the explorer state
+ */
+
+import type { LineChart, MarketData } from './types';
+
+export type MarketSortKey = 'volume' | 'liquidity' | 'change1h' | 'change1d' | 'change1w' | 'closing';
+
+export type SortDirection = 'asc' | 'desc';
+
+export interface MarketSort {
+  key: MarketSortKey;
+  direction: SortDirection;
+}
+
+export interface NumberRange {
+  min?: number;
+  max?: number;
+}
+
+export interface MarketFilters {
+  search: string; // matched against question and title, case-insensitive
+  categories: string[]; // any of these, empty for all
+  yesPrice: NumberRange; // 0..1
+  liquidity: NumberRange; // USD
+  acceptingOrdersOnly: boolean;
+}
+
+export const emptyMarketFilters: MarketFilters = {
+  search: '',
+  categories: [],
+  yesPrice: {},
+  liquidity: {},
+  acceptingOrdersOnly: false,
+};
+
+export const marketSortOptions: { key: MarketSortKey; label: string; direction: SortDirection }[] = [
+  { key: 'volume', label: 'Volume', direction: 'desc' },
+  { key: 'liquidity', label: 'Liquidity', direction: 'desc' },
+  { key: 'change1h', label: '1h change', direction: 'desc' },
+  { key: 'change1d', label: '1d change', direction: 'desc' },
+  { key: 'change1w', label: '1w change', direction: 'desc' },
+  { key: 'closing', label: 'Closing soonest', direction: 'asc' },
+];
+
+// The value each sort orders by; undefined values sort last in either direction
+const sortValues: Record<MarketSortKey, (market: MarketData) => number | undefined> = {
+  volume: (market) => market.volume,
+  liquidity: (market) => market.liquidity,
+  change1h: (market) => market.oneHourPriceChange,
+  change1d: (market) => market.oneDayPriceChange,
+  change1w: (market) => market.oneWeekPriceChange,
+  closing: (market) => {
+    const time = market.closeTime ? Date.parse(market.closeTime) : NaN;
+    return Number.isNaN(time) ? undefined : time;
+  },
+};
+
+/**
+ * Categories in the dataset with their market counts, most common first
+ */
+export function marketCategories(markets: MarketData[]): { category: string; count: number }[] {
+  const counts = new Map<string, number>();
+  for (const market of markets) {
+    if (market.category) {
+      counts.set(market.category, (counts.get(market.category) ?? 0) + 1);
+    }
+  }
+  return [...counts]
+    .map(([category, count]) => ({ category, count }))
+    .sort((a, b) => b.count - a.count || a.category.localeCompare(b.category));
+}
+
+function inRange(value: number, { min, max }: NumberRange): boolean {
+  return (min === undefined || value >= min) && (max === undefined || value <= max);
+}
+
+/**
+ * Returns the markets matching every filter
+ */
+export function filterMarkets(markets: MarketData[], filters: MarketFilters): MarketData[] {
+  const search = filters.search.trim().toLowerCase();
+  return markets.filter((market) =>
+    (!search || market.question.toLowerCase().includes(search) || !!market.title?.toLowerCase().includes(search)) &&
+    (filters.categories.length === 0 || (!!market.category && filters.categories.includes(market.category))) &&
+    inRange(market.yesPrice, filters.yesPrice) &&
+    inRange(market.liquidity, filters.liquidity) &&
+    (!filters.acceptingOrdersOnly || market.acceptingOrders === true)
+  );
+}
+
+/**
+ * Returns the markets sorted; the sort is stable, so ties keep the API order
+ */
+export function sortMarkets(markets: MarketData[], { key, direction }: MarketSort): MarketData[] {
+  const value = sortValues[key];
+  const sign = direction === 'asc' ? 1 : -1;
+  return [...markets].sort((a, b) => {
+    const left = value(a);
+    const right = value(b);
+    if (left === undefined || right === undefined) {
+      return left === right ? 0 : left === undefined ? 1 : -1;
+    }
+    return sign * (left - right);
+  });
+}
+
+/**
+ * Number of filters that narrow the list, for the "Clear filters" control
+ */
+export function activeFilterCount(filters: MarketFilters): number {
+  return [
+    filters.search.trim() !== '',
+    filters.categories.length > 0,
+    filters.yesPrice.min !== undefined || filters.yesPrice.max !== undefined,
+    filters.liquidity.min !== undefined || filters.liquidity.max !== undefined,
+    filters.acceptingOrdersOnly,
+  ].filter(Boolean).length;
+}
+
+export interface VisibleRange {
+  start: number; // first rendered index
+  end: number; // one past the last rendered index
+}
+
+/**
+ * Rows of a fixed-height list to render for a scroll position, with
+ * `overscan` extra rows on each side so fast scrolling does not flash blank
+ */
+export function visibleRange(
+  scrollTop: number,
+  viewportHeight: number,
+  rowHeight: number,
+  count: number,
+  overscan: number = 3
+): VisibleRange {
+  const start = Math.max(0, Math.floor(scrollTop / rowHeight) - overscan);
+  const end = Math.min(count, Math.ceil((scrollTop + viewportHeight) / rowHeight) + overscan);
+  return { start, end: Math.max(start, end) };
+}
+
+export interface OutcomeOdds {
+  label: string;
+  price: number; // 0..1
+  probability: number; // 0..1, the two outcomes sum to 1
+}
+
+/**
+ * Both outcomes with their implied probabilities; quoted prices can sum to
+ * slightly more or less than 1, so they are normalized
+ */
+export function outcomeOdds(market: MarketData): [OutcomeOdds, OutcomeOdds] {
+  const total = market.yesPrice + market.noPrice;
+  const probability = (price: number) => (total > 0 ? price / total : 0.5);
+  return [
+    { label: market.yesOutcome ?? 'Yes', price: market.yesPrice, probability: probability(market.yesPrice) },
+    { label: market.noOutcome ?? 'No', price: market.noPrice, probability: probability(market.noPrice) },
+  ];
+}
+
+// Oldest first, so the chart reads left to right
+const priceWindows: { label: string; change: (market: MarketData) => number | undefined }[] = [
+  { label: '1w ago', change: (market) => market.oneWeekPriceChange },
+  { label: '1d ago', change: (market) => market.oneDayPriceChange },
+  { label: '1h ago', change: (market) => market.oneHourPriceChange },
+];
+
+/**
+ * The first outcome's price a week, a day and an hour ago, rebuilt from its
+ * price changes, then now; windows without a change are left out, and null
+ * is returned when no change is known
+ */
+export function priceHistory(market: MarketData): LineChart | null {
+  const known = priceWindows.filter((window) => window.change(market) !== undefined);
+  if (known.length === 0) {
+    return null;
+  }
+  const percent = (price: number) => +(Math.min(1, Math.max(0, price)) * 100).toFixed(1);
+  return {
+    type: 'line',
+    label: `${market.yesOutcome ?? 'Yes'} price history`,
+    labels: [...known.map(({ label }) => label), 'Now'],
+    series: [{
+      name: market.yesOutcome ?? 'Yes',
+      values: [...known.map(({ change }) => percent(market.yesPrice - change(market)!)), percent(market.yesPrice)],
+    }],
+    yAxis: { unit: '%' },
+  };
+}
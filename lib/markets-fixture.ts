@@ -0,0 +1,530 @@
+/**
+ * Markets Fixture
+ * A recorded response of the new-markets upstream and a fetcher serving it,
+ * so /api/markets runs offline (MARKETS_UPSTREAM=fixture) and in tests
+ */
+
+import type { MarketsFetcher } from './markets';
+
+// Recorded at RECORDED_AT with hoursBack=48
+export const RECORDED_AT = '2025-06-02T12:00:00.000Z';
+
+export const recordedNewMarkets = {
+  markets: [
+    {
+      id: '501000',
+      source: 'polymarket',
+      question: 'Will SOL close above $200 on June 6?',
+      description: 'Resolves Yes if the Binance SOL/USDT 1 minute candle for 12:00 ET on June 6 closes above $200, otherwise No.',
+      category: 'Crypto',
+      yesPrice: 0.42,
+      noPrice: 0.58,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 125000,
+      volume24h: 20040,
+      liquidity: 18500,
+      oneHourPriceChange: 0.016,
+      oneDayPriceChange: -0.022,
+      oneWeekPriceChange: 0.152,
+      spread: 0.01,
+      openTime: '2025-06-02T09:00:00.000Z',
+      closeTime: '2025-06-06T12:00:00.000Z',
+      createdAt: '2025-06-02T09:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0xf3dc9edc50ff558f34f049e8b30a9b7965d6d74e76b174ca4e53526cbb4144d0',
+        tokenIds: [
+          '17196286026625238350069647847248281101204048722950875192340586246032534636395',
+          '16908857541338735877573311417859161743626474697905979849475727490897451693945',
+        ],
+        slug: 'sol-above-200-june-6',
+        eventId: '31000',
+        eventSlug: 'sol-above-200-june-6',
+        eventTitle: 'Solana price on June 6',
+      },
+    },
+    {
+      id: '501037',
+      source: 'polymarket',
+      question: 'Will Bitcoin reach $120K in June?',
+      description: 'Resolves Yes if any Binance BTC/USDT 1 minute candle between June 1 and June 30, 11:59 PM ET has a high of $120,000 or more, otherwise No.',
+      category: 'Crypto',
+      yesPrice: 0.18,
+      noPrice: 0.82,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 842000,
+      volume24h: 210772,
+      liquidity: 96000,
+      oneHourPriceChange: -0.027,
+      oneDayPriceChange: 0.049,
+      oneWeekPriceChange: -0.024,
+      spread: 0.01,
+      openTime: '2025-06-02T07:00:00.000Z',
+      closeTime: '2025-06-30T12:00:00.000Z',
+      createdAt: '2025-06-02T07:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x2cc838a6fc8c5b93de8d727e49206486d98b35e46edaffa1b920d592f4f4155f',
+        tokenIds: [
+          '14064552856009099532100347045274318504311078329774910301063986547764035213018',
+          '15685203933030082024884350978458928668162351313516779372186858896036485669951',
+        ],
+        slug: 'bitcoin-120k-june',
+        eventId: '31011',
+        eventSlug: 'bitcoin-120k-june',
+        eventTitle: 'Bitcoin price in June',
+      },
+    },
+    {
+      id: '501074',
+      source: 'polymarket',
+      question: 'Will ETH flip $3,000 this week?',
+      description: 'Resolves Yes if any Binance ETH/USDT 1 minute candle before June 7, 12:00 PM ET has a high of $3,000 or more, otherwise No.',
+      category: 'Crypto',
+      yesPrice: 0.36,
+      noPrice: 0.64,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 210400,
+      volume24h: 62242,
+      liquidity: 31000,
+      oneHourPriceChange: -0.009,
+      oneDayPriceChange: 0.06,
+      oneWeekPriceChange: 0.186,
+      spread: 0.01,
+      openTime: '2025-06-02T03:00:00.000Z',
+      closeTime: '2025-06-07T12:00:00.000Z',
+      createdAt: '2025-06-02T03:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0xba50eb98228a9ad24aac0d219da200ba7cb88d6b5c0f2c49b7ac45a47ad4354b',
+        tokenIds: [
+          '11612816060798157236828751189044357377246437606960531297379913687524410317334',
+          '16369793169875128982189504034293403035526428857294961762783765576614912759361',
+        ],
+        slug: 'eth-3000-this-week',
+        eventId: '31022',
+        eventSlug: 'eth-3000-this-week',
+        eventTitle: 'Ethereum weekly',
+      },
+    },
+    {
+      id: '501111',
+      source: 'polymarket',
+      question: 'Will the Fed cut rates at the June meeting?',
+      description: 'Resolves Yes if the FOMC statement released after the June 17–18 meeting lowers the upper bound of the federal funds target range, otherwise No.',
+      category: 'Economy',
+      yesPrice: 0.07,
+      noPrice: 0.93,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 1530000,
+      volume24h: 207225,
+      liquidity: 240000,
+      oneHourPriceChange: -0.024,
+      oneDayPriceChange: 0.002,
+      oneWeekPriceChange: -0.179,
+      spread: 0.01,
+      openTime: '2025-06-01T22:00:00.000Z',
+      closeTime: '2025-06-18T12:00:00.000Z',
+      createdAt: '2025-06-01T22:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0xa10849d1daf78dd172e1f945997654820f3be38c8a24d421883369fe1cfcd425',
+        tokenIds: [
+          '11873450107288700313881979280007914534536426930066290299719249677901131525984',
+          '18218690692042753671275186652381130782992156314096987972371917856074239761186',
+        ],
+        slug: 'fed-june-cut',
+        eventId: '31033',
+        eventSlug: 'fed-june-cut',
+        eventTitle: 'Fed decision in June',
+      },
+    },
+    {
+      id: '501148',
+      source: 'polymarket',
+      question: 'Will US CPI for May come in above 2.5%?',
+      description: 'Resolves Yes if the year-over-year CPI-U change for May published by the BLS is above 2.5%, otherwise No. Later revisions are ignored.',
+      category: 'Economy',
+      yesPrice: 0.61,
+      noPrice: 0.39,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 98000,
+      volume24h: 18991,
+      liquidity: 12500,
+      oneHourPriceChange: -0.005,
+      oneDayPriceChange: 0.036,
+      oneWeekPriceChange: -0.074,
+      spread: 0.02,
+      openTime: '2025-06-01T16:00:00.000Z',
+      closeTime: '2025-06-11T12:00:00.000Z',
+      createdAt: '2025-06-01T16:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x68c68be299b2d1a61c70e473116b9c6fd7afbf7f3019109c6b202542e1f3da22',
+        tokenIds: [
+          '18343153916505472870495952794884812495128382979166476759935480228779945422643',
+          '17833056725870340859896867888791499452154892543912563007827224803498588303160',
+        ],
+        slug: 'us-cpi-may-above-2-5',
+        eventId: '31044',
+        eventSlug: 'us-cpi-may-above-2-5',
+        eventTitle: 'US inflation (May)',
+      },
+    },
+    {
+      id: '501185',
+      source: 'polymarket',
+      question: 'Will the Celtics win Game 3?',
+      description: 'Resolves Yes if the Celtics win Game 3 of the series, including overtime. If the game is postponed past June 3, it resolves 50-50.',
+      category: 'Sports',
+      yesPrice: 0.55,
+      noPrice: 0.45,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 356000,
+      volume24h: 83663,
+      liquidity: 41000,
+      oneHourPriceChange: 0.023,
+      oneDayPriceChange: -0.072,
+      oneWeekPriceChange: 0.007,
+      spread: 0.01,
+      openTime: '2025-06-02T10:00:00.000Z',
+      closeTime: '2025-06-03T18:00:00.000Z',
+      createdAt: '2025-06-02T10:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x76c6ab1b6e13d6413b1b628a7b455713616d7183ab4c2f14aa043f00a9dbdda0',
+        tokenIds: [
+          '10533643265474901199856389954242814076741954519678750610608710367379308638796',
+          '18094702829639736618338744778075616882765461752145420428645510776834876942406',
+        ],
+        slug: 'celtics-game-3',
+        eventId: '31055',
+        eventSlug: 'celtics-game-3',
+        eventTitle: 'NBA Finals Game 3',
+      },
+    },
+    {
+      id: '501222',
+      source: 'polymarket',
+      question: 'Will Alcaraz win Roland Garros?',
+      description: 'Resolves Yes if Carlos Alcaraz wins the men\'s singles title at the French Open, otherwise No, including if he withdraws.',
+      category: 'Sports',
+      yesPrice: 0.48,
+      noPrice: 0.52,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 612000,
+      volume24h: 124141,
+      liquidity: 73000,
+      oneHourPriceChange: -0.02,
+      oneDayPriceChange: 0.029,
+      oneWeekPriceChange: 0.064,
+      spread: 0.01,
+      openTime: '2025-06-01T10:00:00.000Z',
+      closeTime: '2025-06-08T12:00:00.000Z',
+      createdAt: '2025-06-01T10:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0xb4ce567933b693f8b09ee8b2cc6038a1999dce39503cbf6df3e3df028a4c588b',
+        tokenIds: [
+          '12077681166772274082979057461756805221268418854137563547034566405433653839200',
+          '17248080988903406702927080941052912419531334565077321489723093281073479843987',
+        ],
+        slug: 'alcaraz-roland-garros',
+        eventId: '31066',
+        eventSlug: 'alcaraz-roland-garros',
+        eventTitle: 'Roland Garros winner',
+      },
+    },
+    {
+      id: '501259',
+      source: 'polymarket',
+      question: 'Will the senate pass the budget bill by June 30?',
+      description: 'Resolves Yes if the Senate passes the budget reconciliation bill in a recorded vote by June 30, 11:59 PM ET, otherwise No.',
+      category: 'Politics',
+      yesPrice: 0.33,
+      noPrice: 0.67,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 275000,
+      volume24h: 60395,
+      liquidity: 36000,
+      oneHourPriceChange: 0.015,
+      oneDayPriceChange: 0.024,
+      oneWeekPriceChange: 0.008,
+      spread: 0.03,
+      openTime: '2025-06-02T01:00:00.000Z',
+      closeTime: '2025-06-30T12:00:00.000Z',
+      createdAt: '2025-06-02T01:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x52f607f6e375e8db193fe40e3ec86fc7392d2ea25a82390c38a8a9e66ed4110a',
+        tokenIds: [
+          '15083505834361260900537642076832139359411635529758931057671108600586893902071',
+          '16739823052750950300604053136097212289556663576482387005877366876313397938065',
+        ],
+        slug: 'senate-budget-june-30',
+        eventId: '31077',
+        eventSlug: 'senate-budget-june-30',
+        eventTitle: 'Budget bill',
+      },
+    },
+    {
+      id: '501296',
+      source: 'polymarket',
+      question: 'Will the governor sign the AI safety bill?',
+      description: 'Resolves Yes if the governor signs the AI safety bill into law before the signing deadline, otherwise No. A veto or pocket veto resolves No.',
+      category: 'Politics',
+      yesPrice: 0.71,
+      noPrice: 0.29,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 64000,
+      volume24h: 10213,
+      liquidity: 9000,
+      oneHourPriceChange: 0.03,
+      oneDayPriceChange: 0.079,
+      oneWeekPriceChange: 0.1,
+      spread: 0.03,
+      openTime: '2025-06-01T05:00:00.000Z',
+      closeTime: '2025-07-17T12:00:00.000Z',
+      createdAt: '2025-06-01T05:00:00.000Z',
+      active: true,
+      acceptingOrders: false,
+      polymarket: {
+        conditionId: '0xd255165f03face9989c6fd4df3cccfd86543dd24c4084314c21744522fb9f30b',
+        tokenIds: [
+          '19818873434220103412871893886432678046272809676424487455963408419313991934021',
+          '18838568896160803577150687402691014287424378267715475926944942801176885474616',
+        ],
+        slug: 'ai-safety-bill-signed',
+        eventId: '31088',
+        eventSlug: 'ai-safety-bill-signed',
+        eventTitle: 'AI safety bill',
+      },
+    },
+    {
+      id: '501333',
+      source: 'polymarket',
+      question: 'Will OpenAI release a new frontier model in June?',
+      description: 'Resolves Yes if OpenAI makes a new flagship model generally available to ChatGPT or API users by June 30, otherwise No. Previews and research releases do not count.',
+      category: 'Tech',
+      yesPrice: 0.52,
+      noPrice: 0.48,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 188000,
+      volume24h: 72795,
+      liquidity: 22000,
+      oneHourPriceChange: 0.002,
+      oneDayPriceChange: -0.058,
+      oneWeekPriceChange: 0.145,
+      spread: 0.03,
+      openTime: '2025-06-02T05:00:00.000Z',
+      closeTime: '2025-06-30T12:00:00.000Z',
+      createdAt: '2025-06-02T05:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x778d29aa8d8846c6052d00ce3dab12e5d38a9a997f094ce40d5bf24627121d05',
+        tokenIds: [
+          '10478518605540031045435502972158299659384112180547859990325009876069308890196',
+          '15568792442292897679307824214611807914414206270431056878130640797845441916852',
+        ],
+        slug: 'new-frontier-model-june',
+        eventId: '31099',
+        eventSlug: 'new-frontier-model-june',
+        eventTitle: 'AI releases in June',
+      },
+    },
+    {
+      id: '501370',
+      source: 'polymarket',
+      question: 'Will Apple announce a foldable iPhone at WWDC?',
+      description: 'Resolves Yes if Apple announces a foldable iPhone during the WWDC keynote, otherwise No. Rumours and leaks do not count.',
+      category: 'Tech',
+      yesPrice: 0.05,
+      noPrice: 0.95,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 143000,
+      volume24h: 32816,
+      liquidity: 15500,
+      oneHourPriceChange: -0.018,
+      oneDayPriceChange: 0.042,
+      oneWeekPriceChange: -0.052,
+      spread: 0.01,
+      openTime: '2025-05-31T20:00:00.000Z',
+      closeTime: '2025-06-09T12:00:00.000Z',
+      createdAt: '2025-05-31T20:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x3b6595c36f6276f53e168ee1c68c4f04849408cc488be020c1ecbdef04b1f6dc',
+        tokenIds: [
+          '12362053116199985685012197488118970495123662373664414398651704103439622567583',
+          '17891268915453508722662377458870498039998755190721598385420572848630564157875',
+        ],
+        slug: 'foldable-iphone-wwdc',
+        eventId: '31110',
+        eventSlug: 'foldable-iphone-wwdc',
+        eventTitle: 'WWDC announcements',
+      },
+    },
+    {
+      id: '501407',
+      source: 'polymarket',
+      question: 'Will the summer blockbuster open above $150M?',
+      description: 'Resolves Yes if the domestic opening weekend gross reported by Box Office Mojo is above $150M, otherwise No.',
+      category: 'Culture',
+      yesPrice: 0.64,
+      noPrice: 0.36,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 45000,
+      volume24h: 9027,
+      liquidity: 6400,
+      oneHourPriceChange: -0.007,
+      oneDayPriceChange: 0.078,
+      oneWeekPriceChange: 0.19,
+      spread: 0.01,
+      openTime: '2025-05-31T16:00:00.000Z',
+      closeTime: '2025-06-14T12:00:00.000Z',
+      createdAt: '2025-05-31T16:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0xdffa64c7ce9d3109a7793b930b7ea27698f34aa9f9e79e9c16e473628e717948',
+        tokenIds: [
+          '19602789141522762006023031938137279173245977594493970111290273990416225010099',
+          '11027272531950086875412754665732802697240732392591080071305386294507364485483',
+        ],
+        slug: 'blockbuster-opening-150m',
+        eventId: '31121',
+        eventSlug: 'blockbuster-opening-150m',
+        eventTitle: 'Box office opening',
+      },
+    },
+    {
+      id: '501444',
+      source: 'polymarket',
+      question: 'Will it rain in London on June 10?',
+      description: 'Resolves Yes if the Met Office records more than 0.2 mm of rain at Heathrow on June 10, otherwise No.',
+      yesPrice: 0.58,
+      noPrice: 0.42,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 8200,
+      volume24h: 742,
+      liquidity: 1500,
+      oneHourPriceChange: -0.01,
+      oneDayPriceChange: 0.08,
+      oneWeekPriceChange: 0.159,
+      spread: 0.02,
+      openTime: '2025-06-02T11:00:00.000Z',
+      closeTime: '2025-06-10T12:00:00.000Z',
+      createdAt: '2025-06-02T11:00:00.000Z',
+      active: true,
+      acceptingOrders: true,
+      polymarket: {
+        conditionId: '0x250a4918459aac872fe4dba381709474425a50c96fafe83643e6e01956527b54',
+        tokenIds: [
+          '12793093905537002498079795741889505905241051049315416754049835861717499100810',
+          '15584830684627015916984792916017098669564726746538144487654385799691403536792',
+        ],
+        slug: 'london-rain-june-10',
+        eventId: '31132',
+        eventSlug: 'london-rain-june-10',
+        eventTitle: 'London weather',
+      },
+    },
+    {
+      id: '501481',
+      source: 'polymarket',
+      question: 'Will the mayor resign before July?',
+      description: 'Resolves Yes if the mayor announces their resignation before July 1, otherwise No.',
+      category: 'Politics',
+      yesPrice: 0.12,
+      noPrice: 0.88,
+      yesOutcome: 'Yes',
+      noOutcome: 'No',
+      volume: 23000,
+      volume24h: 4120,
+      liquidity: 900,
+      oneHourPriceChange: -0.009,
+      oneDayPriceChange: -0.07,
+      oneWeekPriceChange: 0.194,
+      spread: 0.01,
+      openTime: '2025-05-31T13:00:00.000Z',
+      closeTime: '2025-06-02T10:00:00.000Z',
+      createdAt: '2025-05-31T13:00:00.000Z',
+      active: false,
+      acceptingOrders: false,
+      polymarket: {
+        conditionId: '0xef0d4599f228140ae2646c87b494fb17707b2fa87f4514e94d4de8bb47135981',
+        tokenIds: [
+          '15749249074377185706104738306051099821473960402058417460088260185109878881748',
+          '19807867002185344562218173181691911717013304841203378096331991971542104327410',
+        ],
+        slug: 'mayor-resign-before-july',
+        eventId: '31143',
+        eventSlug: 'mayor-resign-before-july',
+        eventTitle: 'Mayor resignation',
+      },
+    },
+  ],
+  meta: {
+    hoursBack: 48,
+    cutoffTime: '2025-05-31T12:00:00.000Z',
+    polymarketCount: 14,
+    totalCount: 14,
+    x402Protected: true,
+  },
+};
+
+/**
+ * Serves recordedNewMarkets as if fetched at RECORDED_AT: a request for the
+ * last `hoursBack` hours gets the markets created in that window
+ */
+export class FixtureMarketsFetcher implements MarketsFetcher {
+  readonly name = 'fixture';
+  calls = 0; // upstream fetches, to check caching
+  private failures = 0;
+
+  constructor(private readonly body: typeof recordedNewMarkets = recordedNewMarkets) {}
+
+  /**
+   * Makes the next `count` fetches fail, as when the upstream is down
+   */
+  failNextFetches(count: number = 1): void {
+    this.failures = count;
+  }
+
+  async fetchNewMarkets(hoursBack: number): Promise<unknown> {
+    this.calls++;
+    if (this.failures > 0) {
+      this.failures--;
+      throw new Error('Fixture upstream unavailable');
+    }
+    const cutoff = Date.parse(RECORDED_AT) - hoursBack * 3_600_000;
+    const markets = this.body.markets.filter((market) => Date.parse(market.createdAt) >= cutoff);
+    return {
+      markets,
+      meta: { ...this.body.meta, hoursBack, polymarketCount: markets.length, totalCount: markets.length },
+    };
+  }
+}
@@ -0,0 +1,318 @@
+/**
+ * Markets
+ * Data behind /api/markets: fetches new Polymarket markets from an upstream
+ * through a pluggable fetcher, normalizes them into MarketData and caches
+ * them briefly, so repeated paid requests do not each hit (or pay) the upstream
+ */
+
+import { readFileSync } from 'fs';
+import { Connection, Keypair } from '@solana/web3.js';
+import { X402Client, type SpendLimit } from './x402-client';
+import { createTransferSettler, createX402Settler } from './x402-settlers';
+import { keypairSigner } from './x402-signer';
+import { getNetworkConfig } from './solana-networks';
+import { findPaymentAsset, type PaymentAsset } from './payment-assets';
+import { canPayWithX402 } from './payment-mode';
+import { x402Config } from './x402-config';
+import { FixtureMarketsFetcher } from './markets-fixture';
+import type { MarketData, MarketsConfig, MarketsUI } from './types';
+
+export const DEFAULT_UPSTREAM_URL = 'https://grid.wtf/api/x402/v1/new-markets';
+
+export const marketsDefaults = {
+  hoursBack: 24,
+  limit: 100,
+};
+
+/**
+ * Source of raw new-market data; the body is normalized by normalizeMarkets()
+ */
+export interface MarketsFetcher {
+  name: string;
+  fetchNewMarkets(hoursBack: number): Promise<unknown>;
+}
+
+export class MarketsUpstreamError extends Error {
+  constructor(message: string, readonly status?: number) {
+    super(message);
+    this.name = 'MarketsUpstreamError';
+  }
+}
+
+/**
+ * Fetches from an HTTP upstream; with an X402Client the upstream's 402 is
+ * paid, otherwise the request is forwarded as is
+ */
+export class HttpMarketsFetcher implements MarketsFetcher {
+  readonly name: string;
+
+  constructor(private readonly url: string, private readonly client?: X402Client) {
+    this.name = client ? 'x402' : 'http';
+  }
+
+  async fetchNewMarkets(hoursBack: number): Promise<unknown> {
+    const url = new URL(this.url);
+    url.searchParams.set('hoursBack', String(hoursBack));
+    const init: RequestInit = { method: 'GET', headers: { Accept: 'application/json' } };
+    const response = this.client
+      ? (await this.client.request(url.toString(), init)).response
+      : await fetch(url, init);
+    if (!response.ok) {
+      throw new MarketsUpstreamError(`Markets upstream answered ${response.status} ${response.statusText}`, response.status);
+    }
+    return response.json();
+  }
+}
+
+function toNumber(value: unknown): number | undefined {
+  const number = typeof value === 'string' && value.trim() !== '' ? Number(value) : value;
+  return typeof number === 'number' && Number.isFinite(number) ? number : undefined;
+}
+
+function toText(value: unknown): string | undefined {
+  return typeof value === 'string' && value.trim() !== '' ? value : undefined;
+}
+
+// Gamma ids are numeric, grid.wtf ids are strings
+function toId(value: unknown): string | undefined {
+  return typeof value === 'number' ? String(value) : toText(value);
+}
+
+// Polymarket sends some lists as JSON-encoded strings, e.g. outcomePrices: '["0.42","0.58"]'
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value !== 'string') return [];
+  try {
+    const parsed = JSON.parse(value);
+    return Array.isArray(parsed) ? parsed : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Normalizes one upstream market, either already MarketData-shaped or a raw
+ * Polymarket Gamma market; returns null when it lacks an id, question or prices
+ */
+export function normalizeMarket(raw: unknown): MarketData | null {
+  if (typeof raw !== 'object' || raw === null) {
+    return null;
+  }
+  const market = raw as Record<string, unknown>;
+  const event = (toList(market.events)[0] ?? {}) as Record<string, unknown>;
+  const polymarket = (market.polymarket ?? {}) as Record<string, unknown>;
+  const outcomePrices = toList(market.outcomePrices).map(toNumber);
+  const outcomes = toList(market.outcomes).map(toText);
+
+  const id = toId(market.id) ?? toText(market.conditionId);
+  const question = toText(market.question) ?? toText(market.title);
+  const yesPrice = toNumber(market.yesPrice) ?? outcomePrices[0];
+  const noPrice = toNumber(market.noPrice) ?? outcomePrices[1] ?? (yesPrice === undefined ? undefined : 1 - yesPrice);
+  if (!id || !question || yesPrice === undefined || noPrice === undefined) {
+    return null;
+  }
+
+  const tokenIds = toList(polymarket.tokenIds ?? market.clobTokenIds).map(toText).filter((token) => token !== undefined);
+  return {
+    id,
+    source: 'polymarket',
+    question,
+    title: toText(market.title),
+    description: toText(market.description),
+    category: toText(market.category) ?? toText(event.category),
+    yesPrice,
+    noPrice,
+    yesOutcome: toText(market.yesOutcome) ?? outcomes[0],
+    noOutcome: toText(market.noOutcome) ?? outcomes[1],
+    volume: toNumber(market.volume) ?? toNumber(market.volumeNum) ?? 0,
+    volume24h: toNumber(market.volume24h) ?? toNumber(market.volume24hr),
+    liquidity: toNumber(market.liquidity) ?? toNumber(market.liquidityNum) ?? 0,
+    oneHourPriceChange: toNumber(market.oneHourPriceChange),
+    oneDayPriceChange: toNumber(market.oneDayPriceChange),
+    oneWeekPriceChange: toNumber(market.oneWeekPriceChange),
+    spread: toNumber(market.spread),
+    openTime: toText(market.openTime) ?? toText(market.startDate),
+    closeTime: toText(market.closeTime) ?? toText(market.endDate),
+    createdAt: toText(market.createdAt),
+    active: typeof market.active === 'boolean' ? market.active : undefined,
+    acceptingOrders: typeof market.acceptingOrders === 'boolean' ? market.acceptingOrders : undefined,
+    polymarket: {
+      conditionId: toText(polymarket.conditionId) ?? toText(market.conditionId),
+      tokenIds: tokenIds.length > 0 ? tokenIds : undefined,
+      slug: toText(polymarket.slug) ?? toText(market.slug),
+      eventId: toId(polymarket.eventId) ?? toId(event.id),
+      eventSlug: toText(polymarket.eventSlug) ?? toText(event.slug),
+      eventTitle: toText(polymarket.eventTitle) ?? toText(event.title),
+    },
+    image: toText(market.image),
+    icon: toText(market.icon),
+  };
+}
+
+/**
+ * Normalizes an upstream body: `{ markets }`, `{ data: { markets } }` or a bare list
+ * Markets that cannot be normalized are dropped
+ */
+export function normalizeMarkets(body: unknown): MarketData[] {
+  const container = body as { markets?: unknown; data?: { markets?: unknown } } | null;
+  const list = Array.isArray(body) ? body : container?.markets ?? container?.data?.markets;
+  if (!Array.isArray(list)) {
+    throw new MarketsUpstreamError('Markets upstream answered without a markets list');
+  }
+  const markets = list.map(normalizeMarket).filter((market): market is MarketData => market !== null);
+  // The upstream may list a market under several events
+  return markets.filter((market, index) => markets.findIndex(({ id }) => id === market.id) === index);
+}
+
+interface CacheEntry {
+  expiresAt: number; // ms since epoch
+  markets: Promise<MarketData[]>;
+}
+
+/**
+ * Serves MarketsUI from a fetcher, caching each hoursBack window for `ttlMs`
+ * Category and limit are applied to the cached list, so they never refetch
+ */
+export class MarketsService {
+  private readonly cache = new Map<number, CacheEntry>();
+
+  constructor(
+    readonly fetcher: MarketsFetcher,
+    private readonly ttlMs: number,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  async getMarkets({
+    hoursBack = marketsDefaults.hoursBack,
+    category,
+    limit = marketsDefaults.limit,
+  }: MarketsConfig = {}): Promise<MarketsUI> {
+    const all = await this.load(hoursBack);
+    const wanted = category?.toLowerCase();
+    const matching = wanted ? all.filter((market) => market.category?.toLowerCase() === wanted) : all;
+    return {
+      type: 'markets',
+      markets: matching.slice(0, limit),
+      meta: {
+        hoursBack,
+        cutoffTime: new Date(this.now() - hoursBack * 3_600_000).toISOString(),
+        polymarketCount: all.length,
+        totalCount: matching.length,
+        x402Protected: true,
+      },
+    };
+  }
+
+  /**
+   * Drops every cached window
+   */
+  clear(): void {
+    this.cache.clear();
+  }
+
+  // Concurrent requests for a window share one upstream call; failures are not cached
+  private load(hoursBack: number): Promise<MarketData[]> {
+    const cached = this.cache.get(hoursBack);
+    if (cached && cached.expiresAt > this.now()) {
+      return cached.markets;
+    }
+    const markets = this.fetcher.fetchNewMarkets(hoursBack).then(normalizeMarkets);
+    const entry = { expiresAt: this.now() + this.ttlMs, markets };
+    this.cache.set(hoursBack, entry);
+    markets.catch(() => {
+      if (this.cache.get(hoursBack) === entry) {
+        this.cache.delete(hoursBack);
+      }
+    });
+    return markets;
+  }
+}
+
+function loadKeypair(filePath: string): Keypair {
+  const secretKey: number[] = JSON.parse(readFileSync(filePath, 'utf8'));
+  return Keypair.fromSecretKey(Uint8Array.from(secretKey));
+}
+
+/**
+ * Reads an amount of the upstream asset from the environment, e.g. 0.05, as a
+ * limit in its smallest unit keyed by symbol and mint
+ */
+function upstreamLimit(name: string, asset: PaymentAsset): SpendLimit | undefined {
+  const value = process.env[name];
+  if (!value) {
+    return undefined;
+  }
+  const amount = Number(value);
+  if (!Number.isFinite(amount) || amount < 0) {
+    throw new Error(`${name} must be an amount of ${asset.symbol}, got '${value}'`);
+  }
+  const limit = Math.floor(amount * 10 ** asset.decimals);
+  return { [asset.symbol]: limit, [asset.mint]: limit };
+}
+
+/**
+ * Creates the fetcher the markets route uses:
+ * - MARKETS_UPSTREAM=fixture serves the recorded markets in lib/markets-fixture.ts, for offline development
+ * - otherwise MARKETS_UPSTREAM_URL (default the grid.wtf markets API), paid with the
+ *   MARKETS_UPSTREAM_KEYPAIR keypair file when set, forwarded unpaid when not
+ *
+ * A paid upstream is paid in MARKETS_UPSTREAM_ASSET (USDC by default) and needs
+ * MARKETS_UPSTREAM_MAX_PRICE (per call), MARKETS_UPSTREAM_MAX_SPEND (per process)
+ * or both, so a misquoting upstream cannot drain the keypair
+ */
+export function createMarketsFetcher(): MarketsFetcher {
+  if (process.env.MARKETS_UPSTREAM === 'fixture') {
+    return new FixtureMarketsFetcher();
+  }
+  const url = process.env.MARKETS_UPSTREAM_URL || DEFAULT_UPSTREAM_URL;
+  const keypairFile = process.env.MARKETS_UPSTREAM_KEYPAIR;
+  if (!keypairFile) {
+    return new HttpMarketsFetcher(url);
+  }
+  const network = x402Config.network;
+  const symbol = process.env.MARKETS_UPSTREAM_ASSET || 'USDC';
+  const asset = findPaymentAsset(symbol, network);
+  if (!asset) {
+    throw new Error(`MARKETS_UPSTREAM_ASSET ${symbol} is not accepted on ${network}`);
+  }
+  const maxPerCall = upstreamLimit('MARKETS_UPSTREAM_MAX_PRICE', asset);
+  const maxPerSession = upstreamLimit('MARKETS_UPSTREAM_MAX_SPEND', asset);
+  if (!maxPerCall && !maxPerSession) {
+    throw new Error('MARKETS_UPSTREAM_KEYPAIR needs MARKETS_UPSTREAM_MAX_PRICE or MARKETS_UPSTREAM_MAX_SPEND to limit what it pays');
+  }
+  const connection = new Connection(getNetworkConfig(network).rpcEndpoint, 'confirmed');
+  const client = new X402Client({
+    signer: keypairSigner(loadKeypair(keypairFile)),
+    // Standard x402 cannot pay native SOL or networks without a facilitator, so those pay by direct transfer
+    settler: canPayWithX402(asset, network) ? createX402Settler(connection) : createTransferSettler(connection),
+    assets: [asset.symbol],
+    maxPerCall,
+    maxPerSession,
+  });
+  return new HttpMarketsFetcher(url, client);
+}
+
+let marketsService: MarketsService | null = null;
+
+function cacheTtlMs(): number {
+  return (Number(process.env.MARKETS_CACHE_TTL_SECONDS) || 60) * 1000;
+}
+
+/**
+ * Returns the service the markets route reads from, created on first use
+ * Responses are cached for MARKETS_CACHE_TTL_SECONDS, 60 seconds by default
+ */
+export function getMarketsService(): MarketsService {
+  if (!marketsService) {
+    marketsService = new MarketsService(createMarketsFetcher(), cacheTtlMs());
+  }
+  return marketsService;
+}
+
+/**
+ * Replaces the markets fetcher, e.g. with a FixtureMarketsFetcher in tests, and empties the cache
+ * Pass null to go back to the configured upstream
+ */
+export function setMarketsFetcher(fetcher: MarketsFetcher | null, ttlMs?: number): void {
+  marketsService = fetcher ? new MarketsService(fetcher, ttlMs ?? cacheTtlMs()) : null;
+}
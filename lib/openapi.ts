@@ -0,0 +1,270 @@
+/**
+ * OpenAPI Document
+ * Generates an OpenAPI 3.1 description of the paid API from the component
+ * registry, the route definitions and the schemas checked against lib/types.ts
+ */
+
+import { x402Config, type PricedEndpoint } from './x402-config';
+import { getAcceptedPrices } from './payment-assets';
+import { components, type RegisteredComponent } from './component-registry';
+import { paidRoutes } from './x402-resources';
+import { paymentRequiredSchema, paymentRequirementSchema, uiResponseSchema, uiSchemas } from './schemas';
+import { formatAssetPrice } from './x402-client';
+import { PAY_WITH_CREDITS_HEADER } from './credits-client';
+import { PAYMENT_NETWORK_HEADER, getEnabledNetworks } from './solana-networks';
+import type { JsonSchema } from './validation';
+
+export interface OpenApiHeader {
+  description: string;
+  schema: JsonSchema;
+}
+
+export interface OpenApiParameter extends OpenApiHeader {
+  name: string;
+  in: 'header' | 'query';
+  required: boolean;
+}
+
+export interface OpenApiMediaType {
+  schema: JsonSchema;
+  examples?: Record<string, { summary: string; value: unknown }>;
+}
+
+export interface OpenApiResponse {
+  description: string;
+  headers?: Record<string, OpenApiHeader>;
+  content?: Record<string, OpenApiMediaType>;
+}
+
+export interface OpenApiOperation {
+  operationId: string;
+  summary: string;
+  description: string;
+  tags: string[];
+  parameters?: OpenApiParameter[];
+  requestBody?: { required: boolean; content: Record<string, OpenApiMediaType> };
+  responses: Record<string, OpenApiResponse>;
+}
+
+export type OpenApiMethod = 'get' | 'post';
+
+export interface OpenApiDocument {
+  openapi: '3.1.0';
+  info: { title: string; version: string; description: string };
+  servers: Array<{ url: string }>;
+  paths: Record<string, Partial<Record<OpenApiMethod, OpenApiOperation>>>;
+  components: { schemas: Record<string, JsonSchema> };
+}
+
+const API_VERSION = '1.0.0';
+
+/**
+ * Schema name for a component id, e.g. 'advanced-grid' -> 'AdvancedGrid'
+ */
+function schemaName(component: RegisteredComponent): string {
+  return component.id
+    .split('-')
+    .map((part) => part.charAt(0).toUpperCase() + part.slice(1))
+    .join('');
+}
+
+function ref(name: string): JsonSchema {
+  return { $ref: `#/components/schemas/${name}` };
+}
+
+const stringHeader = (description: string): OpenApiHeader => ({ description, schema: { type: 'string' } });
+
+// Payment headers accepted by the paid routes; send one payment method per request
+const paymentParameters: OpenApiParameter[] = [
+  ['X-PAYMENT', 'Base64-encoded x402 payment payload for one of the `accepts` entries of the 402 response'],
+  ['X-Payment-Receipt', 'Access receipt issued by POST /api/verify-payment for an already verified payment'],
+  ['X-Payment-Signature', 'Direct transfer: signature of a confirmed transfer to `payTo`'],
+  ['X-Payment-PublicKey', 'Direct transfer: public key of the payer'],
+  ['X-Payment-Timestamp', 'Direct transfer: ms since epoch when the transfer was sent'],
+  ['X-Payment-Asset', 'Direct transfer: symbol of the asset paid with, defaults to SOL'],
+  [PAY_WITH_CREDITS_HEADER, '`true` to pay with the prepaid credits of the signed-in wallet (x402_session cookie)'],
+  [PAYMENT_NETWORK_HEADER, `Solana cluster to quote and pay on, one of ${getEnabledNetworks().join(', ')}; defaults to ${x402Config.network}`],
+].map(([name, description]) => ({ name, in: 'header', required: false, ...stringHeader(description) }));
+
+const errorSchema: JsonSchema = {
+  type: 'object',
+  properties: {
+    error: { type: 'string' },
+    reason: { type: 'string', description: 'Machine-readable failure reason, e.g. UNDERPAID' },
+    issues: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { path: { type: 'string' }, message: { type: 'string' } },
+        required: ['path', 'message'],
+      },
+    },
+  },
+  required: ['error'],
+};
+
+function componentSchemas(): Record<string, JsonSchema> {
+  return Object.fromEntries(components.flatMap((component) => {
+    const name = schemaName(component);
+    return [
+      [`${name}Config`, component.configSchema.toJSONSchema()],
+      [`${name}Request`, {
+        type: 'object',
+        properties: {
+          componentType: { enum: [component.id, ...(component.aliases ?? [])] },
+          config: ref(`${name}Config`),
+        },
+        required: ['componentType'],
+      }],
+      [`${name}UI`, uiSchemas[component.id].toJSONSchema()],
+    ];
+  }));
+}
+
+/**
+ * Query parameters of a GET route: the config fields of the component it sells
+ */
+function queryParameters(component: RegisteredComponent): OpenApiParameter[] {
+  const { properties = {} } = component.configSchema.toJSONSchema();
+  return Object.entries(properties).map(([name, schema]) => ({
+    name,
+    in: 'query',
+    required: false,
+    description: `config.${name}`,
+    schema,
+  }));
+}
+
+function renderOperation(priceKey: PricedEndpoint, method: OpenApiMethod): OpenApiOperation {
+  const route = paidRoutes[priceKey];
+  const routeComponents = components.filter((component) => component.priceKey === priceKey);
+  const prices = getAcceptedPrices(priceKey).map(formatAssetPrice).join(' or ');
+  const operationId = priceKey.replace(/^\/api\//, '').replace(/-(\w)/g, (_, letter: string) => letter.toUpperCase());
+
+  return {
+    operationId: method === 'get' ? `get${operationId.charAt(0).toUpperCase()}${operationId.slice(1)}` : operationId,
+    summary: route.description,
+    description: `Paid with x402 on Solana. Base price on ${x402Config.network} ${prices}; items, columns and actions beyond ` +
+      'the included amounts raise it. Without a payment header the route answers 402 with the exact quote. ' +
+      (route.settlementFailure === 'deliver-and-retry'
+        ? 'X-PAYMENT payments are delivered even when settlement fails; the settlement is retried.'
+        : 'X-PAYMENT payments are settled before delivery; a failed settlement answers 402 and can be retried.'),
+    tags: ['Render'],
+    ...(method === 'get'
+      ? { parameters: [...routeComponents.flatMap(queryParameters), ...paymentParameters] }
+      : {
+          parameters: paymentParameters,
+          requestBody: {
+            required: true,
+            content: {
+              'application/json': {
+                schema: { oneOf: routeComponents.map((component) => ref(`${schemaName(component)}Request`)) },
+                examples: Object.fromEntries(routeComponents.map((component) => [component.id, {
+                  summary: component.title,
+                  value: { componentType: component.id, config: component.exampleConfig ?? {} },
+                }])),
+              },
+            },
+          },
+        }),
+    responses: {
+      200: {
+        description: 'Payment accepted; the rendered UI',
+        headers: {
+          'X-X402-Protected': stringHeader('Always `true`'),
+          'X-Payment-Verified': stringHeader('`true` once the payment was verified'),
+          [PAYMENT_NETWORK_HEADER]: stringHeader('Solana cluster the payment was verified on'),
+          'X-Credits-Spent': stringHeader('Credits deducted, when paid with credits'),
+          'X-PAYMENT-RESPONSE': stringHeader('X-PAYMENT only: base64 JSON settlement `{ success, transaction, network, payer }`'),
+        },
+        content: {
+          'application/json': {
+            schema: {
+              allOf: [
+                ref('UIResponse'),
+                {
+                  type: 'object',
+                  properties: {
+                    ui: { oneOf: routeComponents.map((component) => ref(`${schemaName(component)}UI`)) },
+                  },
+                },
+              ],
+            },
+          },
+        },
+      },
+      400: { description: 'Invalid JSON, componentType or config', content: { 'application/json': { schema: ref('Error') } } },
+      402: {
+        description: 'Payment required, or the payment sent was rejected',
+        headers: {
+          'X-X402-Protected': stringHeader('Always `true`'),
+          'X-Payment-Required': stringHeader('`true` when no payment was sent'),
+          'X-PAYMENT-RESPONSE': stringHeader('X-PAYMENT only: the failed settlement, with `errorReason`'),
+        },
+        content: {
+          'application/json': { schema: { oneOf: [ref('PaymentRequiredResponse'), ref('Error')] } },
+        },
+      },
+      500: { description: 'Server error', content: { 'application/json': { schema: ref('Error') } } },
+      // Components without a generator are built from upstream data
+      ...(routeComponents.some((component) => !component.generate)
+        ? { 502: { description: 'Upstream data unavailable; credits are refunded', content: { 'application/json': { schema: ref('Error') } } } }
+        : {}),
+    },
+  };
+}
+
+/**
+ * Builds the OpenAPI document for the paid routes served by this app
+ */
+export function buildOpenApiDocument(): OpenApiDocument {
+  // Every local route takes POST; GET routes also take their config as query parameters
+  const localPriceKeys = (Object.keys(x402Config.prices) as PricedEndpoint[])
+    .filter((priceKey) => priceKey.startsWith('/'));
+
+  return {
+    openapi: '3.1.0',
+    info: {
+      title: 'x402 Grid UI API',
+      version: API_VERSION,
+      description: 'UI components rendered on demand and paid per request with x402 on Solana ' +
+        `(${getEnabledNetworks().join(', ')}), each cluster with its own prices and payTo. ` +
+        'Paid resources are also listed at /.well-known/x402.',
+    },
+    servers: [{ url: '/' }],
+    paths: {
+      ...Object.fromEntries(localPriceKeys.map((priceKey) => [priceKey, {
+        ...(paidRoutes[priceKey].method === 'GET' ? { get: renderOperation(priceKey, 'get') } : {}),
+        post: renderOperation(priceKey, 'post'),
+      }])),
+      '/api/x402/resources': {
+        get: {
+          operationId: 'listResources',
+          summary: 'x402 resource discovery',
+          description: 'Every paid route with its prices, input schema and sample output. Free.',
+          tags: ['Discovery'],
+          responses: { 200: { description: 'Paid resources', content: { 'application/json': { schema: { type: 'object' } } } } },
+        },
+      },
+    },
+    components: {
+      schemas: {
+        ...componentSchemas(),
+        UIData: { oneOf: components.map((component) => ref(`${schemaName(component)}UI`)) },
+        UIResponse: {
+          ...uiResponseSchema.toJSONSchema(),
+          properties: { ...uiResponseSchema.toJSONSchema().properties, ui: ref('UIData') },
+        },
+        PaymentRequirement: paymentRequirementSchema.toJSONSchema(),
+        PaymentRequiredResponse: {
+          ...paymentRequiredSchema.toJSONSchema(),
+          properties: {
+            ...paymentRequiredSchema.toJSONSchema().properties,
+            accepts: { type: 'array', items: ref('PaymentRequirement') },
+          },
+        },
+        Error: errorSchema,
+      },
+    },
+  };
+}
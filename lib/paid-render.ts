@@ -0,0 +1,103 @@
+/**
+ * Paid Render Delivery
+ * Records a paid render in the render store and the payment log
+ * before returning it to the client
+ */
+
+import { randomUUID } from 'crypto';
+import { NextResponse } from 'next/server';
+import { paymentLog } from './payment-log';
+import { renderStore } from './render-store';
+import { componentsForRoute, getComponent } from './component-registry';
+import { withX402Payment, type PaidRequestBody, type PaymentContext } from './x402-middleware';
+import { paidRoutes } from './x402-resources';
+import { getMarketsService } from './markets';
+import type { PricedEndpoint } from './x402-config';
+import type { MarketsConfig, MarketsUI, UIResponse } from './types';
+
+export async function deliverPaidRender(
+  endpoint: string,
+  body: PaidRequestBody,
+  payment: PaymentContext,
+  response: UIResponse
+): Promise<NextResponse> {
+  const paymentId = randomUUID();
+  const stored = await renderStore.save({
+    paymentId,
+    owners: [payment.payer, payment.account],
+    endpoint,
+    componentType: body.componentType,
+    response,
+  });
+  // The log points at the stored render, so history re-opens it only while it is retained
+  await paymentLog.record(endpoint, body, payment, stored.contentId, response.tier, paymentId);
+
+  return NextResponse.json({
+    ...response,
+    paymentId,
+    contentId: stored.contentId,
+    retainedUntil: stored.expiresAt,
+  } satisfies UIResponse);
+}
+
+/**
+ * Creates the POST handler of a render route, selling every registry
+ * component priced at `priceKey` that has a generator
+ */
+export function createRenderRoute(priceKey: PricedEndpoint) {
+  const componentTypes = componentsForRoute(priceKey).filter((type) => getComponent(type).generate);
+
+  return withX402Payment(async (_req, { body, payment }) => {
+    const component = getComponent(body.componentType);
+    if (!component.generate) {
+      throw new Error(`Component ${component.id} has no generator`);
+    }
+
+    return deliverPaidRender(priceKey, body, payment, {
+      success: true,
+      ui: component.generate(body.config ?? {}),
+      tier: component.tier,
+      message: `${component.title} rendered successfully`,
+    });
+  }, {
+    priceKey,
+    description: paidRoutes[priceKey].description,
+    componentTypes,
+    settlementFailure: paidRoutes[priceKey].settlementFailure,
+  });
+}
+
+/**
+ * Creates the handler of /api/markets, selling the markets component from
+ * the markets upstream (lib/markets.ts)
+ * An upstream failure answers 502, so the credits, transfer or receipt that paid
+ * for the request are refunded or left usable for a retry
+ */
+export function createMarketsRoute() {
+  const priceKey = '/api/markets';
+
+  return withX402Payment(async (_req, { body, payment }) => {
+    let ui: MarketsUI;
+    try {
+      ui = await getMarketsService().getMarkets(body.config as MarketsConfig);
+    } catch (error) {
+      console.error('[x402/markets] Markets upstream failed:', error);
+      return NextResponse.json(
+        { error: 'Markets data is unavailable, try again shortly', reason: 'UPSTREAM_UNAVAILABLE' },
+        { status: 502 }
+      );
+    }
+
+    return deliverPaidRender(priceKey, body, payment, {
+      success: true,
+      ui,
+      tier: getComponent('markets').tier,
+      message: 'Markets data loaded successfully',
+    });
+  }, {
+    priceKey,
+    description: paidRoutes[priceKey].description,
+    componentTypes: componentsForRoute(priceKey),
+    settlementFailure: paidRoutes[priceKey].settlementFailure,
+  });
+}
@@ -0,0 +1,79 @@
+/**
+ * Payment Assets
+ * Resolves the accepted assets and prices for each paid route, per network
+ */
+
+import { x402Config, type PaymentAssetSymbol, type PricedEndpoint, type SolanaNetwork } from './x402-config';
+import { getNetworkConfig } from './solana-networks';
+
+export interface PaymentAsset {
+  symbol: PaymentAssetSymbol;
+  mint: string;
+  decimals: number;
+  native: boolean;
+}
+
+export interface AssetPrice {
+  asset: PaymentAsset;
+  amount: number; // in the asset's smallest unit
+}
+
+/**
+ * Resolves an asset on a network: SPL assets use the network's mint and are
+ * not accepted where it has none
+ */
+function networkAsset(symbol: PaymentAssetSymbol, network: SolanaNetwork): PaymentAsset | undefined {
+  const asset = x402Config.assets[symbol];
+  if (asset.native) {
+    return asset;
+  }
+  const mint = getNetworkConfig(network).mints[symbol];
+  return mint ? { ...asset, mint } : undefined;
+}
+
+/**
+ * Lists every accepted asset and its price for a route on a network, default asset first
+ */
+export function getAcceptedPrices(priceKey: PricedEndpoint, network: SolanaNetwork = x402Config.network): AssetPrice[] {
+  const prices = getNetworkConfig(network).prices[priceKey];
+  return (Object.keys(prices) as PaymentAssetSymbol[]).flatMap((symbol) => {
+    const asset = networkAsset(symbol, network);
+    return asset ? [{ asset, amount: prices[symbol]! }] : [];
+  });
+}
+
+/**
+ * Finds the price of a route in a given asset, matched by symbol or mint
+ */
+export function findAcceptedPrice(
+  priceKey: PricedEndpoint,
+  assetOrMint: string,
+  network: SolanaNetwork = x402Config.network
+): AssetPrice | undefined {
+  return getAcceptedPrices(priceKey, network).find(
+    ({ asset }) => asset.symbol === assetOrMint || asset.mint === assetOrMint
+  );
+}
+
+/**
+ * Returns the default (first listed) price of a route
+ */
+export function getDefaultPrice(priceKey: PricedEndpoint, network: SolanaNetwork = x402Config.network): AssetPrice {
+  return getAcceptedPrices(priceKey, network)[0];
+}
+
+/**
+ * Checks whether a string is a configured price key
+ */
+export function isPricedEndpoint(endpoint: string): endpoint is PricedEndpoint {
+  return Object.prototype.hasOwnProperty.call(x402Config.prices, endpoint);
+}
+
+/**
+ * Finds an asset accepted on a network by symbol or mint, regardless of route
+ */
+export function findPaymentAsset(assetOrMint: string, network: SolanaNetwork = x402Config.network): PaymentAsset | undefined {
+  return (Object.keys(x402Config.assets) as PaymentAssetSymbol[])
+    .map((symbol) => networkAsset(symbol, network))
+    .find((asset) => asset !== undefined && (asset.symbol === assetOrMint || asset.mint === assetOrMint));
+}
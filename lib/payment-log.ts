@@ -0,0 +1,111 @@
+/**
+ * Payment Log
+ * Server-side record of every paid request and the stored render it bought,
+ * listed per wallet on the /history page
+ */
+
+import { randomUUID } from 'crypto';
+import { JsonFileStore, listCodec, storeFilePath } from './json-file-store';
+import type { PaymentContext, PaidRequestBody } from './x402-middleware';
+import type { UIConfig, UIResponse } from './types';
+
+export interface PaymentRecord {
+  id: string;
+  paidAt: number; // ms since epoch
+  endpoint: string;
+  componentType: string;
+  config: UIConfig;
+  scheme: PaymentContext['scheme'];
+  payer: string | null; // on-chain payer, when the scheme reveals it
+  account: string | null; // signed-in public key at the time of payment
+  signature: string | null;
+  network: PaymentContext['network'];
+  asset: PaymentContext['asset'];
+  amount: number; // in the asset's smallest unit
+  tier?: UIResponse['tier'];
+  contentId: string; // render store ID of the UI, served only within the store's retention
+}
+
+/**
+ * Storage backend for payment records
+ */
+export interface PaymentLogStore {
+  append(record: PaymentRecord): Promise<void>;
+  list(): Promise<PaymentRecord[]>;
+}
+
+/**
+ * Keeps the log in `filePath`, or only in memory when it is null
+ */
+export class FilePaymentLogStore implements PaymentLogStore {
+  private readonly file: JsonFileStore<PaymentRecord[]>;
+
+  constructor(filePath: string | null) {
+    this.file = new JsonFileStore(filePath, listCodec<PaymentRecord>());
+  }
+
+  append(record: PaymentRecord): Promise<void> {
+    return this.file.update((records) => {
+      records.push(record);
+    });
+  }
+
+  async list(): Promise<PaymentRecord[]> {
+    return [...(await this.file.read())];
+  }
+}
+
+export class PaymentLog {
+  constructor(private readonly store: PaymentLogStore) {}
+
+  /**
+   * Records a verified payment and the stored render it bought
+   */
+  async record(
+    endpoint: string,
+    body: PaidRequestBody,
+    payment: PaymentContext,
+    contentId: string,
+    tier?: PaymentRecord['tier'],
+    id: string = randomUUID()
+  ): Promise<PaymentRecord> {
+    const record: PaymentRecord = {
+      id,
+      paidAt: Date.now(),
+      endpoint,
+      componentType: body.componentType,
+      config: body.config ?? {},
+      scheme: payment.scheme,
+      payer: payment.payer,
+      account: payment.account,
+      signature: payment.signature,
+      network: payment.network,
+      asset: payment.asset,
+      amount: payment.amount,
+      tier,
+      contentId,
+    };
+    await this.store.append(record);
+    return record;
+  }
+
+  /**
+   * Lists the payments made or signed for by a wallet, newest first
+   */
+  async listForWallet(publicKey: string): Promise<PaymentRecord[]> {
+    const records = await this.store.list();
+    return records
+      .filter((record) => record.payer === publicKey || record.account === publicKey)
+      .sort((a, b) => b.paidAt - a.paidAt);
+  }
+}
+
+/**
+ * Creates the payment log used by the API routes
+ * Uses a file store when X402_PAYMENT_LOG_FILE is set, otherwise keeps records in memory
+ */
+export function createPaymentLog(): PaymentLog {
+  return new PaymentLog(new FilePaymentLogStore(storeFilePath('X402_PAYMENT_LOG_FILE')));
+}
+
+export const paymentLog = createPaymentLog();
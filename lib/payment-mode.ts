@@ -0,0 +1,31 @@
+/**
+ * Payment Mode
+ * Chooses how a wallet pays for an asset on a network: standard x402 where
+ * a facilitator can submit it, a direct transfer everywhere else
+ */
+
+import { getNetworkConfig } from './solana-networks';
+import type { PaymentAsset } from './payment-assets';
+import type { SolanaNetwork } from './x402-config';
+
+/**
+ * How a payment is made:
+ * - x402: signs the standard X-PAYMENT payload from the 402 `accepts`; the facilitator submits it
+ * - legacy: sends a transfer from the wallet and proves it with the X-Payment-Signature headers
+ */
+export type PaymentMode = 'x402' | 'legacy';
+
+/**
+ * Checks whether standard x402 can pay an asset on a network: it needs the
+ * network's facilitator and an SPL asset, as the x402 settler does not pay native SOL
+ */
+export function canPayWithX402(asset: PaymentAsset, network: SolanaNetwork): boolean {
+  return !asset.native && getNetworkConfig(network).x402Network !== null;
+}
+
+/**
+ * Returns the preferred mode when it can pay the asset on the network, a direct transfer otherwise
+ */
+export function selectPaymentMode(asset: PaymentAsset, network: SolanaNetwork, preferred: PaymentMode = 'x402'): PaymentMode {
+  return canPayWithX402(asset, network) ? preferred : 'legacy';
+}
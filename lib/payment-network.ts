@@ -0,0 +1,76 @@
+/**
+ * Payment Network
+ * The Solana RPC connection and x402 facilitator the server verifies and
+ * settles payments with on each enabled network, injectable so the routes
+ * can run against an in-memory ledger (see lib/fake-ledger.ts) instead
+ */
+
+import { Connection, type GetVersionedTransactionConfig, type ParsedTransactionWithMeta } from '@solana/web3.js';
+import { FacilitatorClient } from 'x402-solana/server';
+import type { PaymentRequirements, SettleResponse, VerifyResponse } from 'x402-solana/types';
+import { x402Config, type SolanaNetwork } from './x402-config';
+import { getNetworkConfig } from './solana-networks';
+
+/**
+ * The part of a Solana Connection used to verify payments
+ */
+export interface PaymentConnection {
+  getParsedTransaction(
+    signature: string,
+    config?: GetVersionedTransactionConfig
+  ): Promise<ParsedTransactionWithMeta | null>;
+}
+
+/**
+ * An x402 facilitator: pays the fees of, verifies and submits X-PAYMENT transactions
+ */
+export interface Facilitator {
+  getFeePayer(network: string): Promise<string>;
+  verifyPayment(paymentHeader: string, requirements: PaymentRequirements): Promise<VerifyResponse>;
+  settlePayment(paymentHeader: string, requirements: PaymentRequirements): Promise<SettleResponse>;
+}
+
+export interface PaymentNetwork {
+  connection: PaymentConnection;
+  facilitator: Facilitator;
+}
+
+/**
+ * Creates the production connection to a network: its rpcEndpoint and x402Config.facilitatorUrl
+ */
+export function createPaymentNetwork(network: SolanaNetwork = x402Config.network): PaymentNetwork {
+  return {
+    connection: new Connection(getNetworkConfig(network).rpcEndpoint, 'confirmed'),
+    facilitator: new FacilitatorClient(x402Config.facilitatorUrl),
+  };
+}
+
+const paymentNetworks = new Map<SolanaNetwork, PaymentNetwork>();
+
+/**
+ * Returns what the API routes verify payments on a network with, created on first use
+ */
+export function getPaymentNetwork(network: SolanaNetwork = x402Config.network): PaymentNetwork {
+  let paymentNetwork = paymentNetworks.get(network);
+  if (!paymentNetwork) {
+    paymentNetwork = createPaymentNetwork(network);
+    paymentNetworks.set(network, paymentNetwork);
+  }
+  return paymentNetwork;
+}
+
+/**
+ * Replaces what the API routes use for one network, or for every network
+ * when none is given, e.g. with a FakeLedger in tests
+ * Pass null to go back to the production networks
+ */
+export function setPaymentNetwork(paymentNetwork: PaymentNetwork | null, network?: SolanaNetwork): void {
+  const networks = network ? [network] : (Object.keys(x402Config.networks) as SolanaNetwork[]);
+  for (const name of networks) {
+    if (paymentNetwork) {
+      paymentNetworks.set(name, paymentNetwork);
+    } else {
+      paymentNetworks.delete(name);
+    }
+  }
+}
@@ -0,0 +1,215 @@
+/**
+ * Pricing Engine
+ * Computes the price of a render from the route, component type and config
+ * The same quote is used for the 402 response, the client display and
+ * server-side verification
+ */
+
+import { x402Config, type PaymentAssetSymbol, type PricedEndpoint, type SolanaNetwork } from './x402-config';
+import { getAcceptedPrices, type AssetPrice } from './payment-assets';
+import { getComponent, resolveComponentType } from './component-registry';
+import type { ComponentType, UIConfig } from './types';
+
+export interface QuoteRequest {
+  priceKey: PricedEndpoint;
+  componentType?: string;
+  config?: UIConfig;
+  network?: SolanaNetwork; // network paid on, defaults to x402Config.network
+  at?: number; // ms since epoch, defaults to now
+}
+
+/**
+ * A multiplier applied to the base price, with a label explaining it
+ */
+export interface PriceFactor {
+  label: string;
+  multiplier: number;
+}
+
+export interface PriceQuote {
+  priceKey: PricedEndpoint;
+  componentType?: string;
+  network: SolanaNetwork;
+  prices: AssetPrice[]; // accepted assets, default first
+  factors: PriceFactor[];
+}
+
+/**
+ * A pricing rule; returns null when it does not apply to the request
+ */
+export type PriceAdjustment = (request: Required<Pick<QuoteRequest, 'at'>> & QuoteRequest) => PriceFactor | null;
+
+export interface TimeDiscount {
+  label: string;
+  days?: number[]; // UTC days of week (0 = Sunday); all days when omitted
+  startHourUtc?: number; // inclusive
+  endHourUtc?: number; // exclusive
+  percentOff: number;
+}
+
+export interface PricingConfig {
+  // Items included in the base price, per component
+  includedItems: Partial<Record<ComponentType, number>>;
+  perExtraItem: number; // fraction of the base price per item beyond the included count
+  includedColumns: number;
+  perExtraColumn: number;
+  includedActions: number;
+  perExtraAction: number;
+  // Bulk discounts by item count, highest threshold first
+  volumeDiscounts: Array<{ minItems: number; percentOff: number }>;
+  timeDiscounts: TimeDiscount[];
+}
+
+export const pricingConfig: PricingConfig = {
+  includedItems: {
+    grid: 6,
+    'advanced-grid': 12,
+  },
+  perExtraItem: 0.05,
+  includedColumns: 4,
+  perExtraColumn: 0.1,
+  includedActions: 2,
+  perExtraAction: 0.1,
+  volumeDiscounts: [
+    { minItems: 100, percentOff: 20 },
+    { minItems: 50, percentOff: 10 },
+  ],
+  timeDiscounts: [],
+};
+
+/**
+ * Reads a positive integer from a loosely-typed config value
+ */
+function configNumber(config: UIConfig | undefined, key: string): number | null {
+  const value = Number((config as Record<string, unknown> | undefined)?.[key]);
+  return Number.isFinite(value) && value > 0 ? Math.floor(value) : null;
+}
+
+function itemCount({ componentType, config }: QuoteRequest): number | null {
+  const included = pricingConfig.includedItems[componentType as ComponentType];
+  if (included === undefined) {
+    return null;
+  }
+  return configNumber(config, 'itemCount') ?? included;
+}
+
+export const itemCountAdjustment: PriceAdjustment = (request) => {
+  const included = pricingConfig.includedItems[request.componentType as ComponentType];
+  const count = itemCount(request);
+  if (included === undefined || count === null || count <= included) {
+    return null;
+  }
+  const extra = count - included;
+  return { label: `${extra} extra items`, multiplier: 1 + extra * pricingConfig.perExtraItem };
+};
+
+export const columnsAdjustment: PriceAdjustment = ({ config }) => {
+  const columns = configNumber(config, 'columns');
+  if (columns === null || columns <= pricingConfig.includedColumns) {
+    return null;
+  }
+  const extra = columns - pricingConfig.includedColumns;
+  return { label: `${extra} extra columns`, multiplier: 1 + extra * pricingConfig.perExtraColumn };
+};
+
+export const actionsAdjustment: PriceAdjustment = ({ componentType, config }) => {
+  const actions = (config as { actions?: unknown[] } | undefined)?.actions;
+  if (componentType !== 'card' || !Array.isArray(actions) || actions.length <= pricingConfig.includedActions) {
+    return null;
+  }
+  const extra = actions.length - pricingConfig.includedActions;
+  return { label: `${extra} extra actions`, multiplier: 1 + extra * pricingConfig.perExtraAction };
+};
+
+export const volumeDiscountAdjustment: PriceAdjustment = (request) => {
+  const count = itemCount(request);
+  const tier = count === null
+    ? undefined
+    : pricingConfig.volumeDiscounts.find(({ minItems }) => count >= minItems);
+  if (!tier) {
+    return null;
+  }
+  return { label: `${tier.percentOff}% volume discount`, multiplier: 1 - tier.percentOff / 100 };
+};
+
+export const timeDiscountAdjustment: PriceAdjustment = ({ at }) => {
+  const date = new Date(at);
+  const day = date.getUTCDay();
+  const hour = date.getUTCHours();
+  const discount = pricingConfig.timeDiscounts.find((window) =>
+    (!window.days || window.days.includes(day)) &&
+    (window.startHourUtc === undefined || hour >= window.startHourUtc) &&
+    (window.endHourUtc === undefined || hour < window.endHourUtc)
+  );
+  if (!discount) {
+    return null;
+  }
+  return { label: `${discount.label} (${discount.percentOff}% off)`, multiplier: 1 - discount.percentOff / 100 };
+};
+
+/**
+ * Adjustments applied in order; push or replace entries to customize pricing
+ */
+export const priceAdjustments: PriceAdjustment[] = [
+  itemCountAdjustment,
+  columnsAdjustment,
+  actionsAdjustment,
+  volumeDiscountAdjustment,
+  timeDiscountAdjustment,
+];
+
+/**
+ * Base prices for a request on its network: the component's registry price if set, else the route price
+ * Registry prices are mainnet prices; other networks charge the same multiple of their own route price
+ */
+function basePrices({ priceKey, componentType, network = x402Config.network }: QuoteRequest): AssetPrice[] {
+  const routePrices = getAcceptedPrices(priceKey, network);
+  const type = resolveComponentType(componentType);
+  const override = type ? getComponent(type).price : undefined;
+  if (!override) {
+    return routePrices;
+  }
+  const mainnetPrices: Partial<Record<PaymentAssetSymbol, number>> = x402Config.prices[priceKey];
+  return routePrices.map(({ asset, amount }) => {
+    const price = override[asset.symbol];
+    const mainnetPrice = mainnetPrices[asset.symbol];
+    if (price === undefined) {
+      return { asset, amount };
+    }
+    if (network === 'mainnet-beta' || !mainnetPrice) {
+      return { asset, amount: price };
+    }
+    return { asset, amount: Math.ceil((amount * price) / mainnetPrice) };
+  });
+}
+
+/**
+ * Quotes the price of a request in every accepted asset
+ */
+export function quotePrice(request: QuoteRequest): PriceQuote {
+  const at = request.at ?? Date.now();
+  const factors = priceAdjustments
+    .map((adjust) => adjust({ ...request, at }))
+    .filter((factor): factor is PriceFactor => factor !== null);
+  const multiplier = factors.reduce((total, factor) => total * factor.multiplier, 1);
+
+  return {
+    priceKey: request.priceKey,
+    componentType: request.componentType,
+    network: request.network ?? x402Config.network,
+    prices: basePrices(request).map(({ asset, amount }) => ({
+      asset,
+      amount: Math.ceil(amount * multiplier),
+    })),
+    factors,
+  };
+}
+
+/**
+ * Finds a quoted price by asset symbol or mint
+ */
+export function findQuotedPrice(quote: PriceQuote, assetOrMint: string): AssetPrice | undefined {
+  return quote.prices.find(
+    ({ asset }) => asset.symbol === assetOrMint || asset.mint === assetOrMint
+  );
+}
@@ -0,0 +1,125 @@
+/**
+ * Render Store
+ * Keeps each paid UIResponse under a content ID for a retention period,
+ * so its payer can re-open it without paying again
+ */
+
+import { createHash } from 'crypto';
+import { JsonFileStore, keyedListCodec, storeFilePath } from './json-file-store';
+import { x402Config } from './x402-config';
+import type { UIResponse } from './types';
+
+export interface StoredRender {
+  contentId: string;
+  owners: string[]; // public keys entitled to the render: on-chain payer and signed-in account
+  endpoint: string;
+  componentType: string;
+  createdAt: number; // ms since epoch
+  expiresAt: number; // ms since epoch
+  response: UIResponse;
+}
+
+/**
+ * Storage backend for stored renders
+ */
+export interface RenderStoreBackend {
+  get(contentId: string): Promise<StoredRender | null>;
+  put(render: StoredRender): Promise<void>;
+  purgeExpired(now: number): Promise<void>;
+}
+
+/**
+ * Keeps stored renders in `filePath`, or only in memory when it is null
+ */
+export class FileRenderStoreBackend implements RenderStoreBackend {
+  private readonly file: JsonFileStore<Map<string, StoredRender>>;
+
+  constructor(filePath: string | null) {
+    this.file = new JsonFileStore(filePath, keyedListCodec((render: StoredRender) => render.contentId));
+  }
+
+  async get(contentId: string): Promise<StoredRender | null> {
+    return (await this.file.read()).get(contentId) ?? null;
+  }
+
+  put(render: StoredRender): Promise<void> {
+    return this.file.update((renders) => {
+      renders.set(render.contentId, render);
+    });
+  }
+
+  purgeExpired(now: number): Promise<void> {
+    return this.file.update((renders) => {
+      for (const [contentId, render] of renders) {
+        if (render.expiresAt < now) {
+          renders.delete(contentId);
+        }
+      }
+    });
+  }
+}
+
+export type RenderLookupResult =
+  | { ok: true; render: StoredRender }
+  | { ok: false; reason: 'NOT_FOUND' | 'FORBIDDEN'; message: string };
+
+export class RenderStore {
+  constructor(
+    private readonly backend: RenderStoreBackend,
+    private readonly retentionSeconds: number = x402Config.renderRetentionSeconds,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Stores a paid response and returns its content ID
+   * The ID hashes the payment and the rendered UI, so it cannot be guessed from either alone
+   */
+  async save(
+    { paymentId, owners, endpoint, componentType, response }:
+      { paymentId: string; owners: Array<string | null>; endpoint: string; componentType: string; response: UIResponse }
+  ): Promise<StoredRender> {
+    const now = this.now();
+    const contentId = createHash('sha256')
+      .update(paymentId)
+      .update(JSON.stringify(response.ui))
+      .digest('base64url')
+      .slice(0, 32);
+
+    const render: StoredRender = {
+      contentId,
+      owners: [...new Set(owners.filter((owner): owner is string => !!owner))],
+      endpoint,
+      componentType,
+      createdAt: now,
+      expiresAt: now + this.retentionSeconds * 1000,
+      response,
+    };
+    await this.backend.purgeExpired(now);
+    await this.backend.put(render);
+    return render;
+  }
+
+  /**
+   * Returns a stored render to one of its owners while it is retained
+   */
+  async getForOwner(contentId: string, publicKey: string): Promise<RenderLookupResult> {
+    const render = await this.backend.get(contentId);
+    if (!render || render.expiresAt < this.now()) {
+      return { ok: false, reason: 'NOT_FOUND', message: 'Render not found or no longer retained' };
+    }
+    if (!render.owners.includes(publicKey)) {
+      return { ok: false, reason: 'FORBIDDEN', message: 'Render was paid for by another wallet' };
+    }
+    return { ok: true, render };
+  }
+}
+
+/**
+ * Creates the render store used by the API routes
+ * Uses a file store when X402_RENDER_STORE_FILE is set, otherwise keeps renders in memory
+ */
+export function createRenderStore(): RenderStore {
+  return new RenderStore(new FileRenderStoreBackend(storeFilePath('X402_RENDER_STORE_FILE')));
+}
+
+export const renderStore = createRenderStore();
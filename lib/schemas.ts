@@ -0,0 +1,290 @@
+/**
+ * Schemas for request configs and UIData responses
+ * Each schema is annotated with its interface from lib/types.ts
+ */
+
+import {
+  array,
+  boolean,
+  literal,
+  looseObject,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  taggedUnion,
+  validate,
+  type Schema,
+  type ValidationResult,
+} from './validation';
+import type {
+  AdvancedGridUI,
+  AnalyticsChart,
+  AnalyticsDashboardUI,
+  BarChart,
+  CardConfig,
+  CardUI,
+  ChartAxis,
+  ChartSeries,
+  DashboardConfig,
+  DashboardUI,
+  DataTableUI,
+  GridConfig,
+  GridUI,
+  LineChart,
+  MarketData,
+  MarketsConfig,
+  MarketsUI,
+  PaymentRequiredResponse,
+  PaymentRequirement,
+  PieChart,
+  PieSlice,
+  SparklineChart,
+  UIData,
+  UIResponse,
+} from './types';
+
+// Request config bounds
+export const configLimits = {
+  maxColumns: 6,
+  maxGap: 16,
+  maxItems: 100,
+  maxTitleLength: 120,
+  maxContentLength: 2_000,
+  maxActions: 6,
+  maxHoursBack: 168,
+  maxMarkets: 500,
+} as const;
+
+export const gridConfigSchema: Schema<GridConfig> = object<GridConfig>({
+  columns: optional(number({ min: 1, max: configLimits.maxColumns, integer: true })),
+  gap: optional(number({ min: 0, max: configLimits.maxGap, integer: true })),
+  itemCount: optional(number({ min: 1, max: configLimits.maxItems, integer: true })),
+});
+
+export const cardConfigSchema: Schema<CardConfig> = object<CardConfig>({
+  title: optional(string({ max: configLimits.maxTitleLength })),
+  content: optional(string({ max: configLimits.maxContentLength })),
+  actions: optional(array(
+    object({ label: string({ min: 1, max: 40 }), variant: literal('primary', 'secondary') }),
+    { max: configLimits.maxActions }
+  )),
+});
+
+export const marketsConfigSchema: Schema<MarketsConfig> = object<MarketsConfig>({
+  hoursBack: optional(number({ min: 1, max: configLimits.maxHoursBack, integer: true })),
+  category: optional(string({ min: 1, max: 60 })),
+  limit: optional(number({ min: 1, max: configLimits.maxMarkets, integer: true })),
+});
+
+export const emptyConfigSchema: Schema<DashboardConfig> = object<DashboardConfig>({});
+
+// UIData response schemas; extra fields are tolerated at every level so newer servers do not break older clients
+const loose = { allowUnknown: true };
+const gridItemShape = {
+  id: number(),
+  title: string(),
+  description: string(),
+  color: string(),
+};
+
+const gridUISchema = object<GridUI>({
+  type: literal('grid'),
+  layout: object({
+    columns: number({ min: 1 }),
+    gap: number({ min: 0 }),
+    items: array(object(gridItemShape, loose)),
+  }, loose),
+}, loose);
+
+const cardUISchema = object<CardUI>({
+  type: literal('card'),
+  title: string(),
+  content: string(),
+  actions: array(object({ label: string(), variant: literal('primary', 'secondary') }, loose)),
+}, loose);
+
+const dashboardUISchema = object<DashboardUI>({
+  type: literal('dashboard'),
+  widgets: array(object({
+    type: literal('stat', 'chart'),
+    label: string(),
+    value: optional(string()),
+    trend: optional(string()),
+    data: optional(array(number())),
+    labels: optional(array(string())),
+    unit: optional(string()),
+  }, loose)),
+}, loose);
+
+const advancedGridUISchema = object<AdvancedGridUI>({
+  type: literal('advanced-grid'),
+  layout: object({
+    columns: number({ min: 1 }),
+    rows: string(),
+    gap: number({ min: 0 }),
+    items: array(object({
+      ...gridItemShape,
+      image: optional(string()),
+      features: array(string()),
+      rating: string(),
+    }, loose)),
+  }, loose),
+  animations: boolean(),
+  interactions: array(string()),
+}, loose);
+
+const dataTableUISchema = object<DataTableUI>({
+  type: literal('data-table'),
+  columns: array(object({
+    key: string(),
+    label: string(),
+    sortable: optional(boolean()),
+    filterable: optional(boolean()),
+  }, loose)),
+  data: array(record<string | number>({
+    check: (value, path) =>
+      typeof value === 'string' || (typeof value === 'number' && Number.isFinite(value))
+        ? []
+        : [{ path, message: 'must be a string or number' }],
+    toJSONSchema: () => ({ oneOf: [{ type: 'string' }, { type: 'number' }] }),
+  })),
+  features: array(string()),
+}, loose);
+
+const chartAxisSchema = object<ChartAxis>({
+  label: optional(string()),
+  unit: optional(string()),
+}, loose);
+
+const seriesChartShape = {
+  label: string(),
+  labels: array(string()),
+  series: array(object<ChartSeries>({
+    name: string(),
+    values: array(number()),
+    color: optional(string()),
+  }, loose)),
+  xAxis: optional(chartAxisSchema),
+  yAxis: optional(chartAxisSchema),
+};
+
+const analyticsChartSchema = taggedUnion<AnalyticsChart>({
+  line: object<LineChart>({ type: literal('line'), ...seriesChartShape }, loose),
+  bar: object<BarChart>({ type: literal('bar'), ...seriesChartShape }, loose),
+  pie: object<PieChart>({
+    type: literal('pie'),
+    label: string(),
+    slices: array(object<PieSlice>({
+      label: string(),
+      value: number({ min: 0 }),
+      color: optional(string()),
+    }, loose)),
+    unit: optional(string()),
+  }, loose),
+  sparkline: object<SparklineChart>({
+    type: literal('sparkline'),
+    label: string(),
+    values: array(number()),
+    unit: optional(string()),
+  }, loose),
+});
+
+const analyticsUISchema = object<AnalyticsDashboardUI>({
+  type: literal('analytics-dashboard'),
+  sections: array(object({
+    title: string(),
+    widgets: optional(array(object({
+      type: literal('metric'),
+      label: string(),
+      value: string(),
+      change: string(),
+    }, loose))),
+    charts: optional(array(analyticsChartSchema)),
+  }, loose)),
+}, loose);
+
+// External market data: only the fields the renderer relies on are strict
+const marketSchema: Schema<MarketData> = looseObject<MarketData>({
+  id: string({ min: 1 }),
+  source: literal('polymarket'),
+  question: string(),
+  yesPrice: number(),
+  noPrice: number(),
+  volume: number(),
+  liquidity: number(),
+});
+
+const marketsUISchema = object<MarketsUI>({
+  type: literal('markets'),
+  markets: array(marketSchema),
+  meta: looseObject<MarketsUI['meta']>({
+    hoursBack: number(),
+    cutoffTime: string(),
+    polymarketCount: number(),
+    totalCount: number(),
+    x402Protected: boolean(),
+  }),
+}, loose);
+
+export const uiSchemas: { [K in UIData['type']]: Schema<Extract<UIData, { type: K }>> } = {
+  grid: gridUISchema,
+  card: cardUISchema,
+  dashboard: dashboardUISchema,
+  'advanced-grid': advancedGridUISchema,
+  'data-table': dataTableUISchema,
+  'analytics-dashboard': analyticsUISchema,
+  markets: marketsUISchema,
+};
+
+export const uiDataSchema: Schema<UIData> = taggedUnion<UIData>(uiSchemas);
+
+export function validateUIData(value: unknown): ValidationResult<UIData> {
+  return validate(uiDataSchema, value, 'ui');
+}
+
+export const uiResponseSchema = object<UIResponse>({
+  success: boolean(),
+  ui: uiDataSchema,
+  tier: optional(literal('basic', 'premium', 'custom')),
+  message: string(),
+  paymentId: optional(string()),
+  contentId: optional(string()),
+  retainedUntil: optional(number()),
+}, loose);
+
+// 402 body: the standard x402 fields plus this server's pricing details
+export const paymentRequirementSchema: Schema<PaymentRequirement> = looseObject<PaymentRequirement>({
+  scheme: literal('exact'),
+  network: string(),
+  maxAmountRequired: string(),
+  resource: string(),
+  description: string(),
+  mimeType: string(),
+  payTo: string(),
+  maxTimeoutSeconds: number(),
+  asset: string(),
+});
+
+export const paymentRequiredSchema = object<PaymentRequiredResponse>({
+  x402Version: optional(number()),
+  accepts: optional(array(paymentRequirementSchema)),
+  error: optional(string()),
+  paymentRequired: literal(true),
+  price: number(),
+  network: string(),
+  networks: optional(array(string())),
+  asset: string(),
+  payTo: string(),
+  message: optional(string()),
+  options: optional(array(object({
+    asset: string(),
+    mint: string(),
+    decimals: number({ integer: true }),
+    native: boolean(),
+    amount: number({ integer: true }),
+  }, loose))),
+  pricing: optional(array(object({ label: string(), multiplier: number() }, loose))),
+  credits: optional(number({ integer: true })),
+}, loose);
@@ -0,0 +1,273 @@
+/**
+ * Settlement Ledger
+ * Records the facilitator settlement of every X-PAYMENT payload, so each
+ * payload settles at most once and unlocks at most one delivery, and
+ * retries settlements that failed on routes that deliver anyway
+ */
+
+import { createHash } from 'crypto';
+import type { PaymentRequirements, SettleResponse } from 'x402-solana/types';
+import { JsonFileStore, keyedListCodec, storeFilePath } from './json-file-store';
+import { getPaymentNetwork } from './payment-network';
+import type { SolanaNetwork } from './x402-config';
+
+/**
+ * What a route does when settlement fails:
+ * - withhold: answer 402 and keep the content; the client may retry with the same payload
+ * - deliver-and-retry: deliver the content and retry the settlement in the background
+ */
+export type SettlementFailurePolicy = 'withhold' | 'deliver-and-retry';
+
+export type SettlementStatus = 'settled' | 'failed' | 'retrying';
+
+export interface SettlementRecord {
+  key: string; // sha256 of the X-PAYMENT header
+  resource: string;
+  network: SolanaNetwork; // settled through this network's facilitator
+  status: SettlementStatus;
+  payer: string | null;
+  transaction: string | null; // settlement transaction, once settled
+  errorReason: string | null; // last facilitator error
+  attempts: number;
+  delivered: boolean; // content was served for this payload
+  deliveryClaimedAt?: number; // ms since epoch; a request is producing the content
+  paymentHeader: string; // kept to retry the settlement
+  requirements: PaymentRequirements;
+  updatedAt: number; // ms since epoch
+}
+
+/**
+ * Storage backend for settlement records
+ */
+export interface SettlementStore {
+  get(key: string): Promise<SettlementRecord | null>;
+  put(record: SettlementRecord): Promise<void>;
+  /**
+   * Applies `changes` to a record when `test` accepts it, atomically
+   * Returns the updated record, or null when it is missing or was not accepted
+   */
+  compareAndSet(
+    key: string,
+    test: (record: SettlementRecord) => boolean,
+    changes: Partial<SettlementRecord>
+  ): Promise<SettlementRecord | null>;
+}
+
+/**
+ * Keeps settlement records in `filePath`, or only in memory when it is null
+ */
+export class FileSettlementStore implements SettlementStore {
+  private readonly file: JsonFileStore<Map<string, SettlementRecord>>;
+
+  constructor(filePath: string | null) {
+    this.file = new JsonFileStore(filePath, keyedListCodec((record: SettlementRecord) => record.key));
+  }
+
+  async get(key: string): Promise<SettlementRecord | null> {
+    return (await this.file.read()).get(key) ?? null;
+  }
+
+  put(record: SettlementRecord): Promise<void> {
+    return this.file.update((records) => {
+      records.set(record.key, record);
+    });
+  }
+
+  compareAndSet(
+    key: string,
+    test: (record: SettlementRecord) => boolean,
+    changes: Partial<SettlementRecord>
+  ): Promise<SettlementRecord | null> {
+    return this.file.update((records) => {
+      const record = records.get(key);
+      if (!record || !test(record)) {
+        return null;
+      }
+      const updated = { ...record, ...changes };
+      records.set(key, updated);
+      return updated;
+    });
+  }
+}
+
+export interface SettleParams {
+  paymentHeader: string;
+  requirements: PaymentRequirements;
+  resource: string;
+  network: SolanaNetwork;
+  payer: string | null;
+}
+
+// Delays between background retries; the settlement stays failed after the last one
+const RETRY_DELAYS_MS = [5_000, 30_000, 300_000];
+
+// A claim older than this was left by a request that never finished, e.g. a restart
+const DELIVERY_CLAIM_TIMEOUT_MS = 120_000;
+
+/**
+ * Encodes a settlement as the base64 JSON X-PAYMENT-RESPONSE header
+ */
+export function encodePaymentResponse(record: SettlementRecord): string {
+  const response = {
+    success: record.status === 'settled',
+    transaction: record.transaction ?? '',
+    network: record.requirements.network,
+    payer: record.payer ?? undefined,
+    errorReason: record.errorReason ?? undefined,
+  };
+  return Buffer.from(JSON.stringify(response)).toString('base64');
+}
+
+/**
+ * Settles X-PAYMENT payloads through the facilitator of their network's getPaymentNetwork()
+ */
+export class SettlementLedger {
+  private readonly inFlight = new Map<string, Promise<SettlementRecord>>();
+
+  constructor(
+    private readonly store: SettlementStore,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  static keyFor(paymentHeader: string): string {
+    return createHash('sha256').update(paymentHeader).digest('hex');
+  }
+
+  /**
+   * Settles a payload unless it already settled; concurrent calls share one attempt
+   */
+  settle(params: SettleParams): Promise<SettlementRecord> {
+    const key = SettlementLedger.keyFor(params.paymentHeader);
+    const pending = this.inFlight.get(key);
+    if (pending) {
+      return pending;
+    }
+    const attempt = this.attempt(key, params).finally(() => this.inFlight.delete(key));
+    this.inFlight.set(key, attempt);
+    return attempt;
+  }
+
+  /**
+   * Returns the settlement of a payload, or null when it was never settled
+   */
+  find(paymentHeader: string): Promise<SettlementRecord | null> {
+    return this.store.get(SettlementLedger.keyFor(paymentHeader));
+  }
+
+  /**
+   * Claims the single delivery of a payload before its content is produced
+   * Returns false when it was already delivered or another request holds the claim
+   */
+  async claimDelivery(key: string): Promise<boolean> {
+    const now = this.now();
+    const claimed = await this.store.compareAndSet(
+      key,
+      (record) => !record.delivered && (!record.deliveryClaimedAt || now - record.deliveryClaimedAt > DELIVERY_CLAIM_TIMEOUT_MS),
+      { deliveryClaimedAt: now, updatedAt: now }
+    );
+    return claimed !== null;
+  }
+
+  /**
+   * Gives up a delivery claim when the content could not be served, so the payload can be retried
+   */
+  async releaseDelivery(key: string): Promise<void> {
+    await this.store.compareAndSet(key, (record) => !record.delivered, { deliveryClaimedAt: undefined, updatedAt: this.now() });
+  }
+
+  /**
+   * Marks a claimed settlement as delivered; later requests with its payload are replays
+   */
+  async markDelivered(key: string): Promise<void> {
+    await this.store.compareAndSet(key, () => true, { delivered: true, deliveryClaimedAt: undefined, updatedAt: this.now() });
+  }
+
+  /**
+   * Retries a failed settlement in the background, with backoff
+   */
+  async queueRetry(key: string): Promise<void> {
+    const queued = await this.store.compareAndSet(key, (record) => record.status !== 'settled', {
+      status: 'retrying',
+      updatedAt: this.now(),
+    });
+    if (queued) {
+      this.scheduleRetry(key, 0);
+    }
+  }
+
+  private scheduleRetry(key: string, retry: number): void {
+    if (retry >= RETRY_DELAYS_MS.length) {
+      return;
+    }
+    const timer = setTimeout(async () => {
+      const record = await this.store.get(key);
+      if (!record || record.status === 'settled') {
+        return;
+      }
+      const result = await this.settle(record);
+      if (result.status === 'settled') {
+        console.log(`[x402/settlement] Retried settlement succeeded: ${result.transaction}`);
+        return;
+      }
+      console.error(`[x402/settlement] Retry ${retry + 1} failed:`, result.errorReason);
+      if (retry + 1 < RETRY_DELAYS_MS.length) {
+        await this.store.compareAndSet(key, (current) => current.status !== 'settled', { status: 'retrying', updatedAt: this.now() });
+      }
+      this.scheduleRetry(key, retry + 1);
+    }, RETRY_DELAYS_MS[retry]);
+    // Pending retries must not keep the process alive
+    timer.unref?.();
+  }
+
+  private async attempt(key: string, { paymentHeader, requirements, resource, network, payer }: SettleParams): Promise<SettlementRecord> {
+    const existing = await this.store.get(key);
+    if (existing?.status === 'settled') {
+      return existing;
+    }
+
+    let response: SettleResponse | null = null;
+    try {
+      response = await getPaymentNetwork(network).facilitator.settlePayment(paymentHeader, requirements);
+    } catch (error) {
+      console.error('[x402/settlement] Facilitator settle request failed:', error);
+    }
+
+    const settled = response?.success === true;
+    const outcome = {
+      status: settled ? 'settled' : 'failed',
+      payer: response?.payer ?? existing?.payer ?? payer,
+      transaction: settled ? response!.transaction : null,
+      errorReason: settled ? null : response?.errorReason ?? 'unexpected_settle_error',
+      attempts: (existing?.attempts ?? 0) + 1,
+      updatedAt: this.now(),
+    } satisfies Partial<SettlementRecord>;
+    if (existing) {
+      // Only the settlement fields change, a delivery claimed meanwhile is kept
+      const updated = await this.store.compareAndSet(key, () => true, outcome);
+      if (updated) {
+        return updated;
+      }
+    }
+    const record: SettlementRecord = {
+      key,
+      resource,
+      network,
+      ...outcome,
+      delivered: false,
+      paymentHeader,
+      requirements,
+    };
+    await this.store.put(record);
+    return record;
+  }
+}
+
+/**
+ * Creates the settlement ledger used by the API routes
+ * Uses a file store when X402_SETTLEMENT_FILE is set, otherwise keeps settlements in memory
+ */
+export function createSettlementLedger(): SettlementLedger {
+  return new SettlementLedger(new FileSettlementStore(storeFilePath('X402_SETTLEMENT_FILE')));
+}
+
+export const settlementLedger = createSettlementLedger();
@@ -0,0 +1,144 @@
+/**
+ * Signature Ledger
+ * Records consumed payment signatures so a single on-chain transfer
+ * can only unlock one paid request
+ */
+
+import { JsonFileStore, keyedListCodec, storeFilePath } from './json-file-store';
+import { x402Config } from './x402-config';
+
+export interface LedgerEntry {
+  signature: string;
+  resource: string;
+  payer: string;
+  consumedAt: number; // ms since epoch
+}
+
+/**
+ * Storage backend for consumed signatures
+ * `insert` must be atomic: it returns false when the signature is already recorded
+ */
+export interface SignatureLedgerStore {
+  get(signature: string): Promise<LedgerEntry | null>;
+  insert(entry: LedgerEntry): Promise<boolean>;
+  delete(signature: string): Promise<void>;
+}
+
+export type LedgerRejectReason =
+  | 'SIGNATURE_REUSED'
+  | 'INVALID_TIMESTAMP'
+  | 'PAYMENT_EXPIRED';
+
+export type LedgerResult =
+  | { ok: true; entry: LedgerEntry }
+  | { ok: false; reason: LedgerRejectReason; message: string };
+
+/**
+ * Keeps consumed signatures in `filePath`, or only in memory when it is null
+ */
+export class FileSignatureLedgerStore implements SignatureLedgerStore {
+  private readonly file: JsonFileStore<Map<string, LedgerEntry>>;
+
+  constructor(filePath: string | null) {
+    this.file = new JsonFileStore(filePath, keyedListCodec((entry: LedgerEntry) => entry.signature));
+  }
+
+  async get(signature: string): Promise<LedgerEntry | null> {
+    return (await this.file.read()).get(signature) ?? null;
+  }
+
+  insert(entry: LedgerEntry): Promise<boolean> {
+    return this.file.update((entries) => {
+      if (entries.has(entry.signature)) {
+        return false;
+      }
+      entries.set(entry.signature, entry);
+      return true;
+    });
+  }
+
+  async delete(signature: string): Promise<void> {
+    await this.file.update((entries) => entries.delete(signature));
+  }
+}
+
+// Tolerate small client clock drift when checking X-Payment-Timestamp
+const CLOCK_SKEW_MS = 60_000;
+
+export interface ConsumeSignatureParams {
+  signature: string;
+  resource: string;
+  payer: string;
+  timestamp: string | null; // raw X-Payment-Timestamp header (ms)
+  blockTime: number | null | undefined; // transaction block time (seconds)
+}
+
+/**
+ * Enforces freshness and single use of payment signatures
+ */
+export class SignatureLedger {
+  constructor(
+    private readonly store: SignatureLedgerStore,
+    private readonly maxAgeSeconds: number = x402Config.maxPaymentAgeSeconds,
+    private readonly now: () => number = Date.now
+  ) {}
+
+  /**
+   * Checks payment age, then records the signature against the resource
+   * Call only after the transfer itself has been verified
+   */
+  async consume({ signature, resource, payer, timestamp, blockTime }: ConsumeSignatureParams): Promise<LedgerResult> {
+    const now = this.now();
+    const maxAgeMs = this.maxAgeSeconds * 1000;
+
+    const declaredAt = Number(timestamp);
+    if (!timestamp || !Number.isFinite(declaredAt) || declaredAt > now + CLOCK_SKEW_MS) {
+      return { ok: false, reason: 'INVALID_TIMESTAMP', message: 'X-Payment-Timestamp is missing or invalid' };
+    }
+    if (now - declaredAt > maxAgeMs) {
+      return { ok: false, reason: 'PAYMENT_EXPIRED', message: `Payment is older than ${this.maxAgeSeconds}s` };
+    }
+    if (!blockTime || now - blockTime * 1000 > maxAgeMs) {
+      return { ok: false, reason: 'PAYMENT_EXPIRED', message: `Transaction is older than ${this.maxAgeSeconds}s` };
+    }
+
+    const entry: LedgerEntry = { signature, resource, payer, consumedAt: now };
+    const inserted = await this.store.insert(entry);
+    if (!inserted) {
+      const existing = await this.store.get(signature);
+      return {
+        ok: false,
+        reason: 'SIGNATURE_REUSED',
+        message: `Payment signature already used for ${existing?.resource ?? 'another request'}`,
+      };
+    }
+
+    return { ok: true, entry };
+  }
+
+  /**
+   * Records a one-time redemption (e.g. of an access receipt) without freshness checks
+   * Returns false when the key was already redeemed
+   */
+  async redeem({ key, resource, payer }: { key: string; resource: string; payer: string }): Promise<boolean> {
+    return this.store.insert({ signature: key, resource, payer, consumedAt: this.now() });
+  }
+
+  /**
+   * Makes a consumed signature or redeemed key usable again, for a request
+   * that was paid but not served
+   */
+  async release(key: string): Promise<void> {
+    await this.store.delete(key);
+  }
+}
+
+/**
+ * Creates the ledger used by the API routes
+ * Uses a file store when X402_LEDGER_FILE is set, otherwise keeps signatures in memory
+ */
+export function createSignatureLedger(): SignatureLedger {
+  return new SignatureLedger(new FileSignatureLedgerStore(storeFilePath('X402_LEDGER_FILE')));
+}
+
+export const signatureLedger = createSignatureLedger();
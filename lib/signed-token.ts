@@ -0,0 +1,78 @@
+/**
+ * Signed Tokens
+ * Compact `payload.mac` tokens: base64url JSON claims with an HMAC-SHA256,
+ * used for access receipts and credit sessions
+ */
+
+import { createHmac, randomBytes, timingSafeEqual } from 'crypto';
+
+export type TokenRejectReason = 'MALFORMED' | 'BAD_SIGNATURE';
+
+export type TokenReadResult<T> =
+  | { ok: true; claims: T }
+  | { ok: false; reason: TokenRejectReason; message: string };
+
+// The value older copies of .env.example shipped with
+const PLACEHOLDER_SECRET = 'change-me';
+
+/**
+ * Reads X402_RECEIPT_SECRET; a production server refuses to start without a
+ * real one, as an ephemeral or published secret lets anyone forge tokens
+ */
+function readConfiguredSecret(): Buffer | null {
+  const secret = process.env.X402_RECEIPT_SECRET;
+  const production = process.env.NODE_ENV === 'production' && process.env.NEXT_PHASE !== 'phase-production-build';
+  if (production && (!secret || secret === PLACEHOLDER_SECRET)) {
+    throw new Error('X402_RECEIPT_SECRET must be set to a random secret in production');
+  }
+  return secret ? Buffer.from(secret, 'utf8') : null;
+}
+
+const configuredSecret = readConfiguredSecret();
+let devSecret: Buffer | null = null;
+
+/**
+ * Resolves the HMAC secret, falling back to a per-process secret in development
+ */
+function getTokenSecret(): Buffer {
+  if (configuredSecret) {
+    return configuredSecret;
+  }
+  if (!devSecret) {
+    console.warn('[x402/token] X402_RECEIPT_SECRET is not set - using an ephemeral secret');
+    devSecret = randomBytes(32);
+  }
+  return devSecret;
+}
+
+function sign(payload: string): string {
+  return createHmac('sha256', getTokenSecret()).update(payload).digest('base64url');
+}
+
+export function signToken(claims: object): string {
+  const payload = Buffer.from(JSON.stringify(claims), 'utf8').toString('base64url');
+  return `${payload}.${sign(payload)}`;
+}
+
+/**
+ * Checks a token's HMAC and decodes its claims
+ * Callers validate the claims themselves (version, expiry, binding)
+ */
+export function readToken<T>(token: string): TokenReadResult<T> {
+  const [payload, mac] = token.split('.');
+  if (!payload || !mac) {
+    return { ok: false, reason: 'MALFORMED', message: 'Token is malformed' };
+  }
+
+  const expected = Buffer.from(sign(payload));
+  const actual = Buffer.from(mac);
+  if (expected.length !== actual.length || !timingSafeEqual(expected, actual)) {
+    return { ok: false, reason: 'BAD_SIGNATURE', message: 'Token signature is invalid' };
+  }
+
+  try {
+    return { ok: true, claims: JSON.parse(Buffer.from(payload, 'base64url').toString('utf8')) as T };
+  } catch {
+    return { ok: false, reason: 'MALFORMED', message: 'Token is malformed' };
+  }
+}
@@ -0,0 +1,73 @@
+/**
+ * Sign-In With Solana
+ * Builds and parses the sign-in message a wallet signs with `signMessage`
+ * Shared by the client (building) and /api/auth/verify (parsing)
+ */
+
+export interface SignInMessageFields {
+  domain: string;
+  address: string; // base58 public key
+  statement: string;
+  uri: string;
+  nonce: string;
+  issuedAt: string; // ISO 8601
+  expirationTime?: string; // ISO 8601
+}
+
+const HEADER_SUFFIX = ' wants you to sign in with your Solana account:';
+
+/**
+ * Formats the message in the SIWS / EIP-4361 layout
+ */
+export function buildSignInMessage(fields: SignInMessageFields): string {
+  const lines = [
+    `${fields.domain}${HEADER_SUFFIX}`,
+    fields.address,
+    '',
+    fields.statement,
+    '',
+    `URI: ${fields.uri}`,
+    'Version: 1',
+    `Nonce: ${fields.nonce}`,
+    `Issued At: ${fields.issuedAt}`,
+  ];
+  if (fields.expirationTime) {
+    lines.push(`Expiration Time: ${fields.expirationTime}`);
+  }
+  return lines.join('\n');
+}
+
+/**
+ * Parses a message produced by buildSignInMessage; returns null when it is malformed
+ */
+export function parseSignInMessage(message: string): SignInMessageFields | null {
+  const lines = message.split('\n');
+  if (!lines[0]?.endsWith(HEADER_SUFFIX) || !lines[1] || lines[2] !== '' || lines[4] !== '') {
+    return null;
+  }
+
+  const fields = new Map<string, string>();
+  for (const line of lines.slice(5)) {
+    const separator = line.indexOf(': ');
+    if (separator > 0) {
+      fields.set(line.slice(0, separator), line.slice(separator + 2));
+    }
+  }
+
+  const uri = fields.get('URI');
+  const nonce = fields.get('Nonce');
+  const issuedAt = fields.get('Issued At');
+  if (!uri || !nonce || !issuedAt || fields.get('Version') !== '1') {
+    return null;
+  }
+
+  return {
+    domain: lines[0].slice(0, -HEADER_SUFFIX.length),
+    address: lines[1],
+    statement: lines[3],
+    uri,
+    nonce,
+    issuedAt,
+    expirationTime: fields.get('Expiration Time'),
+  };
+}
@@ -0,0 +1,55 @@
+/**
+ * Solana Networks
+ * Resolves the network a request pays on and links transactions to the
+ * explorer of that network
+ */
+
+import { x402Config, type NetworkConfig, type SolanaNetwork } from './x402-config';
+
+export type { SolanaNetwork };
+
+// Names the network a request pays on; the default network when omitted
+export const PAYMENT_NETWORK_HEADER = 'X-Payment-Network';
+
+let enabledNetworks: readonly SolanaNetwork[] | null = null;
+
+/**
+ * Networks payments are accepted on: x402Config.enabledNetworks unless replaced
+ */
+export function getEnabledNetworks(): readonly SolanaNetwork[] {
+  return enabledNetworks ?? x402Config.enabledNetworks;
+}
+
+/**
+ * Replaces the networks payments are accepted on, e.g. to enable devnet in tests
+ * Pass null to go back to the configured networks
+ */
+export function setEnabledNetworks(networks: readonly SolanaNetwork[] | null): void {
+  enabledNetworks = networks;
+}
+
+export function isEnabledNetwork(network: string): network is SolanaNetwork {
+  return (getEnabledNetworks() as readonly string[]).includes(network);
+}
+
+export function getNetworkConfig(network: SolanaNetwork = x402Config.network): NetworkConfig {
+  return x402Config.networks[network];
+}
+
+/**
+ * Resolves a requested network: the default network when none is named,
+ * null when the named network is not enabled
+ */
+export function resolveNetwork(requested: string | null | undefined): SolanaNetwork | null {
+  if (!requested) {
+    return x402Config.network;
+  }
+  return isEnabledNetwork(requested) ? requested : null;
+}
+
+/**
+ * Explorer link for a transaction on the network it was sent on
+ */
+export function explorerTxUrl(signature: string, network: SolanaNetwork = x402Config.network): string {
+  return `https://orb.helius.dev/tx/${signature}?cluster=${network}&advanced=true&tab=summary`;
+}
@@ -3,7 +3,33 @@
  * Helper functions for processing payments on Solana
  */
 
-import { Connection, PublicKey, Transaction, SystemProgram, LAMPORTS_PER_SOL } from '@solana/web3.js';
+import {
+  ComputeBudgetProgram,
+  Connection,
+  PublicKey,
+  Transaction,
+  TransactionMessage,
+  VersionedTransaction,
+  SystemProgram,
+  LAMPORTS_PER_SOL,
+  type AccountInfo,
+  type Commitment,
+  type ParsedInstruction,
+  type ParsedTransactionMeta,
+  type ParsedTransactionWithMeta,
+  type PartiallyDecodedInstruction,
+  type TokenBalance,
+} from '@solana/web3.js';
+import {
+  TOKEN_2022_PROGRAM_ID,
+  TOKEN_PROGRAM_ID,
+  createAssociatedTokenAccountIdempotentInstruction,
+  createTransferCheckedInstruction,
+  getAssociatedTokenAddressSync,
+  unpackMint,
+} from '@solana/spl-token';
+import type { PaymentConnection } from './payment-network';
+import type { PaymentRequirement } from './types';
 
 export interface CreatePaymentTransactionParams {
   fromPubkey: PublicKey;
@@ -36,35 +62,364 @@ export async function createPaymentTransaction({
   return transaction;
 }
 
+export interface CreateTokenPaymentTransactionParams extends CreatePaymentTransactionParams {
+  mint: PublicKey;
+  decimals: number;
+}
+
 /**
- * Verifies a payment transaction on Solana
+ * Creates an SPL token payment transaction on Solana
+ * Transfers to the recipient's associated token account, creating it if needed
  */
-export async function verifyPaymentTransaction(
+export async function createTokenPaymentTransaction({
+  fromPubkey,
+  toPubkey,
+  amount,
+  mint,
+  decimals,
+  connection,
+}: CreateTokenPaymentTransactionParams): Promise<Transaction> {
+  const sourceAta = getAssociatedTokenAddressSync(mint, fromPubkey);
+  const destinationAta = getAssociatedTokenAddressSync(mint, toPubkey, true);
+
+  const transaction = new Transaction().add(
+    createAssociatedTokenAccountIdempotentInstruction(fromPubkey, destinationAta, toPubkey, mint),
+    createTransferCheckedInstruction(sourceAta, mint, destinationAta, fromPubkey, BigInt(amount), decimals)
+  );
+
+  const { blockhash } = await connection.getLatestBlockhash();
+  transaction.recentBlockhash = blockhash;
+  transaction.feePayer = fromPubkey;
+
+  return transaction;
+}
+
+/**
+ * The part of a Solana Connection used to build x402 payment transactions
+ */
+export interface X402TransactionConnection {
+  getAccountInfo(address: PublicKey, commitment?: Commitment): Promise<AccountInfo<Buffer> | null>;
+  getLatestBlockhash(commitment?: Commitment): Promise<{ blockhash: string; lastValidBlockHeight: number }>;
+}
+
+export interface CreateX402PaymentTransactionParams {
+  fromPubkey: PublicKey;
+  requirement: PaymentRequirement;
+  connection: X402TransactionConnection;
+}
+
+/**
+ * Creates the transaction of a standard x402 'exact' payment
+ * The facilitator pays the fee and submits it, so the payer only signs it
+ */
+export async function createX402PaymentTransaction({
+  fromPubkey,
+  requirement,
+  connection,
+}: CreateX402PaymentTransactionParams): Promise<VersionedTransaction> {
+  const feePayer = requirement.extra?.feePayer;
+  if (typeof feePayer !== 'string' || !feePayer) {
+    throw new Error('Payment requirements are missing the facilitator fee payer (extra.feePayer)');
+  }
+
+  const mint = new PublicKey(requirement.asset);
+  const mintAccount = await connection.getAccountInfo(mint, 'confirmed');
+  const programId = mintAccount?.owner.equals(TOKEN_2022_PROGRAM_ID) ? TOKEN_2022_PROGRAM_ID : TOKEN_PROGRAM_ID;
+  const { decimals } = unpackMint(mint, mintAccount, programId);
+  const toPubkey = new PublicKey(requirement.payTo);
+
+  const instructions = [
+    // The facilitator expects the compute budget instructions first
+    ComputeBudgetProgram.setComputeUnitLimit({ units: 7_000 }),
+    ComputeBudgetProgram.setComputeUnitPrice({ microLamports: 1 }),
+    createTransferCheckedInstruction(
+      getAssociatedTokenAddressSync(mint, fromPubkey, false, programId),
+      mint,
+      getAssociatedTokenAddressSync(mint, toPubkey, true, programId),
+      fromPubkey,
+      BigInt(requirement.maxAmountRequired),
+      decimals,
+      [],
+      programId
+    ),
+  ];
+
+  const { blockhash } = await connection.getLatestBlockhash('confirmed');
+  const message = new TransactionMessage({
+    payerKey: new PublicKey(feePayer),
+    recentBlockhash: blockhash,
+    instructions,
+  }).compileToV0Message();
+
+  return new VersionedTransaction(message);
+}
+
+function toBase64(bytes: Uint8Array): string {
+  return btoa(Array.from(bytes, (byte) => String.fromCharCode(byte)).join(''));
+}
+
+/**
+ * Encodes a payer-signed x402 transaction as an X-PAYMENT header value
+ */
+export function encodePaymentHeader(
+  transaction: VersionedTransaction,
+  requirement: PaymentRequirement,
+  x402Version: number
+): string {
+  const payload = {
+    x402Version,
+    scheme: requirement.scheme,
+    network: requirement.network,
+    payload: { transaction: toBase64(transaction.serialize()) },
+  };
+  return btoa(JSON.stringify(payload));
+}
+
+export type PaymentFailureReason =
+  | 'NOT_FOUND'
+  | 'TX_FAILED'
+  | 'INVALID_PUBLIC_KEY'
+  | 'WRONG_SENDER'
+  | 'WRONG_RECIPIENT'
+  | 'UNDERPAID'
+  | 'RPC_ERROR';
+
+export type PaymentVerificationResult =
+  | {
+      ok: true;
+      payer: string;
+      recipient: string;
+      amount: number; // in the asset's smallest unit
+      blockTime: number | null;
+    }
+  | {
+      ok: false;
+      reason: PaymentFailureReason;
+      message: string;
+    };
+
+export interface VerifyTransferParams {
+  signature: string;
+  connection: PaymentConnection;
+  recipient: string;
+  // Minimum the recipient must receive, in the asset's smallest unit, or a function of
+  // the transaction's block time (seconds) for time-dependent quotes
+  amount: number | ((blockTime: number | null) => number);
+  sender?: string; // declared payer, must sign and fund the transfer
+  mint?: string; // SPL token mint; omit for native SOL
+}
+
+interface SystemTransfer {
+  source: string;
+  destination: string;
+  lamports: number;
+}
+
+type Failure = Extract<PaymentVerificationResult, { ok: false }>;
+
+function requiredAmount(amount: VerifyTransferParams['amount'], blockTime: number | null | undefined): number {
+  return typeof amount === 'function' ? amount(blockTime ?? null) : amount;
+}
+
+/**
+ * Extracts SystemProgram transfers from top-level and inner instructions
+ */
+function collectSystemTransfers(
+  instructions: (ParsedInstruction | PartiallyDecodedInstruction)[]
+): SystemTransfer[] {
+  const transfers: SystemTransfer[] = [];
+  for (const instruction of instructions) {
+    if (!('parsed' in instruction) || !instruction.programId.equals(SystemProgram.programId)) {
+      continue;
+    }
+    const { type, info } = instruction.parsed ?? {};
+    if ((type === 'transfer' || type === 'transferWithSeed') && info) {
+      transfers.push({
+        source: info.source ?? info.from,
+        destination: info.destination,
+        lamports: Number(info.lamports),
+      });
+    }
+  }
+  return transfers;
+}
+
+/**
+ * Fetches a confirmed transaction and checks that it succeeded
+ * and, when given, that the declared sender signed it
+ */
+async function loadPaymentTransaction(
   signature: string,
-  connection: Connection
-): Promise<boolean> {
+  connection: PaymentConnection,
+  sender: string | undefined
+): Promise<{ tx: ParsedTransactionWithMeta; meta: ParsedTransactionMeta; expectedSender?: string } | Failure> {
+  let tx;
   try {
-    const transaction = await connection.getTransaction(signature, {
+    tx = await connection.getParsedTransaction(signature, {
       maxSupportedTransactionVersion: 0,
+      commitment: 'confirmed',
     });
-    
-    if (!transaction || !transaction.meta) {
-      return false;
-    }
-    
-    // Verify transaction was successful
-    if (transaction.meta.err) {
-      return false;
-    }
-    
-    // Additional verification logic can be added here
-    // to check the amount and recipient
-    
-    return true;
   } catch (error) {
-    console.error('Error verifying transaction:', error);
-    return false;
+    console.error('Error fetching transaction:', error);
+    return { ok: false, reason: 'RPC_ERROR', message: 'Could not fetch transaction' };
+  }
+
+  if (!tx || !tx.meta) {
+    return { ok: false, reason: 'NOT_FOUND', message: 'Transaction not found' };
+  }
+
+  // Verify transaction was successful
+  if (tx.meta.err) {
+    return { ok: false, reason: 'TX_FAILED', message: 'Transaction failed on-chain' };
+  }
+
+  let expectedSender: string | undefined;
+  try {
+    expectedSender = sender ? new PublicKey(sender).toBase58() : undefined;
+  } catch {
+    return { ok: false, reason: 'INVALID_PUBLIC_KEY', message: `Invalid payer public key: ${sender}` };
+  }
+
+  if (expectedSender) {
+    const signed = tx.transaction.message.accountKeys.some(
+      (account) => account.signer && account.pubkey.toBase58() === expectedSender
+    );
+    if (!signed) {
+      return { ok: false, reason: 'WRONG_SENDER', message: 'Declared payer did not sign the transaction' };
+    }
+  }
+
+  return { tx, meta: tx.meta, expectedSender };
+}
+
+/**
+ * Verifies that a confirmed transaction pays `recipient` at least `amount` lamports
+ * Only SystemProgram transfer instructions count; when `sender` is given it must
+ * have signed the transaction and be the source of the transfers
+ */
+export async function verifySolTransfer({
+  signature,
+  connection,
+  recipient,
+  amount,
+  sender,
+}: VerifyTransferParams): Promise<PaymentVerificationResult> {
+  const loaded = await loadPaymentTransaction(signature, connection, sender);
+  if ('ok' in loaded) {
+    return loaded;
+  }
+  const { tx, meta, expectedSender } = loaded;
+
+  const instructions = [
+    ...tx.transaction.message.instructions,
+    ...(meta.innerInstructions ?? []).flatMap((inner) => inner.instructions),
+  ];
+  const toRecipient = collectSystemTransfers(instructions).filter(
+    (transfer) => transfer.destination === recipient
+  );
+
+  if (toRecipient.length === 0) {
+    return { ok: false, reason: 'WRONG_RECIPIENT', message: 'Transaction does not transfer to the payment recipient' };
+  }
+
+  const fromSender = expectedSender
+    ? toRecipient.filter((transfer) => transfer.source === expectedSender)
+    : toRecipient;
+
+  if (fromSender.length === 0) {
+    return { ok: false, reason: 'WRONG_SENDER', message: 'Transfer was not sent from the declared payer' };
+  }
+
+  const lamports = fromSender.reduce((total, transfer) => total + transfer.lamports, 0);
+  const required = requiredAmount(amount, tx.blockTime);
+  if (lamports < required) {
+    return { ok: false, reason: 'UNDERPAID', message: `Transferred ${lamports} lamports, expected ${required}` };
+  }
+
+  return {
+    ok: true,
+    payer: expectedSender ?? fromSender[0].source,
+    recipient,
+    amount: lamports,
+    blockTime: tx.blockTime ?? null,
+  };
+}
+
+/**
+ * Sums the change of an owner's token balance for a mint across a transaction
+ */
+function tokenBalanceDelta(meta: ParsedTransactionMeta, owner: string, mint: string): bigint {
+  const sum = (balances: TokenBalance[] | null | undefined) =>
+    (balances ?? [])
+      .filter((balance) => balance.owner === owner && balance.mint === mint)
+      .reduce((total, balance) => total + BigInt(balance.uiTokenAmount.amount), BigInt(0));
+  return sum(meta.postTokenBalances) - sum(meta.preTokenBalances);
+}
+
+/**
+ * Verifies that a confirmed transaction moves at least `amount` of an SPL token
+ * from `sender` to `recipient`, using the token balance changes of the transaction
+ */
+export async function verifyTokenTransfer({
+  signature,
+  connection,
+  recipient,
+  amount,
+  sender,
+  mint,
+}: VerifyTransferParams & { mint: string }): Promise<PaymentVerificationResult> {
+  const loaded = await loadPaymentTransaction(signature, connection, sender);
+  if ('ok' in loaded) {
+    return loaded;
+  }
+  const { tx, meta, expectedSender } = loaded;
+
+  const received = tokenBalanceDelta(meta, recipient, mint);
+  if (received <= BigInt(0)) {
+    return { ok: false, reason: 'WRONG_RECIPIENT', message: 'Transaction does not transfer the token to the payment recipient' };
+  }
+
+  if (expectedSender && tokenBalanceDelta(meta, expectedSender, mint) > -received) {
+    return { ok: false, reason: 'WRONG_SENDER', message: 'Token transfer was not funded by the declared payer' };
+  }
+
+  const required = requiredAmount(amount, tx.blockTime);
+  if (received < BigInt(required)) {
+    return { ok: false, reason: 'UNDERPAID', message: `Transferred ${received} token units, expected ${required}` };
+  }
+
+  return {
+    ok: true,
+    payer: expectedSender ?? tx.transaction.message.accountKeys.find((account) => account.signer)!.pubkey.toBase58(),
+    recipient,
+    amount: Number(received),
+    blockTime: tx.blockTime ?? null,
+  };
+}
+
+/**
+ * Verifies a transfer in native SOL or, when `mint` is given, an SPL token
+ */
+export async function verifyTransfer(params: VerifyTransferParams): Promise<PaymentVerificationResult> {
+  return params.mint
+    ? verifyTokenTransfer({ ...params, mint: params.mint })
+    : verifySolTransfer(params);
+}
+
+/**
+ * Verifies a payment transaction on Solana
+ * Checks the recipient, amount and (optionally) sender of the transfer
+ */
+export async function verifyPaymentTransaction(
+  signature: string,
+  connection: PaymentConnection,
+  expected: Omit<VerifyTransferParams, 'signature' | 'connection'>
+): Promise<boolean> {
+  const result = await verifyTransfer({ signature, connection, ...expected });
+  if (!result.ok) {
+    console.error('Payment verification failed:', result.reason, result.message);
   }
+  return result.ok;
 }
 
 /**
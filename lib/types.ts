@@ -2,16 +2,6 @@
  * Type definitions for UI components and configurations
  */
 
-// UI Component Types
-export type ComponentType = 
-  | 'grid' 
-  | 'card' 
-  | 'dashboard' 
-  | 'advanced-grid' 
-  | 'data-table' 
-  | 'analytics'
-  | 'markets';
-
 // Configuration interfaces
 export interface GridConfig {
   columns?: number;
@@ -33,7 +23,13 @@ export interface DashboardConfig {
   // Dashboard-specific config (empty for now, can be extended)
 }
 
-export type UIConfig = GridConfig | CardConfig | DashboardConfig;
+export interface MarketsConfig {
+  hoursBack?: number; // markets created in the last hours
+  category?: string; // case-insensitive
+  limit?: number;
+}
+
+export type UIConfig = GridConfig | CardConfig | DashboardConfig | MarketsConfig;
 
 // UI Data structures
 export interface GridItem {
@@ -72,6 +68,8 @@ export interface Widget {
   value?: string;
   trend?: string;
   data?: number[];
+  labels?: string[]; // x-axis label per data point
+  unit?: string; // of the data points, e.g. '%'
 }
 
 export interface DashboardUI {
@@ -118,12 +116,58 @@ export interface AnalyticsWidget {
   change: string;
 }
 
-export interface AnalyticsChart {
-  type: 'line' | 'bar' | 'pie';
+// Chart Types
+export interface ChartAxis {
+  label?: string;
+  unit?: string; // '$', '€' and '£' are written before values, anything else after, e.g. '%' or 'users'
+}
+
+export interface ChartSeries {
+  name: string;
+  values: number[]; // one per x-axis label
+  color?: string; // CSS color, defaults to the palette
+}
+
+export interface PieSlice {
+  label: string;
+  value: number;
+  color?: string;
+}
+
+interface SeriesChartBase {
+  label: string;
+  labels: string[]; // x-axis categories
+  series: ChartSeries[];
+  xAxis?: ChartAxis;
+  yAxis?: ChartAxis;
+}
+
+export interface LineChart extends SeriesChartBase {
+  type: 'line';
+}
+
+export interface BarChart extends SeriesChartBase {
+  type: 'bar';
+}
+
+export type SeriesChart = LineChart | BarChart;
+
+export interface PieChart {
+  type: 'pie';
+  label: string;
+  slices: PieSlice[];
+  unit?: string;
+}
+
+export interface SparklineChart {
+  type: 'sparkline';
   label: string;
-  data: unknown[];
+  values: number[];
+  unit?: string;
 }
 
+export type AnalyticsChart = LineChart | BarChart | PieChart | SparklineChart;
+
 export interface AnalyticsSection {
   title: string;
   widgets?: AnalyticsWidget[];
@@ -192,22 +236,57 @@ export type UIData =
   | AnalyticsDashboardUI
   | MarketsUI;
 
+// UI Component Types: a component's id is the type of the UIData it renders
+export type ComponentType = UIData['type'];
+
 // API Response types
 export interface UIResponse {
   success: boolean;
   ui: UIData;
   tier?: 'basic' | 'premium' | 'custom';
   message: string;
+  paymentId?: string; // payment log entry, listed on /history
+  contentId?: string; // stored render, re-opened via GET /api/renders/[contentId]
+  retainedUntil?: number; // ms since epoch
 }
 
 // x402 Payment Protocol Types
+export interface AcceptedPayment {
+  asset: string; // symbol, e.g. 'SOL' or 'USDC'
+  mint: string;
+  decimals: number;
+  native: boolean; // native SOL transfer rather than an SPL token transfer
+  amount: number; // in the asset's smallest unit
+}
+
+// Standard x402 payment requirements, one per accepted asset
+export interface PaymentRequirement {
+  scheme: 'exact';
+  network: string;
+  maxAmountRequired: string; // in the asset's smallest unit
+  resource: string;
+  description: string;
+  mimeType: string;
+  payTo: string;
+  maxTimeoutSeconds: number;
+  asset: string; // mint address
+  extra?: Record<string, unknown>;
+}
+
 export interface PaymentRequiredResponse {
+  x402Version?: number;
+  accepts?: PaymentRequirement[];
+  error?: string;
   paymentRequired: true;
   price: number;
-  network: string;
+  network: string; // Solana cluster the quote is for, e.g. 'devnet'
+  networks?: string[]; // every cluster the server accepts; request another with X-Payment-Network
   asset: string;
-  payTo: string;
+  payTo: string; // treasury on `network`
   message?: string;
+  options?: AcceptedPayment[]; // every accepted asset, default first
+  pricing?: Array<{ label: string; multiplier: number }>; // factors applied to the base price
+  credits?: number; // cost when paying with prepaid credits
 }
 
 export interface PaymentProof {
@@ -0,0 +1,216 @@
+/**
+ * Runtime Validation
+ * Small schema builders whose output type is checked against the
+ * interfaces in lib/types.ts, so the validators cannot drift from the types
+ */
+
+export interface ValidationIssue {
+  path: string; // e.g. 'config.itemCount'
+  message: string;
+}
+
+export type ValidationResult<T> =
+  | { ok: true; value: T }
+  | { ok: false; issues: ValidationIssue[] };
+
+/**
+ * JSON Schema (draft 2020-12) subset produced by the builders, for published API descriptions
+ */
+export interface JsonSchema {
+  $ref?: string;
+  description?: string;
+  type?: 'string' | 'number' | 'integer' | 'boolean' | 'array' | 'object';
+  enum?: Array<string | number | boolean>;
+  minimum?: number;
+  maximum?: number;
+  minLength?: number;
+  maxLength?: number;
+  items?: JsonSchema;
+  maxItems?: number;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean | JsonSchema;
+  oneOf?: JsonSchema[];
+  allOf?: JsonSchema[];
+}
+
+export interface Schema<T> {
+  check(value: unknown, path: string): ValidationIssue[];
+  toJSONSchema(): JsonSchema;
+  // Marker so `Schema<GridConfig>` annotations are checked structurally
+  readonly _type?: T;
+}
+
+/**
+ * Validates a value, returning it typed when it matches the schema
+ */
+export function validate<T>(schema: Schema<T>, value: unknown, path: string = ''): ValidationResult<T> {
+  const issues = schema.check(value, path);
+  return issues.length === 0 ? { ok: true, value: value as T } : { ok: false, issues };
+}
+
+/**
+ * Formats issues as a single message, e.g. 'config.itemCount: must be at most 100'
+ */
+export function formatIssues(issues: ValidationIssue[]): string {
+  return issues.map(({ path, message }) => (path ? `${path}: ${message}` : message)).join('; ');
+}
+
+function issue(path: string, message: string): ValidationIssue[] {
+  return [{ path, message }];
+}
+
+function join(path: string, key: string | number): string {
+  return typeof key === 'number' ? `${path}[${key}]` : path ? `${path}.${key}` : key;
+}
+
+// Unbounded limits are left out, JSON has no Infinity
+function finite(bounds: Partial<Record<keyof JsonSchema, number>>): JsonSchema {
+  return Object.fromEntries(Object.entries(bounds).filter(([, value]) => Number.isFinite(value)));
+}
+
+export function string({ min = 0, max = Infinity }: { min?: number; max?: number } = {}): Schema<string> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'string') return issue(path, 'must be a string');
+      if (value.length < min) return issue(path, `must be at least ${min} characters`);
+      if (value.length > max) return issue(path, `must be at most ${max} characters`);
+      return [];
+    },
+    toJSONSchema: () => ({ type: 'string', ...finite({ minLength: min || undefined, maxLength: max }) }),
+  };
+}
+
+export function number(
+  { min = -Infinity, max = Infinity, integer = false }: { min?: number; max?: number; integer?: boolean } = {}
+): Schema<number> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'number' || !Number.isFinite(value)) return issue(path, 'must be a finite number');
+      if (integer && !Number.isInteger(value)) return issue(path, 'must be an integer');
+      if (value < min) return issue(path, `must be at least ${min}`);
+      if (value > max) return issue(path, `must be at most ${max}`);
+      return [];
+    },
+    toJSONSchema: () => ({ type: integer ? 'integer' : 'number', ...finite({ minimum: min, maximum: max }) }),
+  };
+}
+
+export function boolean(): Schema<boolean> {
+  return {
+    check: (value, path) => (typeof value === 'boolean' ? [] : issue(path, 'must be a boolean')),
+    toJSONSchema: () => ({ type: 'boolean' }),
+  };
+}
+
+export function unknownValue(): Schema<unknown> {
+  return { check: () => [], toJSONSchema: () => ({}) };
+}
+
+export function literal<const T extends string | number | boolean>(...values: T[]): Schema<T> {
+  return {
+    check: (value, path) =>
+      values.includes(value as T) ? [] : issue(path, `must be one of ${values.map(String).join(', ')}`),
+    toJSONSchema: () => ({ enum: values }),
+  };
+}
+
+export function array<T>(item: Schema<T>, { max = Infinity }: { max?: number } = {}): Schema<T[]> {
+  return {
+    check: (value, path) => {
+      if (!Array.isArray(value)) return issue(path, 'must be an array');
+      if (value.length > max) return issue(path, `must have at most ${max} items`);
+      return value.flatMap((entry, index) => item.check(entry, join(path, index)));
+    },
+    toJSONSchema: () => ({ type: 'array', items: item.toJSONSchema(), ...finite({ maxItems: max }) }),
+  };
+}
+
+export function record<T>(item: Schema<T>): Schema<Record<string, T>> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return issue(path, 'must be an object');
+      return Object.entries(value).flatMap(([key, entry]) => item.check(entry, join(path, key)));
+    },
+    toJSONSchema: () => ({ type: 'object', additionalProperties: item.toJSONSchema() }),
+  };
+}
+
+type Shape<T> = { [K in keyof T]-?: Schema<T[K]> | OptionalSchema<T[K]> };
+
+interface OptionalSchema<T> extends Schema<T | undefined> {
+  optional: true;
+}
+
+export function optional<T>(schema: Schema<T>): OptionalSchema<T> {
+  return {
+    optional: true,
+    check: (value, path) => (value === undefined ? [] : schema.check(value, path)),
+    toJSONSchema: () => schema.toJSONSchema(),
+  };
+}
+
+function objectSchema(shape: Record<string, Schema<unknown>>, allowUnknown: boolean): Schema<unknown> {
+  return {
+    check: (value, path) => {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) return issue(path, 'must be an object');
+      const input = value as Record<string, unknown>;
+      const known = Object.keys(shape);
+      const unknownKeys = allowUnknown ? [] : Object.keys(input).filter((key) => !known.includes(key));
+      return [
+        ...unknownKeys.flatMap((key) => issue(join(path, key), 'is not allowed')),
+        ...known.flatMap((key) => {
+          if (input[key] === undefined && !('optional' in shape[key])) {
+            return issue(join(path, key), 'is required');
+          }
+          return shape[key].check(input[key], join(path, key));
+        }),
+      ];
+    },
+    toJSONSchema: () => {
+      const required = Object.keys(shape).filter((key) => !('optional' in shape[key]));
+      return {
+        type: 'object',
+        properties: Object.fromEntries(Object.entries(shape).map(([key, schema]) => [key, schema.toJSONSchema()])),
+        ...(required.length > 0 ? { required } : {}),
+        additionalProperties: allowUnknown,
+      };
+    },
+  };
+}
+
+/**
+ * Object schema covering every field; unknown keys are rejected unless `allowUnknown` is set
+ */
+export function object<T>(shape: Shape<T>, { allowUnknown = false }: { allowUnknown?: boolean } = {}): Schema<T> {
+  return objectSchema(shape as Record<string, Schema<unknown>>, allowUnknown) as Schema<T>;
+}
+
+/**
+ * Object schema that checks only the listed fields and ignores any others,
+ * for data from external sources
+ */
+export function looseObject<T>(shape: Partial<Shape<T>>): Schema<T> {
+  return objectSchema(shape as Record<string, Schema<unknown>>, true) as Schema<T>;
+}
+
+/**
+ * Union discriminated by a `type` field
+ */
+export function taggedUnion<T extends { type: string }>(
+  variants: { [K in T['type']]: Schema<Extract<T, { type: K }>> }
+): Schema<T> {
+  return {
+    check: (value, path) => {
+      const type = (value as { type?: unknown } | null)?.type;
+      // Own keys only, so inherited names such as 'constructor' are not variants
+      if (typeof type !== 'string' || !Object.hasOwn(variants, type)) {
+        return issue(join(path, 'type'), `must be one of ${Object.keys(variants).join(', ')}`);
+      }
+      return (variants as Record<string, Schema<unknown>>)[type].check(value, path);
+    },
+    toJSONSchema: () => ({
+      oneOf: Object.values<Schema<unknown>>(variants).map((variant) => variant.toJSONSchema()),
+    }),
+  };
+}
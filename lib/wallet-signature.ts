@@ -0,0 +1,27 @@
+/**
+ * Wallet Signatures
+ * Verifies ed25519 signatures produced by a wallet's signMessage
+ */
+
+import { createPublicKey, verify } from 'crypto';
+import { PublicKey } from '@solana/web3.js';
+
+/**
+ * Checks that `signature` (base64) is the wallet's signature of `message`
+ * Returns false for malformed keys or signatures instead of throwing
+ */
+export function verifyWalletSignature(publicKey: string, message: string, signature: string): boolean {
+  try {
+    const key = createPublicKey({
+      key: {
+        kty: 'OKP',
+        crv: 'Ed25519',
+        x: Buffer.from(new PublicKey(publicKey).toBytes()).toString('base64url'),
+      },
+      format: 'jwk',
+    });
+    return verify(null, Buffer.from(message, 'utf8'), key, Buffer.from(signature, 'base64'));
+  } catch {
+    return false;
+  }
+}
@@ -1,45 +1,289 @@
 /**
- * x402 Client Utilities
- * Helper functions for handling x402 payment flow on the client side
+ * x402 Client
+ * Headless client for x402-protected endpoints, shared by the payment
+ * button, the CLI and scripts: reads the requirements of a 402, picks an
+ * accepted asset within the spend limits, settles through a Settler and retries
  */
 
-import type { PaymentRequiredResponse, PaymentProof } from './types';
+import type { Signer } from './x402-signer';
+import type { PaymentRequiredResponse, PaymentRequirement } from './types';
+import type { AssetPrice } from './payment-assets';
+import { PAYMENT_NETWORK_HEADER } from './solana-networks';
+
+export type X402ClientStatus = 'requesting' | 'signing' | 'confirming' | 'retrying';
+
+// One way to pay a 402: the server's option for an asset and/or its x402 requirement
+export interface PaymentOption {
+  asset: string; // symbol when the server lists it, otherwise the mint
+  mint: string;
+  amount: number; // in the asset's smallest unit
+  native: boolean;
+  decimals: number | null;
+  requirement: PaymentRequirement | null;
+}
+
+export interface SettlementContext {
+  signer: Signer;
+  details: PaymentRequiredResponse;
+  onStatus?: (status: X402ClientStatus) => void;
+}
+
+export interface Settlement {
+  headers: Record<string, string>; // proof of payment sent with the retried request
+  signature: string | null; // payment transaction, when known before the retry
+}
 
 /**
- * Fetches data from an x402-protected endpoint
- * Handles 402 Payment Required responses automatically
+ * Turns a selected payment option into proof of payment; see lib/x402-settlers.ts
  */
-export async function fetchWithPayment(
-  url: string,
-  options?: RequestInit,
-  onPaymentRequired?: (paymentDetails: PaymentRequiredResponse) => Promise<PaymentProof | null>
-): Promise<Response> {
-  const response = await fetch(url, options);
-  
-  if (response.status === 402) {
-    const paymentDetails: PaymentRequiredResponse = await response.json();
-    
-    if (onPaymentRequired) {
-      const proof = await onPaymentRequired(paymentDetails);
-      
-      if (proof) {
-        // Retry request with payment proof
-        return fetch(url, {
-          ...options,
-          headers: {
-            ...options?.headers,
-            'X-Payment-Signature': proof.signature,
-            'X-Payment-PublicKey': proof.publicKey,
-            'X-Payment-Timestamp': proof.timestamp.toString(),
-          },
-        });
-      }
-    }
-    
-    throw new Error('Payment required but no payment handler provided');
-  }
-  
-  return response;
+export interface Settler {
+  name: string;
+  canPay(option: PaymentOption): boolean;
+  settle(option: PaymentOption, context: SettlementContext): Promise<Settlement>;
+}
+
+// Amounts in each asset's smallest unit, keyed by asset symbol or mint
+export type SpendLimit = Partial<Record<string, number>>;
+
+export interface X402ClientOptions {
+  signer: Signer;
+  settler: Settler;
+  network?: string; // Solana cluster to pay on, sent as X-Payment-Network; the server's default when omitted
+  assets?: string[]; // accepted asset symbols or mints to pay with, preferred first; server order when omitted
+  maxPerCall?: SpendLimit;
+  maxPerSession?: SpendLimit;
+  fetch?: typeof fetch;
+  onStatus?: (status: X402ClientStatus) => void;
+  onPaymentRequired?: (details: PaymentRequiredResponse) => void;
+}
+
+export interface X402RequestOptions {
+  assets?: string[]; // overrides the client's asset preference for this call
+  maxAmount?: SpendLimit; // overrides maxPerCall for this call
+  pay?: boolean; // false returns the 402 response instead of paying
+}
+
+export interface PaymentMade {
+  settler: string; // name of the settler that paid
+  asset: string; // symbol when the server lists it, otherwise the mint
+  mint: string;
+  amount: number; // in the asset's smallest unit
+  payer: string;
+  signature: string | null; // transfer signature, or the settlement transaction from X-PAYMENT-RESPONSE
+}
+
+export interface X402Result {
+  response: Response;
+  payment: PaymentMade | null;
+}
+
+export type X402ClientErrorReason =
+  | 'INVALID_402'
+  | 'NO_ACCEPTED_ASSET'
+  | 'OVER_CALL_LIMIT'
+  | 'OVER_SESSION_LIMIT'
+  | 'PAYMENT_REJECTED';
+
+export class X402ClientError extends Error {
+  constructor(
+    readonly reason: X402ClientErrorReason,
+    message: string,
+    readonly payment: PaymentMade | null = null // set when funds may have moved
+  ) {
+    super(message);
+    this.name = 'X402ClientError';
+  }
+}
+
+const SOLANA_NETWORKS = ['solana', 'solana-devnet'];
+
+/**
+ * Lists the payment options of a 402 body: this server's `options`, matched to the
+ * standard `accepts` entries by mint, or the `accepts` entries alone for other servers
+ * An option whose amount differs from the requirement that would be signed is dropped,
+ * so the spend limits always check the amount actually paid
+ */
+export function paymentOptions(details: PaymentRequiredResponse): PaymentOption[] {
+  const requirements = (details.accepts ?? []).filter(
+    (requirement) => requirement.scheme === 'exact' && SOLANA_NETWORKS.includes(requirement.network)
+  );
+  if (details.options?.length) {
+    return details.options
+      .map((option) => ({
+        asset: option.asset,
+        mint: option.mint,
+        amount: option.amount,
+        native: option.native,
+        decimals: option.decimals,
+        requirement: requirements.find((requirement) => requirement.asset === option.mint) ?? null,
+      }))
+      .filter(({ amount, requirement }) => !requirement || Number(requirement.maxAmountRequired) === amount);
+  }
+  return requirements.map((requirement) => ({
+    asset: requirement.asset,
+    mint: requirement.asset,
+    amount: Number(requirement.maxAmountRequired),
+    native: false,
+    decimals: null,
+    requirement,
+  }));
+}
+
+function limitFor(limit: SpendLimit | undefined, option: PaymentOption): number | undefined {
+  return limit?.[option.asset] ?? limit?.[option.mint];
+}
+
+/**
+ * Reads the settlement transaction from a base64 JSON X-PAYMENT-RESPONSE header
+ */
+export function decodePaymentResponse(header: string | null): { success: boolean; transaction?: string } | null {
+  if (!header) {
+    return null;
+  }
+  try {
+    return JSON.parse(atob(header));
+  } catch {
+    return null;
+  }
+}
+
+export class X402Client {
+  private readonly spent = new Map<string, number>(); // by mint
+
+  constructor(private readonly options: X402ClientOptions) {}
+
+  /**
+   * Total paid this session per asset mint, in smallest units
+   */
+  get sessionSpend(): Record<string, number> {
+    return Object.fromEntries(this.spent);
+  }
+
+  /**
+   * Requests a resource, paying for it when the server answers 402
+   * The body must be re-sendable (a string, not a stream) for the paid retry
+   */
+  async request(url: string, requestInit: RequestInit = {}, requestOptions: X402RequestOptions = {}): Promise<X402Result> {
+    const fetchFn = this.options.fetch ?? fetch;
+    const init = this.withNetwork(requestInit);
+    this.options.onStatus?.('requesting');
+    const response = await fetchFn(url, init);
+    if (response.status !== 402 || requestOptions.pay === false) {
+      return { response, payment: null };
+    }
+
+    const details = await this.readPaymentRequired(response);
+    this.options.onPaymentRequired?.(details);
+    const option = this.selectOption(details, requestOptions);
+
+    // Reserve the amount before signing, so concurrent calls cannot overrun the session limit
+    this.spent.set(option.mint, (this.spent.get(option.mint) ?? 0) + option.amount);
+    const { signer, settler, onStatus } = this.options;
+    let settlement: Settlement;
+    try {
+      settlement = await settler.settle(option, { signer, details, onStatus });
+    } catch (error) {
+      this.spent.set(option.mint, (this.spent.get(option.mint) ?? 0) - option.amount);
+      throw error;
+    }
+    const payment: PaymentMade = {
+      settler: settler.name,
+      asset: option.asset,
+      mint: option.mint,
+      amount: option.amount,
+      payer: signer.publicKey.toBase58(),
+      signature: settlement.signature,
+    };
+
+    onStatus?.('retrying');
+    const headers = new Headers(init.headers);
+    for (const [name, value] of Object.entries(settlement.headers)) {
+      headers.set(name, value);
+    }
+    const paidResponse = await fetchFn(url, { ...init, headers });
+
+    const paymentResponse = decodePaymentResponse(paidResponse.headers.get('X-PAYMENT-RESPONSE'));
+    if (paymentResponse?.transaction) {
+      payment.signature = paymentResponse.transaction;
+    }
+    if (paidResponse.status === 402) {
+      const body = await paidResponse.json().catch(() => ({}));
+      throw new X402ClientError('PAYMENT_REJECTED', body.error ?? 'Payment was rejected', payment);
+    }
+    return { response: paidResponse, payment };
+  }
+
+  /**
+   * Returns the payment requirements of a resource without paying, or null when it is free
+   */
+  async quote(url: string, init: RequestInit = {}): Promise<PaymentRequiredResponse | null> {
+    const { response } = await this.request(url, init, { pay: false });
+    if (response.status === 402) {
+      return this.readPaymentRequired(response);
+    }
+    if (!response.ok) {
+      const body = await response.json().catch(() => ({}));
+      throw new Error(body.error ?? `Request failed: ${response.status} ${response.statusText}`);
+    }
+    return null;
+  }
+
+  private withNetwork(init: RequestInit): RequestInit {
+    if (!this.options.network) {
+      return init;
+    }
+    const headers = new Headers(init.headers);
+    headers.set(PAYMENT_NETWORK_HEADER, this.options.network);
+    return { ...init, headers };
+  }
+
+  private async readPaymentRequired(response: Response): Promise<PaymentRequiredResponse> {
+    const details = await response.json().catch(() => null);
+    if (!details || (!details.accepts && !details.options)) {
+      throw new X402ClientError('INVALID_402', details?.error ?? 'Payment required, but the server sent no requirements');
+    }
+    return details as PaymentRequiredResponse;
+  }
+
+  /**
+   * Picks the first preferred option that the settler can pay and the limits allow
+   */
+  private selectOption(details: PaymentRequiredResponse, requestOptions: X402RequestOptions): PaymentOption {
+    const { settler } = this.options;
+    const preferred = requestOptions.assets ?? this.options.assets;
+    const payable = paymentOptions(details)
+      .filter((option) => settler.canPay(option))
+      .filter((option) => !preferred || preferred.includes(option.asset) || preferred.includes(option.mint))
+      .sort((a, b) => (preferred ? rank(preferred, a) - rank(preferred, b) : 0));
+    if (payable.length === 0) {
+      const wanted = preferred ? ` in ${preferred.join(', ')}` : '';
+      throw new X402ClientError('NO_ACCEPTED_ASSET', `No accepted ${settler.name} payment${wanted}`);
+    }
+
+    const callLimit = requestOptions.maxAmount ?? this.options.maxPerCall;
+    const withinCall = payable.filter((option) => option.amount <= (limitFor(callLimit, option) ?? Infinity));
+    if (withinCall.length === 0) {
+      throw new X402ClientError('OVER_CALL_LIMIT', `Price ${describe(payable[0])} exceeds the per-call limit`);
+    }
+    const withinSession = withinCall.filter((option) =>
+      (this.spent.get(option.mint) ?? 0) + option.amount <= (limitFor(this.options.maxPerSession, option) ?? Infinity)
+    );
+    if (withinSession.length === 0) {
+      throw new X402ClientError('OVER_SESSION_LIMIT', `Price ${describe(withinCall[0])} exceeds the session limit`);
+    }
+    return withinSession[0];
+  }
+}
+
+function rank(preferred: string[], option: PaymentOption): number {
+  const index = preferred.findIndex((asset) => asset === option.asset || asset === option.mint);
+  return index === -1 ? preferred.length : index;
+}
+
+function describe(option: PaymentOption): string {
+  return option.decimals === null
+    ? `${option.amount} ${option.asset}`
+    : `${formatPrice(option.amount, option.decimals)} ${option.asset}`;
 }
 
 /**
@@ -51,3 +295,10 @@ export function formatPrice(price: number, decimals: number = 9): string {
   return (price / Math.pow(10, decimals)).toFixed(decimals).replace(/\.?0+$/, '');
 }
 
+
+/**
+ * Formats a price together with its asset symbol, e.g. '0.05 USDC'
+ */
+export function formatAssetPrice({ asset, amount }: AssetPrice): string {
+  return `${formatPrice(amount, asset.decimals)} ${asset.symbol}`;
+}
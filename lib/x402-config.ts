@@ -3,19 +3,131 @@
  * Configuration for x402 payment protocol integration
  */
 
+export type SolanaNetwork = 'mainnet-beta' | 'devnet' | 'testnet';
+
+// Assets accepted for payment, with their mainnet mints; SOL uses the wrapped SOL mint in x402 requirements
+const assets = {
+  SOL: {
+    symbol: 'SOL',
+    mint: 'So11111111111111111111111111111111111111112',
+    decimals: 9,
+    native: true,
+  },
+  USDC: {
+    symbol: 'USDC',
+    mint: process.env.NEXT_PUBLIC_USDC_MINT || 'EPjFWdd5AufqSSqeM2qN1xzybapC8G4wEGGkZwyTDt1v',
+    decimals: 6,
+    native: false,
+  },
+} as const;
+
+// Mainnet prices per route in each accepted asset's smallest unit; the first entry is the default
+// Its keys are the priced routes; every network prices the same routes
+const prices = {
+  '/api/render-ui': {
+    SOL: 500_000,   // 0.0005 SOL
+    USDC: 50_000,   // 0.05 USDC
+  },
+  '/api/premium-ui': {
+    SOL: 500_000,   // 0.0005 SOL
+    USDC: 50_000,   // 0.05 USDC
+  },
+  '/api/markets': {
+    SOL: 500_000,   // 0.0005 SOL for market data
+  },
+} as const;
+
+export type PaymentAssetSymbol = keyof typeof assets;
+export type PricedEndpoint = keyof typeof prices;
+
+export type PriceTable = Record<PricedEndpoint, Partial<Record<PaymentAssetSymbol, number>>>;
+
+/**
+ * Where and at what price a Solana cluster accepts payments
+ */
+export interface NetworkConfig {
+  label: string;
+  x402Network: 'solana' | 'solana-devnet' | null; // facilitator network; null when it has none (direct transfers only)
+  rpcEndpoint: string;
+  payTo: string; // treasury on this network
+  mints: Partial<Record<PaymentAssetSymbol, string>>; // SPL mints on this network; SPL assets without one are not accepted
+  prices: PriceTable;
+}
+
+const networks: Record<SolanaNetwork, NetworkConfig> = {
+  'mainnet-beta': {
+    label: 'Mainnet',
+    x402Network: 'solana',
+    rpcEndpoint: process.env.NEXT_PUBLIC_SOLANA_RPC || 'https://api.mainnet-beta.solana.com',
+    payTo: '8MeWTYDip5SWVJf3wkvDKZw9BjSAWMXm5oAeELJ6HFM9',
+    mints: { USDC: assets.USDC.mint },
+    prices,
+  },
+  devnet: {
+    label: 'Devnet',
+    x402Network: 'solana-devnet',
+    rpcEndpoint: process.env.NEXT_PUBLIC_SOLANA_DEVNET_RPC || 'https://api.devnet.solana.com',
+    payTo: process.env.NEXT_PUBLIC_DEVNET_PAY_TO || '8MeWTYDip5SWVJf3wkvDKZw9BjSAWMXm5oAeELJ6HFM9',
+    mints: { USDC: process.env.NEXT_PUBLIC_DEVNET_USDC_MINT || '4zMMC9srt5Ri5X14GAgXhaHii3GnPAEERYPJgZJDncDU' },
+    // Paid with faucet funds, so priced low enough for many test renders per airdrop
+    prices: {
+      '/api/render-ui': { SOL: 10_000, USDC: 10_000 },
+      '/api/premium-ui': { SOL: 20_000, USDC: 20_000 },
+      '/api/markets': { SOL: 10_000 },
+    },
+  },
+  testnet: {
+    label: 'Testnet',
+    x402Network: null,
+    rpcEndpoint: process.env.NEXT_PUBLIC_SOLANA_TESTNET_RPC || 'https://api.testnet.solana.com',
+    payTo: process.env.NEXT_PUBLIC_TESTNET_PAY_TO || '8MeWTYDip5SWVJf3wkvDKZw9BjSAWMXm5oAeELJ6HFM9',
+    mints: {},
+    prices: {
+      '/api/render-ui': { SOL: 10_000 },
+      '/api/premium-ui': { SOL: 20_000 },
+      '/api/markets': { SOL: 10_000 },
+    },
+  },
+};
+
+const defaultNetwork = (process.env.NEXT_PUBLIC_SOLANA_NETWORK as SolanaNetwork) || 'mainnet-beta';
+
+// Test networks are paid with free tokens, so they are only accepted when listed
+const enabledNetworks: readonly SolanaNetwork[] = [defaultNetwork, ...(process.env.NEXT_PUBLIC_SOLANA_NETWORKS ?? '').split(',')]
+  .map((network) => network.trim())
+  .filter((network, index, list): network is SolanaNetwork =>
+    Object.prototype.hasOwnProperty.call(networks, network) && list.indexOf(network) === index
+  );
+
 export const x402Config = {
-  payTo: '8MeWTYDip5SWVJf3wkvDKZw9BjSAWMXm5oAeELJ6HFM9',
-  network: (process.env.NEXT_PUBLIC_SOLANA_NETWORK as 'mainnet-beta' | 'devnet' | 'testnet') || 'mainnet-beta',
-  rpcEndpoint: process.env.NEXT_PUBLIC_SOLANA_RPC || 'https://api.mainnet-beta.solana.com',
+  // Network used when a request does not name one
+  network: defaultNetwork,
+  // Networks payments are accepted on: the default one, plus NEXT_PUBLIC_SOLANA_NETWORKS (comma-separated)
+  enabledNetworks,
+  networks,
   facilitatorUrl: process.env.NEXT_PUBLIC_X402_FACILITATOR_URL || 'https://facilitator.payai.network',
-  asset: 'SOL' as const,
   baseUrl: process.env.NEXT_PUBLIC_BASE_URL || 'https://grid.wtf',
-  prices: {
-    '/api/render-ui': 500_000,   // 0.0005 SOL
-    '/api/premium-ui': 500_000,  // 0.0005 SOL
-    'https://grid.wtf/api/x402/v1/new-markets': 500_000,  // 0.0005 SOL for market data
+  maxPaymentAgeSeconds: 600, // reject payments older than 10 minutes
+  receiptTtlSeconds: 300, // access receipts from /api/verify-payment expire after 5 minutes
+  // Paid renders can be re-opened by their payer for this long
+  renderRetentionSeconds: Number(process.env.X402_RENDER_RETENTION_SECONDS) || 7 * 86_400,
+  // Prepaid credits: one deposit buys many renders, each deducting its quote in credits
+  credits: {
+    // Value of one credit in each asset's smallest unit
+    value: {
+      SOL: 10_000,    // 0.00001 SOL
+      USDC: 1_000,    // 0.001 USDC
+    },
+    depositCredits: 1_000, // credits bought per deposit from the payment button
   },
+  // Sign-In With Solana sessions
+  auth: {
+    statement: 'Sign in to x402 Grid UI to use your credits and payment history.',
+    nonceTtlSeconds: 300, // sign-in messages must be signed within 5 minutes
+    sessionTtlSeconds: 86_400, // session cookies last a day
+  },
+  assets,
+  prices,
 } as const;
 
 export type X402Config = typeof x402Config;
-
@@ -0,0 +1,645 @@
+/**
+ * x402 Payment Middleware
+ * Wraps Next.js route handlers with the full x402 payment lifecycle:
+ * requirements, 402 response, verification, replay protection and settlement
+ */
+
+import { NextRequest, NextResponse } from 'next/server';
+import { VersionedTransaction } from '@solana/web3.js';
+import { X402PaymentHandler } from 'x402-solana/server';
+import type { PaymentRequirements } from 'x402-solana/types';
+import { x402Config, type PaymentAssetSymbol, type PricedEndpoint, type SolanaNetwork } from './x402-config';
+import { signatureLedger, type LedgerRejectReason } from './signature-ledger';
+import { verifyTransfer, type PaymentFailureReason } from './solana-payment';
+import { getPaymentNetwork } from './payment-network';
+import { PAYMENT_NETWORK_HEADER, getEnabledNetworks, getNetworkConfig, resolveNetwork } from './solana-networks';
+import {
+  encodePaymentResponse,
+  settlementLedger,
+  type SettlementFailurePolicy,
+  type SettlementRecord,
+} from './settlement-ledger';
+import { verifyAccessReceipt, type ReceiptRejectReason } from './access-receipt';
+import { findQuotedPrice, quotePrice, type PriceQuote, type QuoteRequest } from './pricing';
+import { creditLedger } from './credits';
+import { PAY_WITH_CREDITS_HEADER, creditCost } from './credits-client';
+import { getSession } from './auth';
+import type { AssetPrice } from './payment-assets';
+import { getComponent, resolveComponentType, validateRenderRequest } from './component-registry';
+import { formatIssues, type JsonSchema } from './validation';
+import type { AcceptedPayment, ComponentType, UIConfig } from './types';
+
+export type { PricedEndpoint };
+
+/**
+ * Verified payment details handed to the wrapped handler
+ */
+export interface PaymentContext {
+  scheme: 'x402' | 'custom' | 'receipt' | 'credits';
+  payer: string | null;
+  signature: string | null;
+  network: SolanaNetwork; // network the payment was made and verified on
+  asset: PaymentAssetSymbol;
+  amount: number; // in the asset's smallest unit
+  account: string | null; // public key of the signed-in caller, from the session cookie
+}
+
+export interface PaidRequestBody {
+  componentType: ComponentType;
+  config?: UIConfig;
+}
+
+export interface PaidRouteContext {
+  body: PaidRequestBody;
+  payment: PaymentContext;
+}
+
+export type PaidRouteHandler = (req: NextRequest, context: PaidRouteContext) => Promise<Response>;
+
+export interface X402PaymentOptions {
+  priceKey: PricedEndpoint;
+  description: string; // suffixed with the requested componentType
+  componentTypes: readonly ComponentType[]; // component types this route renders
+  settlementFailure?: SettlementFailurePolicy; // when X-PAYMENT settlement fails, defaults to 'withhold'
+}
+
+// Reads X-PAYMENT headers; requirements are per network and facilitator calls go through getPaymentNetwork()
+const x402 = new X402PaymentHandler({
+  network: 'solana',
+  treasuryAddress: getNetworkConfig().payTo,
+  facilitatorUrl: x402Config.facilitatorUrl,
+});
+
+/**
+ * Resolves a price key to the absolute resource URL advertised to clients
+ */
+export function resolveResourceUrl(priceKey: PricedEndpoint): `${string}://${string}` {
+  if (priceKey.startsWith('http')) {
+    return priceKey as `${string}://${string}`;
+  }
+  const baseUrl = x402Config.baseUrl;
+  const resourceUrl = baseUrl.startsWith('http') ? baseUrl : `https://${baseUrl}`;
+  return `${resourceUrl}${priceKey}` as `${string}://${string}`;
+}
+
+/**
+ * Builds the x402 'exact' requirement for paying a price to a network's
+ * treasury, with the facilitator's fee payer so clients can build the transaction
+ */
+function createPaymentRequirements(
+  { asset, amount }: AssetPrice,
+  description: string,
+  resource: string,
+  x402Network: PaymentRequirements['network'],
+  payTo: string,
+  feePayer: string
+): PaymentRequirements {
+  return {
+    scheme: 'exact',
+    network: x402Network,
+    maxAmountRequired: String(amount), // Smallest unit of the asset
+    resource,
+    description,
+    mimeType: 'application/json',
+    payTo,
+    maxTimeoutSeconds: 300,
+    asset: asset.mint,
+    outputSchema: {},
+    extra: { feePayer },
+  };
+}
+
+/**
+ * Log prefix for a price key, e.g. '/api/render-ui' -> '[x402/render-ui]'
+ */
+function logPrefixFor(priceKey: PricedEndpoint): string {
+  const path = priceKey.replace(/^https?:\/\/[^/]+/, '').replace(/^\/api/, '');
+  return `[x402${path}]`;
+}
+
+/**
+ * Reads the x402 network an X-PAYMENT header was signed for, e.g. 'solana-devnet'
+ */
+function paymentHeaderNetwork(paymentHeader: string): string | null {
+  try {
+    const payload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf8'));
+    return typeof payload.network === 'string' ? payload.network : null;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Picks the requirement an X-PAYMENT header pays for by matching the
+ * asset mint against the accounts of the encoded transaction
+ */
+function selectRequirement(paymentHeader: string, requirements: PaymentRequirements[]): PaymentRequirements {
+  try {
+    const payload = JSON.parse(Buffer.from(paymentHeader, 'base64').toString('utf8'));
+    const transaction = VersionedTransaction.deserialize(Buffer.from(payload.payload.transaction, 'base64'));
+    const accounts = transaction.message.staticAccountKeys.map((key) => key.toBase58());
+    return requirements.find((requirement) => accounts.includes(requirement.asset)) ?? requirements[0];
+  } catch {
+    return requirements[0];
+  }
+}
+
+interface CustomPaymentHeaders {
+  signature: string;
+  publicKey: string;
+  timestamp: string;
+  asset: string;
+}
+
+type CustomVerification =
+  | { verified: true; payer: string; amount: number }
+  | { verified: false; reason: PaymentFailureReason | LedgerRejectReason; message: string };
+
+/**
+ * Verifies a payment sent with the custom X-Payment-Signature headers
+ * The price is re-quoted at the transaction's block time so time-based
+ * discounts apply to when the payment was made
+ */
+async function verifyCustomPayment(
+  payment: CustomPaymentHeaders,
+  price: AssetPrice,
+  quoteRequest: QuoteRequest,
+  logPrefix: string
+): Promise<CustomVerification> {
+  const { priceKey, network = x402Config.network } = quoteRequest;
+  const { connection } = getPaymentNetwork(network);
+
+  // The declared payer must have signed a transfer of the full price to the network's payTo
+  const transfer = await verifyTransfer({
+    signature: payment.signature,
+    connection,
+    recipient: getNetworkConfig(network).payTo,
+    amount: (blockTime) => {
+      const quote = quotePrice({ ...quoteRequest, at: blockTime ? blockTime * 1000 : undefined });
+      return findQuotedPrice(quote, price.asset.symbol)?.amount ?? price.amount;
+    },
+    sender: payment.publicKey,
+    mint: price.asset.native ? undefined : price.asset.mint,
+  });
+  if (!transfer.ok) {
+    console.error(`${logPrefix} Transfer verification failed:`, transfer.reason, transfer.message);
+    return { verified: false, reason: transfer.reason, message: transfer.message };
+  }
+
+  // Reject replays and stale payments before accepting the transfer
+  const ledgerResult = await signatureLedger.consume({
+    signature: payment.signature,
+    resource: priceKey,
+    payer: transfer.payer,
+    timestamp: payment.timestamp,
+    blockTime: transfer.blockTime,
+  });
+  if (!ledgerResult.ok) {
+    console.error(`${logPrefix} Payment rejected by ledger:`, ledgerResult.reason);
+    return { verified: false, reason: ledgerResult.reason, message: ledgerResult.message };
+  }
+
+  console.log(`${logPrefix} Custom payment verified successfully`);
+  return { verified: true, payer: transfer.payer, amount: transfer.amount };
+}
+
+type ReceiptRedemption =
+  | { redeemed: true; payer: string; signature: string; price: AssetPrice }
+  | { redeemed: false; reason: ReceiptRejectReason | 'RECEIPT_REUSED' | 'UNDERPAID'; message: string };
+
+/**
+ * Redeems an access receipt issued by /api/verify-payment
+ * Each receipt unlocks a single request to the endpoint it was issued for,
+ * provided the amount it paid covers the quote for this request
+ */
+async function redeemReceipt(
+  receipt: string,
+  quote: PriceQuote,
+  logPrefix: string
+): Promise<ReceiptRedemption> {
+  const { priceKey, network } = quote;
+  const result = verifyAccessReceipt(receipt, priceKey, network);
+  if (!result.ok) {
+    console.error(`${logPrefix} Receipt rejected:`, result.reason);
+    return { redeemed: false, reason: result.reason, message: result.message };
+  }
+
+  const { sig, payer, asset, amount } = result.claims;
+  const price = findQuotedPrice(quote, asset);
+  if (!price || amount < price.amount) {
+    console.error(`${logPrefix} Receipt amount below quote:`, amount, 'expected:', price?.amount);
+    return { redeemed: false, reason: 'UNDERPAID', message: `Receipt covers ${amount}, this request costs ${price?.amount ?? 'more'}` };
+  }
+
+  const firstUse = await signatureLedger.redeem({ key: `receipt:${sig}`, resource: priceKey, payer });
+  if (!firstUse) {
+    console.error(`${logPrefix} Receipt already redeemed`);
+    return { redeemed: false, reason: 'RECEIPT_REUSED', message: 'Receipt has already been redeemed' };
+  }
+
+  return { redeemed: true, payer, signature: sig, price };
+}
+
+type CreditSpend =
+  | { spent: true; credits: number }
+  | { spent: false; reason: 'NOT_SIGNED_IN' | 'INSUFFICIENT_CREDITS'; message: string; balance?: number };
+
+/**
+ * Deducts the credit cost of a quote from the signed-in wallet's balance on the quote's network
+ */
+async function spendCredits(account: string | null, quote: PriceQuote, logPrefix: string): Promise<CreditSpend> {
+  if (!account) {
+    return { spent: false, reason: 'NOT_SIGNED_IN', message: 'Sign in with your wallet to spend credits' };
+  }
+
+  const credits = creditCost(quote.prices);
+  const spend = await creditLedger.spend(account, credits, quote.network);
+  if (!spend.ok) {
+    console.error(`${logPrefix} Insufficient credits:`, spend.balance, 'needed:', credits);
+    return { spent: false, reason: spend.reason, message: spend.message, balance: spend.balance };
+  }
+
+  return { spent: true, credits };
+}
+
+/**
+ * Converts a query parameter to the type its config field expects, e.g. ?limit=20 to 20
+ * Values that do not convert stay strings, so validation reports them
+ */
+function coerceQueryValue(value: string, field: JsonSchema | undefined): string | number | boolean {
+  switch (field?.type) {
+    case 'number':
+    case 'integer':
+      return value.trim() !== '' && Number.isFinite(Number(value)) ? Number(value) : value;
+    case 'boolean':
+      return value === 'true' ? true : value === 'false' ? false : value;
+    default:
+      return value;
+  }
+}
+
+/**
+ * Reads the componentType and config of a GET request from its query string,
+ * e.g. ?hoursBack=24&category=Crypto; each value is coerced by the component's
+ * config schema, so ?category=2024 stays a string
+ * componentType may be left out on routes that sell a single component
+ */
+function requestFromQuery(params: URLSearchParams, componentTypes: readonly ComponentType[]): unknown {
+  const componentType = params.get('componentType') ?? (componentTypes.length === 1 ? componentTypes[0] : undefined);
+  const resolved = resolveComponentType(componentType);
+  const fields = resolved ? getComponent(resolved).configSchema.toJSONSchema().properties ?? {} : {};
+  const config: Record<string, string | number | boolean> = {};
+  for (const [key, value] of params) {
+    if (key !== 'componentType' && key !== 'network') {
+      config[key] = coerceQueryValue(value, fields[key]);
+    }
+  }
+  return { componentType, config };
+}
+
+/**
+ * Wraps a route handler so it only runs after a verified payment
+ * Requests pay on the network named by the X-Payment-Network header or the
+ * `network` query parameter, the default network otherwise
+ * POST requests send their componentType and config as JSON, GET requests in the query string
+ *
+ * @example
+ * export const POST = withX402Payment(handler, {
+ *   priceKey: '/api/render-ui',
+ *   description: 'Basic UI Component Render',
+ *   componentTypes: ['grid', 'card', 'dashboard'],
+ *   settlementFailure: 'withhold',
+ * });
+ */
+export function withX402Payment(
+  handler: PaidRouteHandler,
+  { priceKey, description, componentTypes, settlementFailure = 'withhold' }: X402PaymentOptions
+) {
+  const logPrefix = logPrefixFor(priceKey);
+
+  return async function paidRoute(req: NextRequest): Promise<Response> {
+    try {
+      // 1. Extract payment header (try x402 format first, then custom headers)
+      const paymentHeader = x402.extractPayment(req.headers);
+
+      // Access receipt issued by /api/verify-payment
+      const receipt = req.headers.get('X-Payment-Receipt');
+
+      // Check for custom payment headers if x402 format not found
+      const customSignature = req.headers.get('X-Payment-Signature');
+      const customPublicKey = req.headers.get('X-Payment-PublicKey');
+      const customTimestamp = req.headers.get('X-Payment-Timestamp');
+      const customAsset = req.headers.get('X-Payment-Asset') || 'SOL';
+
+      const customPayment: CustomPaymentHeaders | null =
+        customSignature && customPublicKey && customTimestamp
+          ? { signature: customSignature, publicKey: customPublicKey, timestamp: customTimestamp, asset: customAsset }
+          : null;
+
+      // Prepaid credits of the signed-in wallet
+      const payWithCredits = req.headers.get(PAY_WITH_CREDITS_HEADER) === 'true';
+
+      // Verified caller identity, independent of the payment method
+      const account = getSession(req)?.publicKey ?? null;
+
+      // Network the request pays on; prices, treasury and verification all follow it
+      const requestedNetwork = req.headers.get(PAYMENT_NETWORK_HEADER) ?? req.nextUrl.searchParams.get('network');
+      const network = resolveNetwork(requestedNetwork);
+      if (!network) {
+        return NextResponse.json(
+          { error: `Unsupported network - ${requestedNetwork}`, networks: getEnabledNetworks() },
+          { status: 400 }
+        );
+      }
+      const networkConfig = getNetworkConfig(network);
+
+      // 2. Parse and validate the request body, so invalid input is never charged
+      let rawBody: unknown;
+      if (req.method === 'GET') {
+        rawBody = requestFromQuery(req.nextUrl.searchParams, componentTypes);
+      } else {
+        try {
+          rawBody = await req.json();
+        } catch {
+          return NextResponse.json(
+            { error: 'Invalid request - body must be JSON' },
+            { status: 400 }
+          );
+        }
+      }
+      const validation = validateRenderRequest(rawBody, componentTypes);
+      if (!validation.ok) {
+        console.error(`${logPrefix} Invalid request:`, formatIssues(validation.issues));
+        return NextResponse.json(
+          { error: `Invalid request - ${formatIssues(validation.issues)}`, issues: validation.issues },
+          { status: 400 }
+        );
+      }
+      const body: PaidRequestBody = validation.value;
+
+      // 3. Quote the request on its network and create payment requirements, one per accepted asset
+      const quoteRequest: QuoteRequest = { priceKey, componentType: body.componentType, config: body.config, network };
+      const quote = quotePrice(quoteRequest);
+      const prices = quote.prices;
+      const [defaultPrice] = prices;
+      const { facilitator } = getPaymentNetwork(network);
+      const { x402Network, payTo } = networkConfig;
+      // Networks without a facilitator only take direct transfers, receipts and credits
+      const feePayer = x402Network ? await facilitator.getFeePayer(x402Network) : null;
+      const paymentRequirements: PaymentRequirements[] = x402Network && feePayer
+        ? prices.map((price) => createPaymentRequirements(
+            price, `${description} - ${body.componentType}`, resolveResourceUrl(priceKey), x402Network, payTo, feePayer
+          ))
+        : [];
+
+      if (!paymentHeader && !receipt && !customPayment && !payWithCredits) {
+        // Return 402 with payment requirements
+        console.log(`${logPrefix} No payment header - returning 402 for ${network}`);
+
+        const options: AcceptedPayment[] = prices.map(({ asset, amount }) => ({
+          asset: asset.symbol,
+          mint: asset.mint,
+          decimals: asset.decimals,
+          native: asset.native,
+          amount,
+        }));
+
+        // Ensure the response includes all required fields for the client
+        const clientResponse = {
+          x402Version: 1,
+          accepts: paymentRequirements,
+          error: 'Payment required',
+          paymentRequired: true,
+          price: defaultPrice.amount,
+          network,
+          networks: getEnabledNetworks(),
+          asset: defaultPrice.asset.symbol,
+          payTo,
+          options,
+          pricing: quote.factors,
+          credits: creditCost(prices),
+        };
+
+        return NextResponse.json(clientResponse, {
+          status: 402,
+          headers: {
+            'X-X402-Protected': 'true',
+            'X-Payment-Required': 'true',
+            [PAYMENT_NETWORK_HEADER]: network,
+          }
+        });
+      }
+
+      // 4. Verify payment
+      console.log(`${logPrefix} Verifying payment...`);
+      let payment: PaymentContext | null = null;
+      let settlementRequirements: PaymentRequirements | null = null;
+      let creditsSpent = 0;
+      let ledgerKey: string | null = null; // signature ledger entry this request used up
+
+      if (paymentHeader) {
+        // A payload signed for another network never pays for this one
+        const signedFor = paymentHeaderNetwork(paymentHeader);
+        if (paymentRequirements.length === 0 || signedFor !== x402Network) {
+          console.error(`${logPrefix} X-PAYMENT signed for ${signedFor}, request is on ${network}`);
+          return NextResponse.json(
+            { error: `Invalid payment - this request is priced on ${network}`, reason: 'NETWORK_MISMATCH' },
+            { status: 402 }
+          );
+        }
+
+        // Try standard x402 verification against the requirement the payment targets
+        const requirements = selectRequirement(paymentHeader, paymentRequirements);
+        const price = findQuotedPrice(quote, requirements.asset) ?? defaultPrice;
+        // A payload that already settled for this price is on-chain; the facilitator would reject it now
+        const previous = await settlementLedger.find(paymentHeader);
+        const alreadySettled = previous?.status === 'settled' && previous.resource === priceKey &&
+          previous.network === network &&
+          BigInt(previous.requirements.maxAmountRequired) >= BigInt(requirements.maxAmountRequired);
+        const verificationResult = alreadySettled
+          ? { isValid: true, payer: previous.payer ?? undefined, invalidReason: undefined }
+          : await facilitator.verifyPayment(paymentHeader, requirements);
+        if (verificationResult.isValid) {
+          settlementRequirements = requirements;
+          payment = {
+            scheme: 'x402',
+            payer: verificationResult.payer ?? null,
+            signature: null,
+            network,
+            asset: price.asset.symbol,
+            amount: price.amount,
+            account,
+          };
+        } else {
+          console.error(`${logPrefix} x402 verification failed:`, verificationResult.invalidReason);
+        }
+      } else if (receipt) {
+        // Receipt proves the payment was already verified on-chain
+        const result = await redeemReceipt(receipt, quote, logPrefix);
+
+        if (!result.redeemed) {
+          return NextResponse.json(
+            { error: `Invalid payment - ${result.message}`, reason: result.reason },
+            { status: 402 }
+          );
+        }
+        ledgerKey = `receipt:${result.signature}`;
+        payment = {
+          scheme: 'receipt',
+          payer: result.payer,
+          signature: result.signature,
+          network,
+          asset: result.price.asset.symbol,
+          amount: result.price.amount,
+          account,
+        };
+      } else if (customPayment) {
+        // Verify custom payment format (manual verification)
+        console.log(`${logPrefix} Using custom payment headers, verifying transaction...`);
+        const price = findQuotedPrice(quote, customPayment.asset);
+        if (!price) {
+          return NextResponse.json(
+            { error: `Invalid payment - ${customPayment.asset} is not accepted`, reason: 'UNSUPPORTED_ASSET' },
+            { status: 402 }
+          );
+        }
+
+        const result = await verifyCustomPayment(customPayment, price, quoteRequest, logPrefix);
+        if (!result.verified) {
+          return NextResponse.json(
+            { error: `Invalid payment - ${result.message}`, reason: result.reason },
+            { status: 402 }
+          );
+        }
+        ledgerKey = customPayment.signature;
+        payment = {
+          scheme: 'custom',
+          payer: result.payer,
+          signature: customPayment.signature,
+          network,
+          asset: price.asset.symbol,
+          amount: result.amount,
+          account,
+        };
+      } else if (payWithCredits) {
+        // Prepaid credits, authorized by the Sign-In With Solana session
+        const result = await spendCredits(account, quote, logPrefix);
+
+        if (!result.spent) {
+          return NextResponse.json(
+            { error: `Invalid payment - ${result.message}`, reason: result.reason, balance: result.balance },
+            { status: 402 }
+          );
+        }
+        creditsSpent = result.credits;
+        payment = {
+          scheme: 'credits',
+          payer: account,
+          signature: null,
+          network,
+          asset: defaultPrice.asset.symbol,
+          amount: defaultPrice.amount,
+          account,
+        };
+      }
+
+      if (!payment) {
+        console.error(`${logPrefix} Payment verification failed`);
+        return NextResponse.json(
+          { error: 'Invalid payment - verification failed' },
+          { status: 402 }
+        );
+      }
+
+      console.log(`${logPrefix} Payment verified successfully`);
+
+      // 5. Settle x402 payments before delivering; each payload settles once and is delivered once
+      let settlement: SettlementRecord | null = null;
+      if (paymentHeader && settlementRequirements) {
+        console.log(`${logPrefix} Settling payment...`);
+        settlement = await settlementLedger.settle({
+          paymentHeader,
+          requirements: settlementRequirements,
+          resource: priceKey,
+          network,
+          payer: payment.payer,
+        });
+        if (settlement.status === 'settled') {
+          payment.signature = settlement.transaction;
+        } else if (settlementFailure === 'withhold') {
+          console.error(`${logPrefix} Settlement failed, withholding content:`, settlement.errorReason);
+          return NextResponse.json(
+            { error: `Payment settlement failed - ${settlement.errorReason}`, reason: 'SETTLEMENT_FAILED' },
+            { status: 402, headers: { 'X-PAYMENT-RESPONSE': encodePaymentResponse(settlement) } }
+          );
+        } else {
+          console.error(`${logPrefix} Settlement failed, delivering and retrying:`, settlement.errorReason);
+          await settlementLedger.queueRetry(settlement.key);
+        }
+        // Claimed before the handler runs, so concurrent requests with one payload cannot both be served
+        if (!(await settlementLedger.claimDelivery(settlement.key))) {
+          console.error(`${logPrefix} Payment payload already delivered`);
+          return NextResponse.json(
+            { error: 'Invalid payment - this payment has already been used', reason: 'PAYMENT_REUSED' },
+            { status: 402, headers: { 'X-PAYMENT-RESPONSE': encodePaymentResponse(settlement) } }
+          );
+        }
+      } else {
+        console.log(`${logPrefix} ${payment.scheme} payment verified, skipping x402 settlement`);
+      }
+
+      // 6. Process business logic
+      let response: Response;
+      try {
+        response = await handler(req, { body, payment });
+      } catch (error) {
+        if (creditsSpent > 0) {
+          await creditLedger.refund(payment.payer!, creditsSpent, network);
+        }
+        if (settlement) {
+          await settlementLedger.releaseDelivery(settlement.key);
+        }
+        if (ledgerKey) {
+          await signatureLedger.release(ledgerKey);
+        }
+        throw error;
+      }
+
+      // Credits are only kept for requests that were served
+      if (creditsSpent > 0 && !response.ok) {
+        await creditLedger.refund(payment.payer!, creditsSpent, network);
+        creditsSpent = 0;
+      }
+
+      // Likewise a transfer or receipt stays usable until a request it paid for is served
+      if (ledgerKey && !response.ok) {
+        await signatureLedger.release(ledgerKey);
+      }
+
+      // A settled payload whose delivery failed can be retried without settling again
+      if (settlement) {
+        await (response.ok
+          ? settlementLedger.markDelivered(settlement.key)
+          : settlementLedger.releaseDelivery(settlement.key));
+      }
+
+      // 7. Return response with payment confirmation
+      if (settlement) {
+        response.headers.set('X-PAYMENT-RESPONSE', encodePaymentResponse(settlement));
+      }
+      response.headers.set('X-X402-Protected', 'true');
+      response.headers.set('X-Payment-Verified', 'true');
+      response.headers.set(PAYMENT_NETWORK_HEADER, network);
+      if (creditsSpent > 0) {
+        response.headers.set('X-Credits-Spent', String(creditsSpent));
+      }
+      return response;
+    } catch (error) {
+      console.error(`${logPrefix} Error processing paid request:`, error);
+      return NextResponse.json(
+        { error: 'Internal server error' },
+        { status: 500 }
+      );
+    }
+  };
+}
@@ -0,0 +1,138 @@
+/**
+ * x402 Resource Discovery
+ * Describes every paid route for clients and agents: method, prices,
+ * accepted assets, input schema and sample output per component
+ * Built from x402Config.prices and the component registry, so it cannot go stale
+ */
+
+import { x402Config, type PricedEndpoint, type SolanaNetwork } from './x402-config';
+import { getEnabledNetworks, getNetworkConfig } from './solana-networks';
+import { getAcceptedPrices, type AssetPrice } from './payment-assets';
+import { quotePrice } from './pricing';
+import { components, sampleOutput, type ComponentTier, type RegisteredComponent } from './component-registry';
+import { resolveResourceUrl } from './x402-middleware';
+import { formatAssetPrice } from './x402-client';
+import type { SettlementFailurePolicy } from './settlement-ledger';
+import type { JsonSchema } from './validation';
+import type { ComponentType, UIData } from './types';
+
+export interface RouteInfo {
+  method: 'GET' | 'POST';
+  description: string;
+  settlementFailure?: SettlementFailurePolicy; // served routes only; see withX402Payment
+}
+
+// Keyed like x402Config.prices; a new price key fails type-checking until it is described here
+export const paidRoutes: Record<PricedEndpoint, RouteInfo> = {
+  // Basic renders are cheap to give away while a settlement retries; premium ones wait for settlement
+  '/api/render-ui': { method: 'POST', description: 'Basic UI Component Render', settlementFailure: 'deliver-and-retry' },
+  '/api/premium-ui': { method: 'POST', description: 'Premium UI Component Render', settlementFailure: 'withhold' },
+  // Market data is bought from the upstream before delivery, so it waits for settlement too
+  '/api/markets': { method: 'GET', description: 'New Polymarket markets', settlementFailure: 'withhold' },
+};
+
+export interface ResourcePrice {
+  asset: string; // symbol, e.g. 'SOL'
+  mint: string;
+  decimals: number;
+  amount: string; // smallest unit
+  display: string; // e.g. '0.0005 SOL'
+}
+
+export interface ResourceComponent {
+  componentType: ComponentType;
+  aliases: string[];
+  title: string;
+  description: string;
+  tier: ComponentTier;
+  prices: ResourcePrice[]; // for the default config; larger configs cost more, see the 402 response
+  inputSchema: JsonSchema; // request body of POST resources, query parameters of GET ones
+  sampleOutput: UIData | null;
+}
+
+export interface PaidResource {
+  resource: string; // absolute URL
+  path: PricedEndpoint;
+  method: RouteInfo['method'];
+  description: string;
+  mimeType: 'application/json';
+  accepts: ResourcePrice[];
+  components: ResourceComponent[];
+}
+
+export interface ResourceList {
+  x402Version: 1;
+  scheme: 'exact';
+  network: SolanaNetwork; // cluster the prices and payTo below are for
+  networks: readonly SolanaNetwork[]; // every accepted cluster; list another with ?network=
+  payTo: string;
+  facilitatorUrl: string;
+  resources: PaidResource[];
+}
+
+function describePrice({ asset, amount }: AssetPrice): ResourcePrice {
+  return {
+    asset: asset.symbol,
+    mint: asset.mint,
+    decimals: asset.decimals,
+    amount: String(amount),
+    display: formatAssetPrice({ asset, amount }),
+  };
+}
+
+/**
+ * JSON Schema of the body a POST route accepts for one component
+ */
+function requestBodySchema(component: RegisteredComponent): JsonSchema {
+  return {
+    type: 'object',
+    properties: {
+      componentType: { enum: [component.id, ...(component.aliases ?? [])] },
+      config: component.configSchema.toJSONSchema(),
+    },
+    required: ['componentType'],
+  };
+}
+
+function describeComponent(component: RegisteredComponent, route: RouteInfo, network: SolanaNetwork): ResourceComponent {
+  return {
+    componentType: component.id,
+    aliases: component.aliases ?? [],
+    title: component.title,
+    description: component.description,
+    tier: component.tier,
+    prices: quotePrice({ priceKey: component.priceKey, componentType: component.id, network }).prices.map(describePrice),
+    inputSchema: route.method === 'POST' ? requestBodySchema(component) : component.configSchema.toJSONSchema(),
+    sampleOutput: sampleOutput(component),
+  };
+}
+
+/**
+ * Lists every paid resource with its prices on a network, in the order of x402Config.prices
+ */
+export function listPaidResources(network: SolanaNetwork = x402Config.network): ResourceList {
+  const priceKeys = Object.keys(x402Config.prices) as PricedEndpoint[];
+
+  return {
+    x402Version: 1,
+    scheme: 'exact',
+    network,
+    networks: getEnabledNetworks(),
+    payTo: getNetworkConfig(network).payTo,
+    facilitatorUrl: x402Config.facilitatorUrl,
+    resources: priceKeys.map((priceKey) => {
+      const route = paidRoutes[priceKey];
+      return {
+        resource: resolveResourceUrl(priceKey),
+        path: priceKey,
+        method: route.method,
+        description: route.description,
+        mimeType: 'application/json',
+        accepts: getAcceptedPrices(priceKey, network).map(describePrice),
+        components: components
+          .filter((component) => component.priceKey === priceKey)
+          .map((component) => describeComponent(component, route, network)),
+      };
+    }),
+  };
+}
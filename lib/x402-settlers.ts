@@ -0,0 +1,121 @@
+/**
+ * x402 Settlers
+ * Ways for the x402 client to pay a selected option: the standard X-PAYMENT
+ * flow, a direct transfer the payer submits, or a mock that pays a FakeLedger
+ */
+
+import { PublicKey, type Connection } from '@solana/web3.js';
+import {
+  createPaymentTransaction,
+  createTokenPaymentTransaction,
+  createX402PaymentTransaction,
+  encodePaymentHeader,
+  type X402TransactionConnection,
+} from './solana-payment';
+import type { FakeLedger } from './fake-ledger';
+import type { PaymentOption, Settlement, SettlementContext, Settler } from './x402-client';
+
+/**
+ * Standard x402: signs a transfer for the facilitator to pay the fee of and
+ * submit, and sends it in the X-PAYMENT header. SPL assets only: native SOL
+ * would be a wrapped SOL transfer, which ordinary wallets cannot fund
+ */
+export function createX402Settler(connection: X402TransactionConnection): Settler {
+  return {
+    name: 'x402',
+    canPay: (option) => option.requirement !== null && !option.native,
+    async settle(option, { signer, details, onStatus }) {
+      const requirement = option.requirement!;
+      const transaction = await createX402PaymentTransaction({ fromPubkey: signer.publicKey, requirement, connection });
+      onStatus?.('signing');
+      const signed = await signer.signTransaction(transaction);
+      return {
+        headers: { 'X-PAYMENT': encodePaymentHeader(signed, requirement, details.x402Version ?? 1) },
+        signature: null,
+      };
+    },
+  };
+}
+
+/**
+ * Direct transfer: the payer submits a transfer to `payTo`, waits for
+ * confirmation and sends its signature in the X-Payment-* headers
+ */
+export function createTransferSettler(connection: Connection): Settler {
+  return {
+    name: 'transfer',
+    canPay: (option) => option.decimals !== null,
+    async settle(option, { signer, details, onStatus }) {
+      const toPubkey = new PublicKey(details.payTo);
+      const transaction = option.native
+        ? await createPaymentTransaction({ fromPubkey: signer.publicKey, toPubkey, amount: option.amount, connection })
+        : await createTokenPaymentTransaction({
+            fromPubkey: signer.publicKey,
+            toPubkey,
+            amount: option.amount,
+            mint: new PublicKey(option.mint),
+            decimals: option.decimals!,
+            connection,
+          });
+      onStatus?.('signing');
+      const signature = signer.sendTransaction
+        ? await signer.sendTransaction(transaction, connection)
+        : await connection.sendRawTransaction((await signer.signTransaction(transaction)).serialize());
+      onStatus?.('confirming');
+      await connection.confirmTransaction(signature, 'confirmed');
+
+      return {
+        headers: {
+          'X-Payment-Signature': signature,
+          'X-Payment-PublicKey': signer.publicKey.toBase58(),
+          'X-Payment-Timestamp': Date.now().toString(),
+          'X-Payment-Asset': option.asset,
+        },
+        signature,
+      };
+    },
+  };
+}
+
+export interface MockSettlement {
+  option: PaymentOption;
+  payer: string;
+  signature: string;
+}
+
+/**
+ * Settler that pays into a FakeLedger instead of Solana, with the direct
+ * transfer headers; a server verifying against the same ledger, such as the
+ * CLI's --offline server, accepts it. Records what it paid
+ */
+export class MockSettler implements Settler {
+  readonly name = 'mock';
+  readonly settlements: MockSettlement[] = [];
+
+  constructor(private readonly ledger: FakeLedger) {}
+
+  canPay(option: PaymentOption): boolean {
+    return option.decimals !== null;
+  }
+
+  async settle(option: PaymentOption, { signer, details, onStatus }: SettlementContext): Promise<Settlement> {
+    onStatus?.('signing');
+    const payer = signer.publicKey.toBase58();
+    const signature = this.ledger.confirmTransfer({
+      from: payer,
+      to: details.payTo,
+      amount: option.amount,
+      mint: option.native ? undefined : option.mint,
+    });
+    this.settlements.push({ option, payer, signature });
+    return {
+      headers: {
+        'X-Payment-Signature': signature,
+        'X-Payment-PublicKey': payer,
+        'X-Payment-Timestamp': Date.now().toString(),
+        'X-Payment-Asset': option.asset,
+      },
+      signature,
+    };
+  }
+}
@@ -0,0 +1,85 @@
+/**
+ * x402 Signers
+ * Signs payment transactions for the x402 client: a connected browser
+ * wallet, a local Keypair for bots and scripts, or a mock for tests
+ */
+
+import { Keypair, Transaction, VersionedTransaction, type Connection, type PublicKey } from '@solana/web3.js';
+import type { WalletContextState } from '@solana/wallet-adapter-react';
+
+export type SignableTransaction = Transaction | VersionedTransaction;
+
+export interface Signer {
+  publicKey: PublicKey;
+  signTransaction<T extends SignableTransaction>(transaction: T): Promise<T>;
+  // Signs and submits a transaction; when absent the client signs and submits it itself
+  sendTransaction?(transaction: Transaction, connection: Connection): Promise<string>;
+}
+
+/**
+ * Signer backed by the connected wallet of @solana/wallet-adapter-react
+ */
+export function walletAdapterSigner(
+  wallet: Pick<WalletContextState, 'publicKey' | 'signTransaction' | 'sendTransaction'>
+): Signer {
+  const { publicKey, signTransaction, sendTransaction } = wallet;
+  if (!publicKey) {
+    throw new Error('Wallet not connected');
+  }
+  return {
+    publicKey,
+    signTransaction: async (transaction) => {
+      if (!signTransaction) {
+        throw new Error('Connected wallet does not support signTransaction');
+      }
+      return signTransaction(transaction);
+    },
+    sendTransaction: (transaction, connection) => sendTransaction(transaction, connection),
+  };
+}
+
+function signWith<T extends SignableTransaction>(keypair: Keypair, transaction: T): T {
+  if (transaction instanceof VersionedTransaction) {
+    transaction.sign([keypair]);
+  } else {
+    transaction.partialSign(keypair);
+  }
+  return transaction;
+}
+
+/**
+ * Signer holding a Keypair, for bots and scripts
+ */
+export function keypairSigner(keypair: Keypair): Signer {
+  return {
+    publicKey: keypair.publicKey,
+    signTransaction: async (transaction) => signWith(keypair, transaction),
+  };
+}
+
+/**
+ * Signer that never touches the network: it signs with a throwaway Keypair,
+ * records what it signed and returns made-up signatures from sendTransaction
+ */
+export class MockSigner implements Signer {
+  readonly signed: SignableTransaction[] = [];
+  readonly sent: string[] = [];
+
+  constructor(private readonly keypair: Keypair = Keypair.generate()) {}
+
+  get publicKey(): PublicKey {
+    return this.keypair.publicKey;
+  }
+
+  async signTransaction<T extends SignableTransaction>(transaction: T): Promise<T> {
+    this.signed.push(signWith(this.keypair, transaction));
+    return transaction;
+  }
+
+  async sendTransaction(transaction: Transaction): Promise<string> {
+    await this.signTransaction(transaction);
+    const signature = `mock-signature-${this.sent.length + 1}`;
+    this.sent.push(signature);
+    return signature;
+  }
+}
@@ -1,7 +1,10 @@
 import type { NextConfig } from "next";
 
 const nextConfig: NextConfig = {
-  /* config options here */
+  async redirects() {
+    // The API tester is now the interactive docs page
+    return [{ source: '/test', destination: '/docs', permanent: true }];
+  },
 };
 
 export default nextConfig;
@@ -0,0 +1,50 @@
+/**
+ * Axis ticks and pie slice geometry of the SVG charts
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { niceTicks, pieArcs } from '@/lib/charts';
+
+describe('niceTicks', () => {
+  test('covers the range with steps of 1, 2 or 5 × 10^n', () => {
+    assert.deepEqual(niceTicks(0, 100), { min: 0, max: 100, values: [0, 50, 100] });
+    assert.deepEqual(niceTicks(-12, 37), { min: -20, max: 40, values: [-20, 0, 20, 40] });
+  });
+
+  test('rounds away floating point drift', () => {
+    assert.deepEqual(niceTicks(0, 0.3, 4).values, [0, 0.1, 0.2, 0.3]);
+  });
+
+  test('gives a flat series a range from zero', () => {
+    assert.deepEqual(niceTicks(5, 5).values, [0, 5, 10]);
+    assert.deepEqual(niceTicks(-4, -4).values, [-4, -3, -2, -1, 0]);
+  });
+
+  test('gives an all-zero series the range 0 to 1', () => {
+    assert.deepEqual(niceTicks(0, 0), { min: 0, max: 1, values: [0, 0.5, 1] });
+  });
+});
+
+describe('pieArcs', () => {
+  test('shares the total between slices, ignoring negative values', () => {
+    const arcs = pieArcs([{ label: 'a', value: 3 }, { label: 'b', value: -1 }, { label: 'c', value: 1 }], 50, 50, 40);
+    assert.deepEqual(arcs.map((arc) => arc.share), [0.75, 0, 0.25]);
+    assert.match(arcs[0].path, /^M50,50 L50,10 A40,40 0 1 1 /);
+    assert.equal(arcs[1].path, '');
+    assert.match(arcs[2].path, / A40,40 0 0 1 /);
+  });
+
+  test('draws a single full slice as a closed circle', () => {
+    const [arc] = pieArcs([{ label: 'all', value: 2 }, { label: 'none', value: 0 }], 50, 50, 40);
+    assert.equal(arc.share, 1);
+    assert.equal(arc.path.match(/A40,40/g)?.length, 2);
+  });
+
+  test('draws nothing when the total is zero', () => {
+    const arcs = pieArcs([{ label: 'a', value: 0 }, { label: 'b', value: 0, color: '#000' }], 50, 50, 40);
+    assert.deepEqual(arcs.map((arc) => [arc.share, arc.path]), [[0, ''], [0, '']]);
+    assert.deepEqual(arcs.map((arc) => arc.color), ['#2563eb', '#000']);
+    assert.deepEqual(pieArcs([], 50, 50, 40), []);
+  });
+});
@@ -0,0 +1,95 @@
+/**
+ * The component registry and the render routes built from it: ids and
+ * aliases, which route sells which component, and what each one renders
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { Keypair } from '@solana/web3.js';
+import { NextRequest } from 'next/server';
+import { POST as renderUi } from '@/app/api/render-ui/route';
+import { POST as premiumUi } from '@/app/api/premium-ui/route';
+import {
+  components,
+  componentsForRoute,
+  resolveComponentType,
+  sampleOutput,
+  validateRenderRequest,
+} from '@/lib/component-registry';
+import { validateUIData } from '@/lib/schemas';
+import { setPaymentNetwork } from '@/lib/payment-network';
+import { createFakePaymentNetwork, type FakeLedger } from '@/lib/fake-ledger';
+import type { PaymentRequiredResponse, UIResponse } from '@/lib/types';
+
+let ledger: FakeLedger;
+
+before(() => {
+  const network = createFakePaymentNetwork();
+  setPaymentNetwork(network);
+  ledger = network.connection;
+});
+
+after(() => {
+  setPaymentNetwork(null);
+});
+
+function post(handler: (req: NextRequest) => Promise<Response>, path: string, body: unknown, headers: Record<string, string> = {}) {
+  return handler(new NextRequest(`http://localhost${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  }));
+}
+
+describe('component registry', () => {
+  test('every component samples valid UIData of its own type', () => {
+    for (const component of components) {
+      const sample = sampleOutput(component);
+      assert.equal(sample?.type, component.id);
+      assert.equal(validateUIData(sample).ok, true, component.id);
+    }
+  });
+
+  test('resolves aliases to the registry id', () => {
+    assert.equal(resolveComponentType('analytics'), 'analytics-dashboard');
+    assert.equal(resolveComponentType('analytics-dashboard'), 'analytics-dashboard');
+    assert.equal(resolveComponentType('constructor'), null);
+    assert.equal(resolveComponentType(7), null);
+  });
+
+  test('each route sells the components priced at it', () => {
+    assert.deepEqual(componentsForRoute('/api/render-ui'), ['grid', 'card', 'dashboard']);
+    assert.deepEqual(componentsForRoute('/api/premium-ui'), ['advanced-grid', 'data-table', 'analytics-dashboard']);
+    assert.deepEqual(componentsForRoute('/api/markets'), ['markets']);
+  });
+
+  test('validates a request against the component config schema', () => {
+    const result = validateRenderRequest({ componentType: 'analytics' }, componentsForRoute('/api/premium-ui'));
+    assert.deepEqual(result, { ok: true, value: { componentType: 'analytics-dashboard', config: {} } });
+    assert.equal(validateRenderRequest({ componentType: 'grid', config: { columns: 99 } }).ok, false);
+  });
+});
+
+describe('render routes', () => {
+  test('reject components sold by another route before quoting', async () => {
+    const response = await post(renderUi, '/api/render-ui', { componentType: 'data-table' });
+    assert.equal(response.status, 400);
+    assert.match((await response.json()).error, /must be one of grid, card, dashboard/);
+  });
+
+  test('render the registry component named by an alias', async () => {
+    const payer = Keypair.generate();
+    const details: PaymentRequiredResponse = await (await post(premiumUi, '/api/premium-ui', { componentType: 'analytics' })).json();
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(premiumUi, '/api/premium-ui', { componentType: 'analytics' }, {
+      'X-Payment-Signature': signature,
+      'X-Payment-PublicKey': payer.publicKey.toBase58(),
+      'X-Payment-Timestamp': String(Date.now()),
+    });
+    assert.equal(response.status, 200);
+    const body: UIResponse = await response.json();
+    assert.equal(body.ui.type, 'analytics-dashboard');
+    assert.equal(body.tier, 'premium');
+  });
+});
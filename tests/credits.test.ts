@@ -0,0 +1,40 @@
+/**
+ * Credit balances per network, in memory and persisted to a file
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readFile, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { CreditLedger, FileCreditStore } from '@/lib/credits';
+
+test('keeps a balance per network, every key prefixed with it', async () => {
+  const ledger = new CreditLedger(new FileCreditStore(null));
+  await ledger.deposit('payer', 10, 'mainnet-beta');
+  await ledger.deposit('payer', 3, 'devnet');
+
+  assert.equal(await ledger.balance('payer', 'mainnet-beta'), 10);
+  assert.equal(await ledger.balance('payer', 'devnet'), 3);
+  const spend = await ledger.spend('payer', 5, 'devnet');
+  assert.equal(spend.ok, false);
+  assert.equal(spend.ok ? null : spend.reason, 'INSUFFICIENT_CREDITS');
+  assert.equal(await ledger.balance('payer', 'devnet'), 3);
+});
+
+test('keeps network-prefixed balances across a reload of the file', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'credits-'));
+  const file = join(dir, 'credits.json');
+  try {
+    const ledger = new CreditLedger(new FileCreditStore(file));
+    await ledger.deposit('payer', 9, 'devnet');
+    await ledger.spend('payer', 2, 'devnet');
+    assert.deepEqual(JSON.parse(await readFile(file, 'utf8')), { 'devnet:payer': 7 });
+
+    const reloaded = new CreditLedger(new FileCreditStore(file));
+    assert.equal(await reloaded.balance('payer', 'devnet'), 7);
+    assert.equal(await reloaded.balance('payer', 'mainnet-beta'), 0);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,102 @@
+/**
+ * Sorting, filtering, pagination and CSV export of data table rows
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { filterRows, paginate, sortRows, toCSV, type DataRow } from '@/lib/data-table';
+import type { DataColumn } from '@/lib/types';
+
+const columns: DataColumn[] = [
+  { key: 'name', label: 'Name' },
+  { key: 'status', label: 'Status', filterable: true },
+  { key: 'amount', label: 'Amount' },
+];
+
+const rows: DataRow[] = [
+  { name: 'item 10', status: 'Active', amount: 300 },
+  { name: 'Item 2', status: 'Pending', amount: 20 },
+  { name: 'item 1', status: 'Active' },
+  { name: 'Gadget', status: 'Inactive', amount: 1000 },
+];
+
+const names = (result: DataRow[]) => result.map((row) => row.name);
+
+describe('sortRows', () => {
+  test('sorts numbers numerically and keeps missing values last in both directions', () => {
+    assert.deepEqual(names(sortRows(rows, { key: 'amount', direction: 'asc' })), ['Item 2', 'item 10', 'Gadget', 'item 1']);
+    assert.deepEqual(names(sortRows(rows, { key: 'amount', direction: 'desc' })), ['Gadget', 'item 10', 'Item 2', 'item 1']);
+  });
+
+  test('sorts strings in natural, case-insensitive order', () => {
+    assert.deepEqual(names(sortRows(rows, { key: 'name', direction: 'asc' })), ['Gadget', 'item 1', 'Item 2', 'item 10']);
+  });
+
+  test('is stable and leaves the input alone', () => {
+    const sorted = sortRows(rows, { key: 'status', direction: 'asc' });
+    assert.deepEqual(names(sorted), ['item 10', 'item 1', 'Gadget', 'Item 2']);
+    assert.equal(rows[0].name, 'item 10');
+    assert.equal(sortRows(rows, null), rows);
+  });
+});
+
+describe('filterRows', () => {
+  const noFilter = { search: '', columns: {} };
+
+  test('searches every column, case-insensitive', () => {
+    assert.deepEqual(names(filterRows(rows, columns, { ...noFilter, search: '  ITEM ' })), ['item 10', 'Item 2', 'item 1']);
+    assert.deepEqual(names(filterRows(rows, columns, { ...noFilter, search: '100' })), ['Gadget']);
+  });
+
+  test('matches column filters exactly and combines them with the search', () => {
+    const active = { search: '', columns: { status: 'Active' } };
+    assert.deepEqual(names(filterRows(rows, columns, active)), ['item 10', 'item 1']);
+    assert.deepEqual(names(filterRows(rows, columns, { ...active, search: '300' })), ['item 10']);
+    assert.deepEqual(filterRows(rows, columns, { search: '', columns: { status: 'Act' } }), []);
+  });
+
+  test('returns every row without a filter', () => {
+    assert.equal(filterRows(rows, columns, { search: '', columns: { status: '' } }), rows);
+  });
+});
+
+describe('paginate', () => {
+  const many: DataRow[] = Array.from({ length: 25 }, (_, index) => ({ id: index }));
+
+  test('slices a page and counts the pages', () => {
+    const page = paginate(many, 1, 10);
+    assert.deepEqual(page.rows.map((row) => row.id), [10, 11, 12, 13, 14, 15, 16, 17, 18, 19]);
+    assert.equal(page.pageCount, 3);
+    assert.equal(page.start, 10);
+  });
+
+  test('clamps the page to the first and last page', () => {
+    assert.equal(paginate(many, 7, 10).page, 2);
+    assert.equal(paginate(many, 7, 10).rows.length, 5);
+    assert.equal(paginate(many, -1, 10).page, 0);
+  });
+
+  test('has one empty page for no rows', () => {
+    assert.deepEqual(paginate([], 3, 10), { rows: [], page: 0, pageCount: 1, start: 0 });
+  });
+});
+
+describe('toCSV', () => {
+  test('writes the labels as header and leaves missing cells empty', () => {
+    assert.equal(toCSV(columns, rows.slice(2, 3)), 'Name,Status,Amount\r\nitem 1,Active,');
+  });
+
+  test('quotes separators, quotes and line breaks', () => {
+    const csv = toCSV(
+      [{ key: 'note', label: 'Note, "quoted"' }, { key: 'n', label: 'N' }],
+      [{ note: 'a,b', n: 1 }, { note: 'say "hi"', n: 2 }, { note: 'two\nlines', n: 3 }, { note: 'cr\rlf', n: 4 }]
+    );
+    assert.equal(csv, [
+      '"Note, ""quoted""",N',
+      '"a,b",1',
+      '"say ""hi""",2',
+      '"two\nlines",3',
+      '"cr\rlf",4',
+    ].join('\r\n'));
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * Filtering, sorting, list windowing and market detail of the markets explorer
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  emptyMarketFilters,
+  filterMarkets,
+  outcomeOdds,
+  priceHistory,
+  sortMarkets,
+  visibleRange,
+} from '@/lib/markets-explorer';
+import type { MarketData } from '@/lib/types';
+
+function market(id: string, fields: Partial<MarketData> = {}): MarketData {
+  return { id, source: 'polymarket', question: `Market ${id}?`, yesPrice: 0.5, noPrice: 0.5, volume: 0, liquidity: 0, ...fields };
+}
+
+const markets: MarketData[] = [
+  market('a', { question: 'Will BTC close above 100k?', category: 'Crypto', yesPrice: 0.7, liquidity: 5_000, volume: 300, acceptingOrders: true, closeTime: '2025-03-01T00:00:00Z' }),
+  market('b', { title: 'US Election', category: 'Politics', yesPrice: 0.2, liquidity: 50_000, volume: 900 }),
+  market('c', { category: 'Crypto', yesPrice: 0.4, liquidity: 500, oneDayPriceChange: 0.05, closeTime: 'not a date' }),
+  market('d', { yesPrice: 0.9, liquidity: 20_000, volume: 100, oneDayPriceChange: -0.1, acceptingOrders: false, closeTime: '2025-01-01T00:00:00Z' }),
+];
+
+const ids = (result: MarketData[]) => result.map((entry) => entry.id);
+
+describe('filterMarkets', () => {
+  test('returns every market without filters', () => {
+    assert.deepEqual(ids(filterMarkets(markets, emptyMarketFilters)), ['a', 'b', 'c', 'd']);
+  });
+
+  test('searches the question and title, case-insensitive', () => {
+    assert.deepEqual(ids(filterMarkets(markets, { ...emptyMarketFilters, search: ' btc ' })), ['a']);
+    assert.deepEqual(ids(filterMarkets(markets, { ...emptyMarketFilters, search: 'election' })), ['b']);
+  });
+
+  test('matches any selected category, never uncategorized markets', () => {
+    const crypto = filterMarkets(markets, { ...emptyMarketFilters, categories: ['Crypto', 'Sports'] });
+    assert.deepEqual(ids(crypto), ['a', 'c']);
+  });
+
+  test('keeps prices and liquidity within inclusive bounds', () => {
+    assert.deepEqual(ids(filterMarkets(markets, { ...emptyMarketFilters, yesPrice: { min: 0.4, max: 0.7 } })), ['a', 'c']);
+    assert.deepEqual(ids(filterMarkets(markets, { ...emptyMarketFilters, liquidity: { min: 5_000 } })), ['a', 'b', 'd']);
+    assert.deepEqual(ids(filterMarkets(markets, { ...emptyMarketFilters, liquidity: { max: 5_000 } })), ['a', 'c']);
+  });
+
+  test('combines filters, only keeping markets accepting orders when asked', () => {
+    const filters = { ...emptyMarketFilters, acceptingOrdersOnly: true, liquidity: { min: 1_000 } };
+    assert.deepEqual(ids(filterMarkets(markets, filters)), ['a']);
+  });
+});
+
+describe('sortMarkets', () => {
+  test('sorts by a numeric value in both directions', () => {
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'liquidity', direction: 'desc' })), ['b', 'd', 'a', 'c']);
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'liquidity', direction: 'asc' })), ['c', 'a', 'd', 'b']);
+  });
+
+  test('puts undefined values last in both directions', () => {
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'change1d', direction: 'desc' })), ['c', 'd', 'a', 'b']);
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'change1d', direction: 'asc' })), ['d', 'c', 'a', 'b']);
+  });
+
+  test('sorts by close time, treating invalid dates as undefined', () => {
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'closing', direction: 'asc' })), ['d', 'a', 'b', 'c']);
+    assert.deepEqual(ids(sortMarkets(markets, { key: 'closing', direction: 'desc' })), ['a', 'd', 'b', 'c']);
+  });
+
+  test('leaves the input order alone', () => {
+    sortMarkets(markets, { key: 'volume', direction: 'desc' });
+    assert.deepEqual(ids(markets), ['a', 'b', 'c', 'd']);
+  });
+});
+
+describe('visibleRange', () => {
+  test('renders the rows in view plus the overscan', () => {
+    assert.deepEqual(visibleRange(1_000, 300, 50, 100), { start: 17, end: 29 });
+    assert.deepEqual(visibleRange(1_000, 300, 50, 100, 0), { start: 20, end: 26 });
+  });
+
+  test('clamps at the top of the list', () => {
+    assert.deepEqual(visibleRange(0, 300, 50, 100), { start: 0, end: 9 });
+    assert.deepEqual(visibleRange(-80, 300, 50, 100), { start: 0, end: 8 });
+  });
+
+  test('clamps at the end of the list', () => {
+    assert.deepEqual(visibleRange(4_900, 300, 50, 100), { start: 95, end: 100 });
+    assert.deepEqual(visibleRange(0, 300, 50, 4), { start: 0, end: 4 });
+  });
+
+  test('is empty past the end or for an empty list', () => {
+    const past = visibleRange(10_000, 300, 50, 100);
+    assert.equal(past.end - past.start, 0);
+    assert.deepEqual(visibleRange(0, 300, 50, 0), { start: 0, end: 0 });
+  });
+});
+
+describe('outcomeOdds', () => {
+  test('normalizes quoted prices into probabilities that sum to 1', () => {
+    const [yes, no] = outcomeOdds(market('x', { yesPrice: 0.62, noPrice: 0.42 }));
+    assert.equal(yes.price, 0.62);
+    assert.ok(Math.abs(yes.probability - 0.62 / 1.04) < 1e-12);
+    assert.ok(Math.abs(yes.probability + no.probability - 1) < 1e-12);
+  });
+
+  test('uses the outcome labels, Yes and No by default', () => {
+    assert.deepEqual(outcomeOdds(market('x')).map((odds) => odds.label), ['Yes', 'No']);
+    const named = outcomeOdds(market('x', { yesOutcome: 'Lakers', noOutcome: 'Celtics' }));
+    assert.deepEqual(named.map((odds) => odds.label), ['Lakers', 'Celtics']);
+  });
+
+  test('splits evenly when both prices are zero', () => {
+    const odds = outcomeOdds(market('x', { yesPrice: 0, noPrice: 0 }));
+    assert.deepEqual(odds.map((entry) => entry.probability), [0.5, 0.5]);
+  });
+});
+
+describe('priceHistory', () => {
+  test('rebuilds past prices from the known changes, oldest first', () => {
+    const chart = priceHistory(market('x', { yesPrice: 0.6, oneWeekPriceChange: 0.2, oneHourPriceChange: -0.05 }));
+    assert.deepEqual(chart?.labels, ['1w ago', '1h ago', 'Now']);
+    assert.deepEqual(chart?.series[0].values, [40, 65, 60]);
+    assert.equal(chart?.yAxis?.unit, '%');
+  });
+
+  test('clamps rebuilt prices to 0–100%', () => {
+    const chart = priceHistory(market('x', { yesPrice: 0.95, oneDayPriceChange: -0.2, oneHourPriceChange: 0.99 }));
+    assert.deepEqual(chart?.series[0].values, [100, 0, 95]);
+  });
+
+  test('is null when no price change is known', () => {
+    assert.equal(priceHistory(market('x')), null);
+  });
+});
@@ -0,0 +1,92 @@
+/**
+ * The generated OpenAPI document: paths, payment parameters, request bodies
+ * per componentType and the 402 response
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { GET as openApi } from '@/app/api/openapi/route';
+import { componentsForRoute } from '@/lib/component-registry';
+import { PAY_WITH_CREDITS_HEADER } from '@/lib/credits-client';
+import { PAYMENT_NETWORK_HEADER } from '@/lib/solana-networks';
+import type { OpenApiDocument } from '@/lib/openapi';
+
+const PAYMENT_HEADERS = [
+  'X-PAYMENT',
+  'X-Payment-Receipt',
+  'X-Payment-Signature',
+  'X-Payment-PublicKey',
+  'X-Payment-Timestamp',
+  'X-Payment-Asset',
+  PAY_WITH_CREDITS_HEADER,
+  PAYMENT_NETWORK_HEADER,
+];
+
+async function document(): Promise<OpenApiDocument> {
+  const response = await openApi();
+  assert.equal(response.status, 200);
+  return response.json();
+}
+
+describe('OpenAPI document', () => {
+  test('describes every paid route and the discovery route', async () => {
+    const doc = await document();
+    assert.equal(doc.openapi, '3.1.0');
+    assert.deepEqual(Object.keys(doc.paths), ['/api/render-ui', '/api/premium-ui', '/api/markets', '/api/x402/resources']);
+    assert.deepEqual(Object.keys(doc.paths['/api/markets']), ['get', 'post']);
+    assert.deepEqual(Object.keys(doc.paths['/api/render-ui']), ['post']);
+  });
+
+  test('lists every payment header as an optional header parameter', async () => {
+    const doc = await document();
+    for (const [path, operations] of Object.entries(doc.paths)) {
+      if (path === '/api/x402/resources') {
+        continue;
+      }
+      for (const operation of Object.values(operations)) {
+        const headers = operation.parameters!.filter((parameter) => parameter.in === 'header');
+        assert.deepEqual(headers.map(({ name }) => name), PAYMENT_HEADERS, `${path} ${operation.operationId}`);
+        assert.ok(headers.every(({ required, schema }) => !required && schema.type === 'string'));
+      }
+    }
+  });
+
+  test('takes the markets config as query parameters on GET', async () => {
+    const { get } = (await document()).paths['/api/markets'];
+    const query = get!.parameters!.filter((parameter) => parameter.in === 'query');
+    assert.deepEqual(query.map(({ name }) => name).sort(), ['category', 'hoursBack', 'limit']);
+    assert.equal(get!.operationId, 'getMarkets');
+  });
+
+  test('offers one request body and example per component of a route', async () => {
+    const doc = await document();
+    const body = doc.paths['/api/premium-ui'].post!.requestBody!.content['application/json'];
+    assert.deepEqual(body.schema.oneOf, [
+      { $ref: '#/components/schemas/AdvancedGridRequest' },
+      { $ref: '#/components/schemas/DataTableRequest' },
+      { $ref: '#/components/schemas/AnalyticsDashboardRequest' },
+    ]);
+    assert.deepEqual(Object.keys(body.examples!), componentsForRoute('/api/premium-ui'));
+    assert.deepEqual(
+      doc.components.schemas.AnalyticsDashboardRequest.properties?.componentType,
+      { enum: ['analytics-dashboard', 'analytics'] }
+    );
+  });
+
+  test('answers 402 with the PaymentRequiredResponse and documents 502 only for upstream data', async () => {
+    const doc = await document();
+    const render = doc.paths['/api/render-ui'].post!.responses;
+    assert.deepEqual(render[402].content!['application/json'].schema, {
+      oneOf: [{ $ref: '#/components/schemas/PaymentRequiredResponse' }, { $ref: '#/components/schemas/Error' }],
+    });
+    assert.deepEqual(Object.keys(render[402].headers!), ['X-X402-Protected', 'X-Payment-Required', 'X-PAYMENT-RESPONSE']);
+    assert.equal(render[502], undefined);
+    assert.ok(doc.paths['/api/markets'].get!.responses[502]);
+
+    const { PaymentRequiredResponse } = doc.components.schemas;
+    assert.deepEqual(PaymentRequiredResponse.properties?.accepts, {
+      type: 'array',
+      items: { $ref: '#/components/schemas/PaymentRequirement' },
+    });
+  });
+});
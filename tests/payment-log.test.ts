@@ -0,0 +1,42 @@
+/**
+ * Payment log persistence and listing per wallet
+ */
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FilePaymentLogStore, PaymentLog } from '@/lib/payment-log';
+import type { PaymentContext } from '@/lib/x402-middleware';
+
+const payment: PaymentContext = {
+  scheme: 'custom',
+  payer: 'payer-key',
+  signature: 'sig-1',
+  network: 'mainnet-beta',
+  asset: 'SOL',
+  amount: 500_000,
+  account: null,
+};
+
+test('keeps records across a reload of the file and lists them per wallet, newest first', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'payment-log-'));
+  const file = join(dir, 'payment-log.json');
+  try {
+    const store = new FilePaymentLogStore(file);
+    const log = new PaymentLog(store);
+    const first = await log.record('/api/render-ui', { componentType: 'card' }, payment, 'content-1', 'basic');
+    await log.record('/api/render-ui', { componentType: 'card' }, { ...payment, payer: 'someone-else' }, 'content-3');
+    // Paid later with the same wallet, on devnet
+    await store.append({ ...first, id: 'later', paidAt: first.paidAt + 1000, network: 'devnet', contentId: 'content-2' });
+
+    const reloaded = await new PaymentLog(new FilePaymentLogStore(file)).listForWallet('payer-key');
+    assert.deepEqual(reloaded.map((record) => [record.contentId, record.network]), [
+      ['content-2', 'devnet'],
+      ['content-1', 'mainnet-beta'],
+    ]);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
@@ -0,0 +1,41 @@
+/**
+ * Payment mode selection: standard x402 for SPL assets on networks with a
+ * facilitator, direct transfers for native SOL and networks without one
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { canPayWithX402, selectPaymentMode } from '@/lib/payment-mode';
+import { findPaymentAsset } from '@/lib/payment-assets';
+import type { SolanaNetwork } from '@/lib/x402-config';
+
+function asset(symbol: string, network: SolanaNetwork) {
+  const found = findPaymentAsset(symbol, network);
+  assert.ok(found, `${symbol} is accepted on ${network}`);
+  return found;
+}
+
+describe('selectPaymentMode', () => {
+  test('pays SPL assets with x402 where the network has a facilitator', () => {
+    assert.equal(canPayWithX402(asset('USDC', 'mainnet-beta'), 'mainnet-beta'), true);
+    assert.equal(selectPaymentMode(asset('USDC', 'mainnet-beta'), 'mainnet-beta'), 'x402');
+    assert.equal(selectPaymentMode(asset('USDC', 'devnet'), 'devnet'), 'x402');
+  });
+
+  test('pays native SOL by direct transfer, even when x402 is preferred', () => {
+    for (const network of ['mainnet-beta', 'devnet', 'testnet'] as const) {
+      assert.equal(canPayWithX402(asset('SOL', network), network), false);
+      assert.equal(selectPaymentMode(asset('SOL', network), network, 'x402'), 'legacy');
+    }
+  });
+
+  test('pays by direct transfer on networks without a facilitator', () => {
+    const usdc = asset('USDC', 'mainnet-beta');
+    assert.equal(canPayWithX402(usdc, 'testnet'), false);
+    assert.equal(selectPaymentMode(usdc, 'testnet'), 'legacy');
+  });
+
+  test('keeps a preference for direct transfers where x402 is available', () => {
+    assert.equal(selectPaymentMode(asset('USDC', 'mainnet-beta'), 'mainnet-beta', 'legacy'), 'legacy');
+  });
+});
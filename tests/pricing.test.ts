@@ -0,0 +1,95 @@
+/**
+ * Price quotes: item, column and action surcharges, volume and time discounts
+ */
+
+import { afterEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { findQuotedPrice, pricingConfig, quotePrice, type QuoteRequest } from '@/lib/pricing';
+import { x402Config } from '@/lib/x402-config';
+import type { UIConfig } from '@/lib/types';
+
+// A Saturday, 12:00 UTC
+const AT = Date.UTC(2025, 0, 4, 12);
+
+function quote(request: Omit<QuoteRequest, 'priceKey'> & { priceKey?: QuoteRequest['priceKey'] }) {
+  return quotePrice({ priceKey: '/api/render-ui', at: AT, ...request });
+}
+
+function amounts(request: Parameters<typeof quote>[0]): Record<string, number> {
+  return Object.fromEntries(quote(request).prices.map(({ asset, amount }) => [asset.symbol, amount]));
+}
+
+const base = amounts({ componentType: 'card' });
+
+describe('quotePrice', () => {
+  test('charges the route price when nothing adjusts it', () => {
+    const result = quote({ componentType: 'grid', config: { columns: 4, itemCount: 6 } });
+    assert.deepEqual(result.factors, []);
+    assert.deepEqual(result.prices.map(({ asset }) => asset.symbol), ['SOL', 'USDC']);
+    assert.equal(result.network, x402Config.network);
+    assert.deepEqual(amounts({ componentType: 'grid' }), base);
+  });
+
+  test('charges for items beyond those included', () => {
+    const result = quote({ componentType: 'grid', config: { itemCount: 10 } });
+    assert.deepEqual(result.factors, [{ label: '4 extra items', multiplier: 1.2 }]);
+    assert.equal(result.prices[0].amount, Math.ceil(base.SOL * 1.2));
+    // Components without an item allowance ignore itemCount
+    assert.deepEqual(quote({ componentType: 'card', config: { itemCount: 40 } }).factors, []);
+  });
+
+  test('charges for columns and card actions beyond those included', () => {
+    assert.deepEqual(quote({ componentType: 'grid', config: { columns: 6 } }).factors, [{ label: '2 extra columns', multiplier: 1.2 }]);
+    const card = quote({ componentType: 'card', config: { actions: [{}, {}, {}, {}] } });
+    assert.deepEqual(card.factors, [{ label: '2 extra actions', multiplier: 1.2 }]);
+    // Only cards charge for actions
+    assert.deepEqual(quote({ componentType: 'grid', config: { actions: [{}, {}, {}, {}] } }).factors, []);
+  });
+
+  test('ignores counts that are not positive numbers', () => {
+    for (const value of [0, -3, 'many', null]) {
+      assert.deepEqual(quote({ componentType: 'grid', config: { itemCount: value, columns: value } as unknown as UIConfig }).factors, []);
+    }
+  });
+
+  test('applies the highest volume discount reached, after the item surcharge', () => {
+    const bulk = quote({ componentType: 'grid', config: { itemCount: 60 } });
+    assert.deepEqual(bulk.factors.map((factor) => factor.label), ['54 extra items', '10% volume discount']);
+
+    const large = quote({ priceKey: '/api/premium-ui', componentType: 'advanced-grid', config: { itemCount: 100 } });
+    assert.deepEqual(large.factors, [
+      { label: '88 extra items', multiplier: 5.4 },
+      { label: '20% volume discount', multiplier: 0.8 },
+    ]);
+    assert.equal(large.prices[0].amount, Math.ceil(base.SOL * 5.4 * 0.8));
+  });
+
+  describe('time discounts', () => {
+    afterEach(() => {
+      pricingConfig.timeDiscounts = [];
+    });
+
+    test('apply within their days and UTC hours only', () => {
+      pricingConfig.timeDiscounts = [{ label: 'Weekend', days: [0, 6], startHourUtc: 10, endHourUtc: 14, percentOff: 25 }];
+      assert.deepEqual(quote({ componentType: 'card' }).factors, [{ label: 'Weekend (25% off)', multiplier: 0.75 }]);
+      assert.equal(quote({ componentType: 'card' }).prices[0].amount, Math.ceil(base.SOL * 0.75));
+
+      // The end hour is exclusive, and weekdays are outside the window
+      assert.deepEqual(quote({ componentType: 'card', at: Date.UTC(2025, 0, 4, 14) }).factors, []);
+      assert.deepEqual(quote({ componentType: 'card', at: Date.UTC(2025, 0, 6, 12) }).factors, []);
+    });
+  });
+
+  test('quotes another network from its own route price', () => {
+    const devnet = quote({ componentType: 'card', network: 'devnet' });
+    assert.equal(devnet.network, 'devnet');
+    assert.notDeepEqual(devnet.prices.map(({ amount }) => amount), [base.SOL, base.USDC]);
+  });
+});
+
+test('findQuotedPrice finds a price by symbol or mint', () => {
+  const result = quote({ componentType: 'card' });
+  assert.equal(findQuotedPrice(result, 'USDC')?.amount, base.USDC);
+  assert.equal(findQuotedPrice(result, x402Config.assets.USDC.mint)?.amount, base.USDC);
+  assert.equal(findQuotedPrice(result, 'BONK'), undefined);
+});
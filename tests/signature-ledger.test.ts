@@ -0,0 +1,109 @@
+/**
+ * Freshness and single use of payment signatures, receipts and SIWS nonces
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileSignatureLedgerStore, SignatureLedger, type ConsumeSignatureParams } from '@/lib/signature-ledger';
+
+const NOW = 1_750_000_000_000;
+const MAX_AGE_SECONDS = 300;
+
+function ledgerAt(store = new FileSignatureLedgerStore(null)): SignatureLedger {
+  return new SignatureLedger(store, MAX_AGE_SECONDS, () => NOW);
+}
+
+function payment(changes: Partial<ConsumeSignatureParams> = {}): ConsumeSignatureParams {
+  return {
+    signature: 'sig-1',
+    resource: '/api/render-ui',
+    payer: 'payer',
+    timestamp: String(NOW - 1_000),
+    blockTime: Math.floor(NOW / 1000) - 10,
+    ...changes,
+  };
+}
+
+describe('consume', () => {
+  test('accepts a fresh signature once, across resources', async () => {
+    const ledger = ledgerAt();
+    assert.equal((await ledger.consume(payment())).ok, true);
+
+    const reuse = await ledger.consume(payment({ resource: '/api/premium-ui' }));
+    assert.equal(reuse.ok, false);
+    assert.equal(reuse.ok ? null : reuse.reason, 'SIGNATURE_REUSED');
+    assert.match(reuse.ok ? '' : reuse.message, /\/api\/render-ui/);
+  });
+
+  test('rejects a missing, malformed or future timestamp', async () => {
+    const ledger = ledgerAt();
+    for (const timestamp of [null, '', 'yesterday', String(NOW + 120_000)]) {
+      const result = await ledger.consume(payment({ timestamp }));
+      assert.equal(result.ok ? null : result.reason, 'INVALID_TIMESTAMP', String(timestamp));
+    }
+    // Small clock drift is tolerated
+    assert.equal((await ledger.consume(payment({ timestamp: String(NOW + 30_000) }))).ok, true);
+  });
+
+  test('rejects payments and transactions older than maxPaymentAgeSeconds', async () => {
+    const ledger = ledgerAt();
+    const stale = await ledger.consume(payment({ timestamp: String(NOW - (MAX_AGE_SECONDS + 1) * 1000) }));
+    assert.equal(stale.ok ? null : stale.reason, 'PAYMENT_EXPIRED');
+
+    const oldBlock = await ledger.consume(payment({ blockTime: Math.floor(NOW / 1000) - MAX_AGE_SECONDS - 1 }));
+    assert.equal(oldBlock.ok ? null : oldBlock.reason, 'PAYMENT_EXPIRED');
+
+    const noBlock = await ledger.consume(payment({ blockTime: null }));
+    assert.equal(noBlock.ok ? null : noBlock.reason, 'PAYMENT_EXPIRED');
+
+    // Rejected payments are not recorded, so a fresh retry still goes through
+    assert.equal((await ledger.consume(payment())).ok, true);
+  });
+});
+
+describe('redeem', () => {
+  test('redeems an access receipt once', async () => {
+    const ledger = ledgerAt();
+    const receipt = { key: 'receipt:sig-1', resource: '/api/render-ui', payer: 'payer' };
+    assert.equal(await ledger.redeem(receipt), true);
+    assert.equal(await ledger.redeem(receipt), false);
+    // The receipt key does not use up the transfer signature it was issued for
+    assert.equal((await ledger.consume(payment())).ok, true);
+  });
+
+  test('redeems a SIWS nonce once', async () => {
+    const ledger = ledgerAt();
+    const nonce = { key: 'siws:abc123', resource: '/api/auth/verify', payer: 'payer' };
+    assert.equal(await ledger.redeem(nonce), true);
+    assert.equal(await ledger.redeem({ ...nonce, payer: 'someone-else' }), false);
+  });
+
+  test('a released key can be used again', async () => {
+    const ledger = ledgerAt();
+    assert.equal((await ledger.consume(payment())).ok, true);
+    await ledger.release('sig-1');
+    assert.equal((await ledger.consume(payment())).ok, true);
+  });
+});
+
+test('FileSignatureLedgerStore keeps signatures across reloads', async () => {
+  const dir = await mkdtemp(join(tmpdir(), 'signature-ledger-'));
+  const file = join(dir, 'ledger.json');
+  try {
+    assert.equal((await ledgerAt(new FileSignatureLedgerStore(file)).consume(payment())).ok, true);
+    assert.equal(await ledgerAt(new FileSignatureLedgerStore(file)).redeem({ key: 'siws:n1', resource: '/api/auth/verify', payer: 'payer' }), true);
+
+    const reloaded = ledgerAt(new FileSignatureLedgerStore(file));
+    const reuse = await reloaded.consume(payment());
+    assert.equal(reuse.ok ? null : reuse.reason, 'SIGNATURE_REUSED');
+    assert.equal(await reloaded.redeem({ key: 'siws:n1', resource: '/api/auth/verify', payer: 'payer' }), false);
+
+    const entry = await new FileSignatureLedgerStore(file).get('sig-1');
+    assert.deepEqual(entry, { signature: 'sig-1', resource: '/api/render-ui', payer: 'payer', consumedAt: NOW });
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+});
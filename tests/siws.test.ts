@@ -0,0 +1,128 @@
+/**
+ * Sign-In With Solana messages and their verification by /api/auth/verify
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createPrivateKey, sign } from 'node:crypto';
+import { Keypair } from '@solana/web3.js';
+import { buildSignInMessage, parseSignInMessage, type SignInMessageFields } from '@/lib/siws';
+import { createSignInNonce, readSession, verifySignIn } from '@/lib/auth';
+import { x402Config } from '@/lib/x402-config';
+
+const NOW = Date.UTC(2025, 0, 4, 12);
+const HOST = 'localhost:3000';
+
+function fieldsFor(keypair: Keypair, nonce: string, changes: Partial<SignInMessageFields> = {}): SignInMessageFields {
+  return {
+    domain: HOST,
+    address: keypair.publicKey.toBase58(),
+    statement: 'Sign in to view your paid renders',
+    uri: `http://${HOST}`,
+    nonce,
+    issuedAt: new Date(NOW).toISOString(),
+    ...changes,
+  };
+}
+
+// Signs like a wallet's signMessage: Ed25519 over the UTF-8 message, base64 for the API
+function signMessage(keypair: Keypair, message: string): string {
+  const key = createPrivateKey({
+    key: {
+      kty: 'OKP',
+      crv: 'Ed25519',
+      d: Buffer.from(keypair.secretKey.slice(0, 32)).toString('base64url'),
+      x: Buffer.from(keypair.publicKey.toBytes()).toString('base64url'),
+    },
+    format: 'jwk',
+  });
+  return sign(null, Buffer.from(message, 'utf8'), key).toString('base64');
+}
+
+describe('sign-in message', () => {
+  test('parses what it builds', () => {
+    const fields = fieldsFor(Keypair.generate(), 'abc123', { expirationTime: new Date(NOW + 60_000).toISOString() });
+    const message = buildSignInMessage(fields);
+    assert.match(message, /^localhost:3000 wants you to sign in with your Solana account:\n/);
+    assert.deepEqual(parseSignInMessage(message), fields);
+  });
+
+  test('leaves the expiration time out when there is none', () => {
+    const fields = fieldsFor(Keypair.generate(), 'abc123');
+    assert.doesNotMatch(buildSignInMessage(fields), /Expiration Time/);
+    assert.equal(parseSignInMessage(buildSignInMessage(fields))?.expirationTime, undefined);
+  });
+
+  test('rejects malformed messages', () => {
+    const message = buildSignInMessage(fieldsFor(Keypair.generate(), 'abc123'));
+    const lines = message.split('\n');
+    const malformed = [
+      '',
+      message.replace(' wants you to sign in', ' would like you to sign in'),
+      [lines[0], '', ...lines.slice(2)].join('\n'),
+      [...lines.slice(0, 2), 'not blank', ...lines.slice(3)].join('\n'),
+      message.replace('Version: 1', 'Version: 2'),
+      message.replace(/\nNonce: .*/, ''),
+      message.replace(/\nIssued At: .*/, ''),
+      message.replace('URI: ', 'URI:'),
+    ];
+    for (const text of malformed) {
+      assert.equal(parseSignInMessage(text), null, text);
+    }
+  });
+});
+
+describe('verifySignIn', () => {
+  function signIn(changes: Partial<SignInMessageFields> = {}, at: number = NOW) {
+    const keypair = Keypair.generate();
+    const { nonce, cookie } = createSignInNonce(NOW);
+    const message = buildSignInMessage(fieldsFor(keypair, nonce, changes));
+    const request = { publicKey: keypair.publicKey.toBase58(), message, signature: signMessage(keypair, message) };
+    return { request, context: { nonceCookie: cookie, host: HOST }, verify: () => verifySignIn(request, { nonceCookie: cookie, host: HOST }, at) };
+  }
+
+  test('issues a session for a signed message, once', async () => {
+    const { request, verify } = signIn();
+    const result = await verify();
+    assert.equal(result.ok, true);
+    assert.equal(readSession(result.ok ? result.session : undefined, NOW)?.publicKey, request.publicKey);
+
+    const replay = await verify();
+    assert.equal(replay.ok ? null : replay.reason, 'NONCE_REUSED');
+  });
+
+  test('rejects a message past its expiration time', async () => {
+    const { verify } = signIn({ expirationTime: new Date(NOW + 60_000).toISOString() }, NOW + 61_000);
+    const result = await verify();
+    assert.equal(result.ok ? null : result.reason, 'EXPIRED');
+  });
+
+  test('rejects a message signed after its nonce expired', async () => {
+    const { verify } = signIn({}, NOW + x402Config.auth.nonceTtlSeconds * 1000 + 1);
+    const result = await verify();
+    assert.equal(result.ok ? null : result.reason, 'EXPIRED');
+  });
+
+  test('rejects a message for another domain, account or nonce', async () => {
+    const domain = await signIn({ domain: 'evil.example' }).verify();
+    assert.equal(domain.ok ? null : domain.reason, 'WRONG_DOMAIN');
+
+    const account = await signIn({ address: Keypair.generate().publicKey.toBase58() }).verify();
+    assert.equal(account.ok ? null : account.reason, 'WRONG_ADDRESS');
+
+    const nonce = await signIn({ nonce: 'guessed' }).verify();
+    assert.equal(nonce.ok ? null : nonce.reason, 'NONCE_MISMATCH');
+  });
+
+  test('rejects a missing nonce cookie, a malformed message and a bad signature', async () => {
+    const { request, context } = signIn();
+    const missing = await verifySignIn(request, { ...context, nonceCookie: undefined }, NOW);
+    assert.equal(missing.ok ? null : missing.reason, 'MISSING_NONCE');
+
+    const malformed = await verifySignIn({ ...request, message: 'hello' }, context, NOW);
+    assert.equal(malformed.ok ? null : malformed.reason, 'INVALID_MESSAGE');
+
+    const forged = await verifySignIn({ ...request, signature: signMessage(Keypair.generate(), request.message) }, context, NOW);
+    assert.equal(forged.ok ? null : forged.reason, 'BAD_SIGNATURE');
+  });
+});
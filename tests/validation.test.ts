@@ -0,0 +1,153 @@
+/**
+ * Schema builders and request validation: bounds, error paths and JSON Schema output
+ */
+
+import { describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  array,
+  formatIssues,
+  literal,
+  looseObject,
+  number,
+  object,
+  optional,
+  record,
+  string,
+  taggedUnion,
+  validate,
+} from '@/lib/validation';
+import { validateRenderRequest } from '@/lib/component-registry';
+import { configLimits, validateUIData } from '@/lib/schemas';
+
+const messages = (schema: Parameters<typeof validate>[0], value: unknown) => {
+  const result = validate(schema, value, 'value');
+  return result.ok ? [] : result.issues.map(({ path, message }) => `${path}: ${message}`);
+};
+
+describe('bounds', () => {
+  test('numbers are finite, within inclusive bounds and integers when asked', () => {
+    const schema = number({ min: 1, max: 10, integer: true });
+    assert.deepEqual(messages(schema, 1), []);
+    assert.deepEqual(messages(schema, 10), []);
+    assert.deepEqual(messages(schema, 0), ['value: must be at least 1']);
+    assert.deepEqual(messages(schema, 11), ['value: must be at most 10']);
+    assert.deepEqual(messages(schema, 2.5), ['value: must be an integer']);
+    assert.deepEqual(messages(schema, '5'), ['value: must be a finite number']);
+    assert.deepEqual(messages(schema, Infinity), ['value: must be a finite number']);
+    assert.deepEqual(messages(schema, NaN), ['value: must be a finite number']);
+  });
+
+  test('strings and arrays respect their lengths', () => {
+    assert.deepEqual(messages(string({ min: 2, max: 3 }), 'a'), ['value: must be at least 2 characters']);
+    assert.deepEqual(messages(string({ min: 2, max: 3 }), 'abcd'), ['value: must be at most 3 characters']);
+    assert.deepEqual(messages(array(number(), { max: 2 }), [1, 2, 3]), ['value: must have at most 2 items']);
+    assert.deepEqual(messages(array(number()), {}), ['value: must be an array']);
+  });
+
+  test('literals accept only their values', () => {
+    assert.deepEqual(messages(literal('primary', 'secondary'), 'primary'), []);
+    assert.deepEqual(messages(literal('primary', 'secondary'), 'danger'), ['value: must be one of primary, secondary']);
+  });
+});
+
+describe('error paths', () => {
+  const schema = object<{ name: string; tags?: { label: string }[]; scores: Record<string, number> }>({
+    name: string({ min: 1 }),
+    tags: optional(array(object({ label: string() }))),
+    scores: record(number({ min: 0 })),
+  });
+
+  test('point at nested fields, array entries and record keys', () => {
+    assert.deepEqual(messages(schema, { name: '', tags: [{ label: 'a' }, { label: 3 }], scores: { x: -1 } }), [
+      'value.name: must be at least 1 characters',
+      'value.tags[1].label: must be a string',
+      'value.scores.x: must be at least 0',
+    ]);
+  });
+
+  test('report missing required fields and unknown keys, not missing optional ones', () => {
+    assert.deepEqual(messages(schema, { scores: {}, extra: true }), [
+      'value.extra: is not allowed',
+      'value.name: is required',
+    ]);
+    assert.deepEqual(messages(schema, null), ['value: must be an object']);
+    assert.deepEqual(messages(schema, []), ['value: must be an object']);
+  });
+
+  test('loose objects and allowUnknown ignore other keys', () => {
+    assert.deepEqual(messages(looseObject<{ id: string }>({ id: string() }), { id: 'a', extra: 1 }), []);
+    assert.deepEqual(messages(object<{ id: string }>({ id: string() }, { allowUnknown: true }), { id: 'a', extra: 1 }), []);
+  });
+
+  test('tagged unions check the variant named by type', () => {
+    const shape = taggedUnion<{ type: 'circle'; radius: number } | { type: 'square'; side: number }>({
+      circle: object({ type: literal('circle'), radius: number({ min: 0 }) }),
+      square: object({ type: literal('square'), side: number({ min: 0 }) }),
+    });
+    assert.deepEqual(messages(shape, { type: 'circle', radius: 2 }), []);
+    assert.deepEqual(messages(shape, { type: 'square', side: -1 }), ['value.side: must be at least 0']);
+    assert.deepEqual(messages(shape, { type: 'triangle' }), ['value.type: must be one of circle, square']);
+  });
+
+  test('tagged unions ignore type names inherited from Object.prototype', () => {
+    const shape = taggedUnion<{ type: 'circle'; radius: number }>({
+      circle: object({ type: literal('circle'), radius: number() }),
+    });
+    assert.deepEqual(messages(shape, { type: 'constructor' }), ['value.type: must be one of circle']);
+    assert.deepEqual(messages(shape, { type: 'toString' }), ['value.type: must be one of circle']);
+  });
+
+  test('formatIssues joins paths and messages', () => {
+    assert.equal(
+      formatIssues([{ path: 'config.columns', message: 'must be at most 6' }, { path: '', message: 'must be an object' }]),
+      'config.columns: must be at most 6; must be an object'
+    );
+  });
+});
+
+test('toJSONSchema leaves out unbounded limits', () => {
+  assert.deepEqual(number({ min: 0 }).toJSONSchema(), { type: 'number', minimum: 0 });
+  assert.deepEqual(string().toJSONSchema(), { type: 'string' });
+  assert.deepEqual(object<{ a: number; b?: string }>({ a: number({ integer: true }), b: optional(string({ max: 5 })) }).toJSONSchema(), {
+    type: 'object',
+    properties: { a: { type: 'integer' }, b: { type: 'string', maxLength: 5 } },
+    required: ['a'],
+    additionalProperties: false,
+  });
+});
+
+describe('validateRenderRequest', () => {
+  test('accepts a known component with a config within limits', () => {
+    const result = validateRenderRequest({ componentType: 'grid', config: { columns: configLimits.maxColumns } });
+    assert.deepEqual(result, { ok: true, value: { componentType: 'grid', config: { columns: configLimits.maxColumns } } });
+    assert.deepEqual(validateRenderRequest({ componentType: 'card' }), { ok: true, value: { componentType: 'card', config: {} } });
+  });
+
+  test('rejects bodies that are not objects and components the route does not sell', () => {
+    const notObject = validateRenderRequest('grid');
+    assert.deepEqual(notObject.ok ? null : notObject.issues, [{ path: '', message: 'Request body must be a JSON object' }]);
+
+    const wrongRoute = validateRenderRequest({ componentType: 'data-table' }, ['grid', 'card']);
+    assert.deepEqual(wrongRoute.ok ? null : wrongRoute.issues, [{ path: 'componentType', message: 'must be one of grid, card' }]);
+  });
+
+  test('reports config issues under config', () => {
+    const result = validateRenderRequest({ componentType: 'grid', config: { itemCount: configLimits.maxItems + 1, shape: 'round' } });
+    assert.deepEqual(result.ok ? null : formatIssues(result.issues), `config.shape: is not allowed; config.itemCount: must be at most ${configLimits.maxItems}`);
+  });
+});
+
+test('UI data tolerates extra fields at every level', () => {
+  const grid = {
+    type: 'grid',
+    layout: { columns: 2, gap: 4, direction: 'row', items: [{ id: 1, title: 'A', description: 'a', color: 'red', badge: 'new' }] },
+  };
+  assert.equal(validateUIData(grid).ok, true);
+
+  const card = { type: 'card', title: 'T', content: 'C', actions: [{ label: 'Go', variant: 'primary', href: '/go' }] };
+  assert.equal(validateUIData(card).ok, true);
+
+  const result = validateUIData({ ...card, actions: [{ label: 'Go', variant: 'danger' }] });
+  assert.deepEqual(result.ok ? null : result.issues, [{ path: 'ui.actions[0].variant', message: 'must be one of primary, secondary' }]);
+});
@@ -0,0 +1,83 @@
+/**
+ * The x402 CLI commands run --offline: routes served in-process and paid by
+ * the mock settler on a FakeLedger
+ */
+
+import { after, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { runCli, type CliIO } from '@/cli/commands';
+import { setPaymentNetwork } from '@/lib/payment-network';
+import { setMarketsFetcher } from '@/lib/markets';
+import type { PaymentRequiredResponse, UIResponse } from '@/lib/types';
+
+// No keypair file, so the offline run pays from a generated one
+const OFFLINE = ['--offline', '--keypair', '/nonexistent/id.json'];
+
+after(() => {
+  setPaymentNetwork(null);
+  setMarketsFetcher(null);
+});
+
+async function cli(...argv: string[]) {
+  const out: string[] = [];
+  const err: string[] = [];
+  const io: CliIO = { out: (text) => out.push(text), err: (text) => err.push(text) };
+  const code = await runCli([...argv, ...OFFLINE], io);
+  return { code, out: out.join('\n'), err: err.join('\n') };
+}
+
+describe('x402 CLI', () => {
+  test('list prints each resource and its component prices', async () => {
+    const { code, out } = await cli('list');
+    assert.equal(code, 0);
+    assert.match(out, /^POST \/api\/render-ui/m);
+    assert.match(out, /^GET \/api\/markets/m);
+    assert.match(out, /card\s+basic\s+0\.0005 SOL or 0\.05 USDC/);
+  });
+
+  test('quote prints the price without paying', async () => {
+    const { code, out, err } = await cli('quote', 'card');
+    assert.equal(code, 0);
+    assert.match(out, /^card: 0\.0005 SOL or 0\.05 USDC/);
+    assert.doesNotMatch(err, /Paid/);
+  });
+
+  test('fetch pays on the fake ledger and prints the UIResponse', async () => {
+    const { code, out, err } = await cli('fetch', 'card', '--config', '{"title":"Offline"}');
+    assert.equal(code, 0, err);
+    assert.match(err, /with the mock settler/);
+    assert.match(err, /Paid 0\.0005 SOL, signature \w+/);
+    const body = JSON.parse(out) as UIResponse;
+    assert.equal(body.success, true);
+    assert.equal(body.ui?.type, 'card');
+  });
+
+  test('pays with USDC when asked', async () => {
+    const { code, err } = await cli('pay', 'grid', '--asset', 'USDC');
+    assert.equal(code, 0, err);
+    assert.match(err, /Paid 0\.05 USDC/);
+  });
+
+  test('refuses to pay over --max-price', async () => {
+    const { code, out, err } = await cli('fetch', 'card', '--max-price', '0.0001');
+    assert.equal(code, 1);
+    assert.equal(out, '');
+    assert.match(err, /Payment failed \(OVER_CALL_LIMIT\)/);
+  });
+
+  test('--dry-run prints the requirements and checks --max-price', async () => {
+    const { code, out, err } = await cli('fetch', 'card', '--dry-run', '--max-price', '0.0001');
+    assert.equal(code, 0);
+    const details = JSON.parse(out) as PaymentRequiredResponse;
+    assert.ok(details.options?.some((option) => option.asset === 'SOL'));
+    assert.match(err, /Would refuse to pay/);
+    assert.doesNotMatch(err, /Paid/);
+  });
+
+  test('rejects the mock settler outside --offline and unknown components', async () => {
+    assert.equal((await runCli(['fetch', 'card', '--settler', 'mock'], { out: () => {}, err: () => {} })), 1);
+    const { code, err } = await cli('quote', 'nope');
+    assert.equal(code, 1);
+    assert.match(err, /Unknown component 'nope'/);
+  });
+});
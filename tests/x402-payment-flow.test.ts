@@ -0,0 +1,705 @@
+/**
+ * End-to-end payment flow through the route handlers, against a FakeLedger:
+ * 402 quote, payment, retry with proof of payment
+ */
+
+import { after, before, beforeEach, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { Keypair } from '@solana/web3.js';
+import { NextRequest } from 'next/server';
+import { POST as renderUi } from '@/app/api/render-ui/route';
+import { POST as premiumUi } from '@/app/api/premium-ui/route';
+import { POST as verifyPayment } from '@/app/api/verify-payment/route';
+import { GET as marketsGet } from '@/app/api/markets/route';
+import { GET as creditBalance } from '@/app/api/credits/balance/route';
+import { GET as history } from '@/app/api/history/route';
+import { GET as storedRender } from '@/app/api/renders/[contentId]/route';
+import { setPaymentNetwork } from '@/lib/payment-network';
+import { withX402Payment } from '@/lib/x402-middleware';
+import { creditLedger } from '@/lib/credits';
+import { PAY_WITH_CREDITS_HEADER } from '@/lib/credits-client';
+import { SESSION_COOKIE } from '@/lib/auth';
+import { signToken } from '@/lib/signed-token';
+import { createFakePaymentNetwork, type FakeFacilitator, type FakeLedger } from '@/lib/fake-ledger';
+import { X402Client, decodePaymentResponse, type Settler } from '@/lib/x402-client';
+import { createX402PaymentTransaction, encodePaymentHeader } from '@/lib/solana-payment';
+import { createX402Settler } from '@/lib/x402-settlers';
+import { settlementLedger } from '@/lib/settlement-ledger';
+import { paymentLog } from '@/lib/payment-log';
+import { keypairSigner } from '@/lib/x402-signer';
+import { x402Config } from '@/lib/x402-config';
+import { PAYMENT_NETWORK_HEADER, getNetworkConfig, setEnabledNetworks } from '@/lib/solana-networks';
+import { createMarketsFetcher, normalizeMarket, setMarketsFetcher } from '@/lib/markets';
+import { FixtureMarketsFetcher } from '@/lib/markets-fixture';
+import type { MarketsUI, PaymentRequiredResponse, UIResponse } from '@/lib/types';
+
+type RouteHandler = (req: NextRequest) => Promise<Response>;
+
+const RENDER_URL = 'http://localhost/api/render-ui';
+const PREMIUM_URL = 'http://localhost/api/premium-ui';
+const MARKETS_URL = 'http://localhost/api/markets';
+const USDC = x402Config.assets.USDC.mint;
+const DEVNET = { [PAYMENT_NETWORK_HEADER]: 'devnet' };
+
+let ledger: FakeLedger;
+let facilitator: FakeFacilitator;
+let devnetLedger: FakeLedger;
+let payer: Keypair;
+
+before(() => {
+  // Accept devnet alongside the default network, as NEXT_PUBLIC_SOLANA_NETWORKS=devnet does
+  setEnabledNetworks([x402Config.network, 'devnet']);
+});
+
+beforeEach(() => {
+  const network = createFakePaymentNetwork();
+  setPaymentNetwork(network);
+  ledger = network.connection;
+  facilitator = network.facilitator;
+  const devnet = createFakePaymentNetwork('devnet');
+  setPaymentNetwork(devnet, 'devnet');
+  devnetLedger = devnet.connection;
+  payer = Keypair.generate();
+});
+
+after(() => {
+  setEnabledNetworks(null);
+  setPaymentNetwork(null);
+  setMarketsFetcher(null);
+});
+
+function post(handler: RouteHandler, url: string, body: unknown, headers: Record<string, string> = {}) {
+  return handler(new NextRequest(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body),
+  }));
+}
+
+function get(handler: RouteHandler, url: string, headers: Record<string, string> = {}) {
+  return handler(new NextRequest(url, { method: 'GET', headers }));
+}
+
+// Lets the X402Client call a route handler in place of the network
+function routeFetch(handler: RouteHandler): typeof fetch {
+  return (async (url: string, init?: RequestInit) => handler(new NextRequest(url, init as ConstructorParameters<typeof NextRequest>[1]))) as typeof fetch;
+}
+
+function transferHeaders(signature: string, asset = 'SOL'): Record<string, string> {
+  return {
+    'X-Payment-Signature': signature,
+    'X-Payment-PublicKey': payer.publicKey.toBase58(),
+    'X-Payment-Timestamp': String(Date.now()),
+    'X-Payment-Asset': asset,
+  };
+}
+
+async function quote(body: unknown, headers: Record<string, string> = {}): Promise<PaymentRequiredResponse> {
+  const response = await post(renderUi, RENDER_URL, body, headers);
+  assert.equal(response.status, 402);
+  return response.json();
+}
+
+// Signs the standard X-PAYMENT payload for the USDC requirement of a 402
+async function x402Payment(details: PaymentRequiredResponse, connection: FakeLedger = ledger): Promise<string> {
+  const usdc = details.options!.find((option) => option.asset === 'USDC')!;
+  const requirement = details.accepts!.find((accepted) => accepted.asset === usdc.mint)!;
+  const transaction = await createX402PaymentTransaction({
+    fromPubkey: payer.publicKey,
+    requirement,
+    connection,
+  });
+  transaction.sign([payer]);
+  return encodePaymentHeader(transaction, requirement, details.x402Version ?? 1);
+}
+
+// The session cookie of a wallet, as /api/auth/verify sets it
+function sessionCookie(wallet: Keypair = payer): string {
+  const session = signToken({ v: 1, kind: 'siws-session', sub: wallet.publicKey.toBase58(), exp: Date.now() + 60_000 });
+  return `${SESSION_COOKIE}=${session}`;
+}
+
+const card = { componentType: 'card', config: { title: 'Paid card' } };
+const table = { componentType: 'data-table' };
+
+describe('402 response', () => {
+  test('quotes every accepted asset with the facilitator fee payer', async () => {
+    const details = await quote(card);
+    assert.deepEqual(details.options?.map((option) => option.asset), ['SOL', 'USDC']);
+    assert.equal(details.accepts?.length, 2);
+    assert.equal(details.accepts?.[0].extra?.feePayer, facilitator.feePayer);
+    assert.equal(details.payTo, getNetworkConfig().payTo);
+    assert.equal(details.network, x402Config.network);
+  });
+
+  test('rejects invalid requests before quoting', async () => {
+    const response = await post(renderUi, RENDER_URL, { componentType: 'nope' });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('direct transfer', () => {
+  test('renders after a confirmed SOL transfer', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('X-Payment-Verified'), 'true');
+    const body: UIResponse = await response.json();
+    assert.equal(body.ui.type, 'card');
+    assert.ok(body.paymentId);
+  });
+
+  test('logs the stored render instead of the UI', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    const body: UIResponse = await (await post(renderUi, RENDER_URL, card, transferHeaders(signature))).json();
+
+    const [record] = await paymentLog.listForWallet(payer.publicKey.toBase58());
+    assert.equal(record.id, body.paymentId);
+    assert.equal(record.contentId, body.contentId);
+    assert.equal('ui' in record, false);
+  });
+
+  test('renders after a confirmed USDC transfer', async () => {
+    const details = await quote(card);
+    const usdc = details.options!.find((option) => option.asset === 'USDC')!;
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: usdc.amount, mint: USDC });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature, 'USDC'));
+    assert.equal(response.status, 200);
+  });
+
+  test('rejects a signature that was already used', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    assert.equal((await post(renderUi, RENDER_URL, card, transferHeaders(signature))).status, 200);
+    const replay = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(replay.status, 402);
+    assert.equal((await replay.json()).reason, 'SIGNATURE_REUSED');
+  });
+
+  test('rejects a failed transaction', async () => {
+    const details = await quote(card);
+    const signature = ledger.failTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'TX_FAILED');
+  });
+
+  test('rejects an underpayment', async () => {
+    const details = await quote(card);
+    const signature = ledger.underpayTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'UNDERPAID');
+  });
+
+  test('rejects a transfer declared by someone else', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: Keypair.generate().publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'WRONG_SENDER');
+  });
+
+  test('rejects an unknown signature', async () => {
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders('missing-signature'));
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'NOT_FOUND');
+  });
+});
+
+describe('x402 settlement', () => {
+  test('settles before delivering and returns the settlement', async () => {
+    const payment = await x402Payment(await quote(card));
+
+    const response = await post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment });
+    assert.equal(response.status, 200);
+    const settlement = decodePaymentResponse(response.headers.get('X-PAYMENT-RESPONSE'));
+    assert.equal(settlement?.success, true);
+    assert.equal(settlement?.transaction, facilitator.settled[0].transaction);
+  });
+
+  test('settles a payload once and delivers it once', async () => {
+    const payment = await x402Payment(await quote(card));
+
+    assert.equal((await post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment })).status, 200);
+    const replay = await post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment });
+    assert.equal(replay.status, 402);
+    assert.equal((await replay.json()).reason, 'PAYMENT_REUSED');
+    assert.equal(facilitator.settled.length, 1);
+  });
+
+  test('delivers a payload once to concurrent requests', async () => {
+    const payment = await x402Payment(await quote(card));
+
+    const responses = await Promise.all([
+      post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment }),
+      post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment }),
+    ]);
+    assert.deepEqual(responses.map((response) => response.status).sort(), [200, 402]);
+    assert.equal(facilitator.settled.length, 1);
+  });
+
+  test('a delivery claim is exclusive until released or delivered', async () => {
+    const premium = await post(premiumUi, PREMIUM_URL, table);
+    const payment = await x402Payment(await premium.json());
+    facilitator.failNextSettlements();
+    // Withheld, so the payload is settled but not delivered
+    assert.equal((await post(premiumUi, PREMIUM_URL, table, { 'X-PAYMENT': payment })).status, 402);
+    const { key } = (await settlementLedger.find(payment))!;
+
+    assert.equal(await settlementLedger.claimDelivery(key), true);
+    assert.equal(await settlementLedger.claimDelivery(key), false);
+    await settlementLedger.releaseDelivery(key);
+    assert.equal(await settlementLedger.claimDelivery(key), true);
+    await settlementLedger.markDelivered(key);
+    await settlementLedger.releaseDelivery(key);
+    assert.equal(await settlementLedger.claimDelivery(key), false);
+  });
+
+  test('withholds premium content when settlement fails, then settles on retry', async () => {
+    const premium = await post(premiumUi, PREMIUM_URL, table);
+    const payment = await x402Payment(await premium.json());
+    facilitator.failNextSettlements();
+
+    const failed = await post(premiumUi, PREMIUM_URL, table, { 'X-PAYMENT': payment });
+    assert.equal(failed.status, 402);
+    assert.equal((await failed.json()).reason, 'SETTLEMENT_FAILED');
+    assert.equal(decodePaymentResponse(failed.headers.get('X-PAYMENT-RESPONSE'))?.success, false);
+
+    const retried = await post(premiumUi, PREMIUM_URL, table, { 'X-PAYMENT': payment });
+    assert.equal(retried.status, 200);
+    assert.equal(facilitator.settled.length, 1);
+  });
+
+  test('delivers basic content when settlement fails', async () => {
+    const payment = await x402Payment(await quote(card));
+    facilitator.failNextSettlements();
+
+    const response = await post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment });
+    assert.equal(response.status, 200);
+    assert.equal(decodePaymentResponse(response.headers.get('X-PAYMENT-RESPONSE'))?.success, false);
+    assert.equal(facilitator.settled.length, 0);
+  });
+});
+
+describe('access receipts', () => {
+  test('a verified payment buys one render', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    const verification = await post(verifyPayment, 'http://localhost/api/verify-payment', {
+      signature,
+      publicKey: payer.publicKey.toBase58(),
+      endpoint: '/api/render-ui',
+      timestamp: Date.now(),
+      ...card,
+    });
+    assert.equal(verification.status, 200);
+    const { receipt } = await verification.json();
+
+    assert.equal((await post(renderUi, RENDER_URL, card, { 'X-Payment-Receipt': receipt })).status, 200);
+    const reuse = await post(renderUi, RENDER_URL, card, { 'X-Payment-Receipt': receipt });
+    assert.equal((await reuse.json()).reason, 'RECEIPT_REUSED');
+  });
+
+  test('rejects a body that is not JSON', async () => {
+    const response = await verifyPayment(new NextRequest('http://localhost/api/verify-payment', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: '{"signature":',
+    }));
+    assert.equal(response.status, 400);
+    assert.equal((await response.json()).error, 'Invalid request - body must be JSON');
+  });
+});
+
+describe('history', () => {
+  const HISTORY_URL = 'http://localhost/api/history';
+
+  function openRender(contentId: string, headers: Record<string, string>) {
+    return storedRender(
+      new NextRequest(`http://localhost/api/renders/${contentId}`, { headers }),
+      { params: Promise.resolve({ contentId }) }
+    );
+  }
+
+  test('lists the paid requests of the signed-in wallet only', async () => {
+    assert.equal((await get(history, HISTORY_URL)).status, 401);
+
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    const paid: UIResponse = await (await post(renderUi, RENDER_URL, card, transferHeaders(signature))).json();
+
+    const response = await get(history, HISTORY_URL, { Cookie: sessionCookie() });
+    assert.equal(response.status, 200);
+    const { publicKey, payments } = await response.json();
+    assert.equal(publicKey, payer.publicKey.toBase58());
+    assert.equal(payments.length, 1);
+    assert.deepEqual(
+      [payments[0].id, payments[0].endpoint, payments[0].componentType, payments[0].scheme, payments[0].signature, payments[0].asset],
+      [paid.paymentId, '/api/render-ui', 'card', 'custom', signature, 'SOL']
+    );
+
+    const other = await (await get(history, HISTORY_URL, { Cookie: sessionCookie(Keypair.generate()) })).json();
+    assert.deepEqual(other.payments, []);
+  });
+
+  test('re-opens a logged render for the wallet that paid for it', async () => {
+    const details = await quote(card);
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    const paid: UIResponse = await (await post(renderUi, RENDER_URL, card, transferHeaders(signature))).json();
+    const [record] = (await (await get(history, HISTORY_URL, { Cookie: sessionCookie() })).json()).payments;
+
+    const reopened = await openRender(record.contentId, { Cookie: sessionCookie() });
+    assert.equal(reopened.status, 200);
+    assert.deepEqual((await reopened.json()).ui, paid.ui);
+    assert.equal((await openRender(record.contentId, {})).status, 401);
+    assert.equal((await openRender(record.contentId, { Cookie: sessionCookie(Keypair.generate()) })).status, 403);
+  });
+});
+
+describe('credits', () => {
+  // The headers of a signed-in request paid with credits
+  function creditHeaders(): Record<string, string> {
+    return { Cookie: sessionCookie(), [PAY_WITH_CREDITS_HEADER]: 'true' };
+  }
+
+  test('shows a balance only to the signed-in wallet', async () => {
+    await creditLedger.deposit(payer.publicKey.toBase58(), 7, 'devnet');
+    const url = `http://localhost/api/credits/balance?network=devnet&publicKey=${payer.publicKey.toBase58()}`;
+
+    assert.equal((await get(creditBalance, url)).status, 401);
+    const response = await get(creditBalance, url, { Cookie: sessionCookie() });
+    assert.equal(response.status, 200);
+    assert.deepEqual(await response.json(), { publicKey: payer.publicKey.toBase58(), network: 'devnet', credits: 7 });
+  });
+
+  test('a served request spends the credits of the signed-in wallet', async () => {
+    const { credits } = await quote(card);
+    await creditLedger.deposit(payer.publicKey.toBase58(), credits!);
+
+    const response = await post(renderUi, RENDER_URL, card, creditHeaders());
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get('X-Credits-Spent'), String(credits));
+    assert.equal(await creditLedger.balance(payer.publicKey.toBase58()), 0);
+  });
+
+  test('refunds the credits when the handler throws', async () => {
+    const { credits } = await quote(card);
+    await creditLedger.deposit(payer.publicKey.toBase58(), credits!);
+    const failing = withX402Payment(async () => {
+      throw new Error('render failed');
+    }, { priceKey: '/api/render-ui', description: 'Failing render', componentTypes: ['card'] });
+
+    const response = await post(failing, RENDER_URL, card, creditHeaders());
+    assert.equal(response.status, 500);
+    assert.equal(await creditLedger.balance(payer.publicKey.toBase58()), credits);
+  });
+});
+
+describe('networks', () => {
+  test('quotes the devnet price table, treasury and x402 network', async () => {
+    const details = await quote(card, DEVNET);
+    const devnet = getNetworkConfig('devnet');
+    assert.equal(details.network, 'devnet');
+    assert.equal(details.payTo, devnet.payTo);
+    assert.equal(details.price, devnet.prices['/api/render-ui'].SOL);
+    assert.ok(details.accepts?.every((requirement) => requirement.network === 'solana-devnet'));
+    assert.equal(details.options?.find((option) => option.asset === 'USDC')?.mint, devnet.mints.USDC);
+  });
+
+  test('renders after a devnet transfer on a devnet request', async () => {
+    const details = await quote(card, DEVNET);
+    const signature = devnetLedger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, { ...transferHeaders(signature), ...DEVNET });
+    assert.equal(response.status, 200);
+    assert.equal(response.headers.get(PAYMENT_NETWORK_HEADER), 'devnet');
+  });
+
+  test('a devnet transfer never unlocks a mainnet request', async () => {
+    const details = await quote(card);
+    const signature = devnetLedger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    const response = await post(renderUi, RENDER_URL, card, transferHeaders(signature));
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'NOT_FOUND');
+  });
+
+  test('a devnet X-PAYMENT never unlocks a mainnet request', async () => {
+    const payment = await x402Payment(await quote(card, DEVNET), devnetLedger);
+
+    const response = await post(renderUi, RENDER_URL, card, { 'X-PAYMENT': payment });
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'NETWORK_MISMATCH');
+    assert.equal(facilitator.settled.length, 0);
+  });
+
+  test('a devnet receipt never unlocks a mainnet request', async () => {
+    const details = await quote(card, DEVNET);
+    const signature = devnetLedger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    const verification = await post(verifyPayment, 'http://localhost/api/verify-payment', {
+      signature,
+      publicKey: payer.publicKey.toBase58(),
+      endpoint: '/api/render-ui',
+      network: 'devnet',
+      ...card,
+    });
+    const { receipt } = await verification.json();
+
+    const response = await post(renderUi, RENDER_URL, card, { 'X-Payment-Receipt': receipt });
+    assert.equal(response.status, 402);
+    assert.equal((await response.json()).reason, 'WRONG_NETWORK');
+  });
+
+  test('rejects networks that are not enabled', async () => {
+    const response = await post(renderUi, RENDER_URL, card, { [PAYMENT_NETWORK_HEADER]: 'testnet' });
+    assert.equal(response.status, 400);
+  });
+});
+
+describe('markets', () => {
+  let upstream: FixtureMarketsFetcher;
+
+  beforeEach(() => {
+    upstream = new FixtureMarketsFetcher();
+    setMarketsFetcher(upstream);
+  });
+
+  test('quotes a GET request and validates its query first', async () => {
+    const response = await get(marketsGet, `${MARKETS_URL}?hoursBack=24`);
+    assert.equal(response.status, 402);
+    const details: PaymentRequiredResponse = await response.json();
+    assert.equal(details.accepts?.[0].resource, `${x402Config.baseUrl}/api/markets`);
+
+    const invalid = await get(marketsGet, `${MARKETS_URL}?limit=0`);
+    assert.equal(invalid.status, 400);
+    assert.equal(upstream.calls, 0);
+  });
+
+  test('coerces query parameters by the config schema', async () => {
+    assert.equal((await get(marketsGet, `${MARKETS_URL}?category=2024&limit=20`)).status, 402);
+
+    const invalid = await get(marketsGet, `${MARKETS_URL}?limit=twenty`);
+    assert.equal(invalid.status, 400);
+    assert.match((await invalid.json()).error, /config\.limit: must be a finite number/);
+  });
+
+  async function paidMarkets(query: string) {
+    const details: PaymentRequiredResponse = await (await get(marketsGet, MARKETS_URL)).json();
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    return get(marketsGet, `${MARKETS_URL}${query}`, transferHeaders(signature));
+  }
+
+  test('serves normalized, filtered markets after a transfer', async () => {
+    const response = await paidMarkets('?hoursBack=12&category=crypto&limit=2');
+    assert.equal(response.status, 200);
+    const body: UIResponse = await response.json();
+    const ui = body.ui as MarketsUI;
+    assert.equal(ui.type, 'markets');
+    assert.equal(ui.markets.length, 2);
+    assert.ok(ui.markets.every((market) => market.category === 'Crypto'));
+    assert.equal(ui.meta.hoursBack, 12);
+    assert.equal(ui.meta.totalCount, 3);
+    assert.ok(body.paymentId);
+  });
+
+  test('caches the upstream between paid requests', async () => {
+    assert.equal((await paidMarkets('?category=Sports')).status, 200);
+    assert.equal((await paidMarkets('?category=Politics&limit=1')).status, 200);
+    assert.equal(upstream.calls, 1);
+
+    assert.equal((await paidMarkets('?hoursBack=6')).status, 200);
+    assert.equal(upstream.calls, 2);
+  });
+
+  test('answers 502 when the upstream fails and serves a retry with the same transfer', async () => {
+    const details: PaymentRequiredResponse = await (await get(marketsGet, MARKETS_URL)).json();
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+
+    upstream.failNextFetches();
+    const failed = await get(marketsGet, MARKETS_URL, transferHeaders(signature));
+    assert.equal(failed.status, 502);
+    assert.equal((await failed.json()).reason, 'UPSTREAM_UNAVAILABLE');
+
+    assert.equal((await get(marketsGet, MARKETS_URL, transferHeaders(signature))).status, 200);
+    assert.equal(upstream.calls, 2);
+    const reuse = await get(marketsGet, MARKETS_URL, transferHeaders(signature));
+    assert.equal((await reuse.json()).reason, 'SIGNATURE_REUSED');
+  });
+
+  test('serves a retry with the same receipt after the upstream fails', async () => {
+    const details: PaymentRequiredResponse = await (await get(marketsGet, MARKETS_URL)).json();
+    const signature = ledger.confirmTransfer({ from: payer.publicKey, amount: details.price });
+    const verification = await post(verifyPayment, 'http://localhost/api/verify-payment', {
+      signature,
+      publicKey: payer.publicKey.toBase58(),
+      endpoint: '/api/markets',
+      timestamp: Date.now(),
+      componentType: 'markets',
+    });
+    assert.equal(verification.status, 200);
+    const { receipt } = await verification.json();
+
+    upstream.failNextFetches();
+    assert.equal((await get(marketsGet, MARKETS_URL, { 'X-Payment-Receipt': receipt })).status, 502);
+    assert.equal((await get(marketsGet, MARKETS_URL, { 'X-Payment-Receipt': receipt })).status, 200);
+    const reuse = await get(marketsGet, MARKETS_URL, { 'X-Payment-Receipt': receipt });
+    assert.equal((await reuse.json()).reason, 'RECEIPT_REUSED');
+  });
+
+  test('refuses to pay the upstream without a spending limit', async () => {
+    const dir = await mkdtemp(join(tmpdir(), 'markets-'));
+    const env = { ...process.env };
+    try {
+      process.env.MARKETS_UPSTREAM_KEYPAIR = join(dir, 'payer.json');
+      await writeFile(process.env.MARKETS_UPSTREAM_KEYPAIR, JSON.stringify(Array.from(payer.secretKey)));
+      assert.throws(() => createMarketsFetcher(), /MARKETS_UPSTREAM_MAX_PRICE or MARKETS_UPSTREAM_MAX_SPEND/);
+
+      process.env.MARKETS_UPSTREAM_MAX_PRICE = 'lots';
+      assert.throws(() => createMarketsFetcher(), /must be an amount of USDC/);
+
+      process.env.MARKETS_UPSTREAM_MAX_PRICE = '0.05';
+      assert.equal(createMarketsFetcher().name, 'x402');
+    } finally {
+      process.env = env;
+      await rm(dir, { recursive: true, force: true });
+    }
+  });
+
+  test('normalizes raw Polymarket markets', () => {
+    const market = normalizeMarket({
+      id: 512345,
+      question: 'Will it snow in Miami?',
+      outcomes: '["Yes","No"]',
+      outcomePrices: '["0.03","0.97"]',
+      volumeNum: 1200,
+      liquidityNum: '300.5',
+      endDate: '2025-12-31T00:00:00Z',
+      clobTokenIds: '["111","222"]',
+      events: [{ id: 77, slug: 'miami-snow', title: 'Miami snow', category: 'Weather' }],
+    });
+    assert.equal(market?.id, '512345');
+    assert.equal(market?.yesPrice, 0.03);
+    assert.equal(market?.liquidity, 300.5);
+    assert.equal(market?.category, 'Weather');
+    assert.deepEqual(market?.polymarket?.tokenIds, ['111', '222']);
+    assert.equal(market?.polymarket?.eventSlug, 'miami-snow');
+    assert.equal(normalizeMarket({ id: 'x', question: 'No prices' }), null);
+  });
+});
+
+describe('X402Client', () => {
+  // Pays by minting the transfer straight into the fake ledger
+  const ledgerSettler = (): Settler => ({
+    name: 'ledger',
+    canPay: (option) => option.native,
+    async settle(option, { signer }) {
+      const signature = ledger.confirmTransfer({ from: signer.publicKey, amount: option.amount });
+      return {
+        headers: {
+          'X-Payment-Signature': signature,
+          'X-Payment-PublicKey': signer.publicKey.toBase58(),
+          'X-Payment-Timestamp': String(Date.now()),
+          'X-Payment-Asset': option.asset,
+        },
+        signature,
+      };
+    },
+  });
+
+  test('pays a 402 and retries with the transfer', async () => {
+    const client = new X402Client({ signer: keypairSigner(payer), settler: ledgerSettler(), fetch: routeFetch(premiumUi) });
+    const { response, payment } = await client.request(PREMIUM_URL, {
+      method: 'POST',
+      body: JSON.stringify({ componentType: 'data-table' }),
+    });
+
+    assert.equal(response.status, 200);
+    assert.equal((await response.json()).ui.type, 'data-table');
+    assert.equal(payment?.payer, payer.publicKey.toBase58());
+    assert.deepEqual(client.sessionSpend, { [x402Config.assets.SOL.mint]: payment?.amount });
+  });
+
+  test('pays with a standard X-PAYMENT settled by the facilitator', async () => {
+    const client = new X402Client({
+      signer: keypairSigner(payer),
+      // The fake ledger answers the Connection calls that build the transaction
+      settler: createX402Settler(ledger),
+      assets: ['USDC'],
+      fetch: routeFetch(renderUi),
+    });
+    const { response, payment } = await client.request(RENDER_URL, { method: 'POST', body: JSON.stringify(card) });
+
+    assert.equal(response.status, 200);
+    assert.equal(payment?.asset, 'USDC');
+    assert.equal(facilitator.settled.length, 1);
+    assert.equal(facilitator.settled[0].payer, payer.publicKey.toBase58());
+    assert.equal(payment?.signature, facilitator.settled[0].transaction);
+  });
+
+  test('ignores an option that understates the amount it asks to sign', async () => {
+    // Advertises a tiny USDC price while the x402 requirement asks for the real one
+    const understating: typeof fetch = async (url, init) => {
+      const response = await routeFetch(renderUi)(url, init);
+      if (response.status !== 402) {
+        return response;
+      }
+      const details: PaymentRequiredResponse = await response.json();
+      const options = details.options!.map((option) => (option.asset === 'USDC' ? { ...option, amount: 1 } : option));
+      return Response.json({ ...details, options }, { status: 402 });
+    };
+    const client = new X402Client({
+      signer: keypairSigner(payer),
+      settler: createX402Settler(ledger),
+      assets: ['USDC'],
+      maxPerCall: { USDC: 10 },
+      fetch: understating,
+    });
+
+    await assert.rejects(
+      client.request(RENDER_URL, { method: 'POST', body: JSON.stringify(card) }),
+      { name: 'X402ClientError', reason: 'NO_ACCEPTED_ASSET' }
+    );
+    assert.equal(facilitator.settled.length, 0);
+  });
+
+  test('the x402 settler declines native SOL', async () => {
+    const client = new X402Client({
+      signer: keypairSigner(payer),
+      settler: createX402Settler(ledger),
+      assets: ['SOL'],
+      fetch: routeFetch(renderUi),
+    });
+    await assert.rejects(
+      client.request(RENDER_URL, { method: 'POST', body: JSON.stringify(card) }),
+      { name: 'X402ClientError', reason: 'NO_ACCEPTED_ASSET' }
+    );
+    assert.equal(facilitator.settled.length, 0);
+  });
+
+  test('refuses to pay over the per-call limit without paying', async () => {
+    const client = new X402Client({
+      signer: keypairSigner(payer),
+      settler: ledgerSettler(),
+      maxPerCall: { SOL: 1 },
+      fetch: routeFetch(renderUi),
+    });
+    await assert.rejects(
+      client.request(RENDER_URL, { method: 'POST', body: JSON.stringify(card) }),
+      { name: 'X402ClientError', reason: 'OVER_CALL_LIMIT' }
+    );
+    assert.deepEqual(client.sessionSpend, {});
+  });
+});
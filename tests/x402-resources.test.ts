@@ -0,0 +1,80 @@
+/**
+ * The resource discovery document served at /api/x402/resources and /.well-known/x402
+ */
+
+import { after, before, describe, test } from 'node:test';
+import assert from 'node:assert/strict';
+import { NextRequest } from 'next/server';
+import { GET as wellKnown } from '@/app/.well-known/x402/route';
+import { getAcceptedPrices } from '@/lib/payment-assets';
+import { getNetworkConfig, setEnabledNetworks } from '@/lib/solana-networks';
+import { x402Config } from '@/lib/x402-config';
+import type { ResourceList } from '@/lib/x402-resources';
+
+before(() => {
+  setEnabledNetworks([x402Config.network, 'devnet']);
+});
+
+after(() => {
+  setEnabledNetworks(null);
+});
+
+async function discover(query = ''): Promise<Response> {
+  return wellKnown(new NextRequest(`http://localhost/.well-known/x402${query}`));
+}
+
+describe('/.well-known/x402', () => {
+  test('lists every priced route with its method, prices and network', async () => {
+    const response = await discover();
+    assert.equal(response.status, 200);
+    const list: ResourceList = await response.json();
+
+    assert.equal(list.x402Version, 1);
+    assert.equal(list.scheme, 'exact');
+    assert.equal(list.network, x402Config.network);
+    assert.deepEqual(list.networks, [x402Config.network, 'devnet']);
+    assert.equal(list.payTo, getNetworkConfig().payTo);
+    assert.equal(list.facilitatorUrl, x402Config.facilitatorUrl);
+    assert.deepEqual(
+      list.resources.map(({ path, method, mimeType }) => [path, method, mimeType]),
+      [['/api/render-ui', 'POST', 'application/json'], ['/api/premium-ui', 'POST', 'application/json'], ['/api/markets', 'GET', 'application/json']]
+    );
+
+    const render = list.resources[0];
+    assert.match(render.resource, /^https?:\/\/.+\/api\/render-ui$/);
+    assert.deepEqual(
+      render.accepts.map(({ asset, amount }) => [asset, amount]),
+      getAcceptedPrices('/api/render-ui').map(({ asset, amount }) => [asset.symbol, String(amount)])
+    );
+    assert.equal(render.accepts[0].display, '0.0005 SOL');
+  });
+
+  test('describes each component with its input schema and sample output', async () => {
+    const list: ResourceList = await (await discover()).json();
+    const [render, premium, markets] = list.resources;
+
+    const card = render.components.find(({ componentType }) => componentType === 'card')!;
+    assert.equal(card.tier, 'basic');
+    assert.equal(card.sampleOutput?.type, 'card');
+    // POST routes take the component and config as a body
+    assert.deepEqual(card.inputSchema.required, ['componentType']);
+    assert.deepEqual(card.inputSchema.properties?.componentType, { enum: ['card'] });
+
+    const analytics = premium.components.find(({ componentType }) => componentType === 'analytics-dashboard')!;
+    assert.deepEqual(analytics.aliases, ['analytics']);
+
+    // GET routes take the config fields as query parameters
+    const [market] = markets.components;
+    assert.deepEqual(Object.keys(market.inputSchema.properties ?? {}).sort(), ['category', 'hoursBack', 'limit']);
+    assert.equal(market.sampleOutput?.type, 'markets');
+  });
+
+  test('quotes another enabled network and rejects the rest', async () => {
+    const devnet: ResourceList = await (await discover('?network=devnet')).json();
+    assert.equal(devnet.network, 'devnet');
+    assert.equal(devnet.payTo, getNetworkConfig('devnet').payTo);
+    assert.equal(devnet.resources[0].accepts[0].amount, String(getNetworkConfig('devnet').prices['/api/render-ui'].SOL));
+
+    assert.equal((await discover('?network=testnet')).status, 400);
+  });
+});